@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { authenticate, createSessionToken, getSession, SESSION_COOKIE, SESSION_TTL_SECONDS } from '../../../lib/auth';
+
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/'
+};
+
+export async function GET(request: Request) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  return NextResponse.json({ session });
+}
+
+// Body: { username, password }
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const user = authenticate(body?.username, body?.password);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Invalid username or password' }, { status: 401 });
+    }
+
+    const { session, token } = createSessionToken(user);
+    const response = NextResponse.json({ session });
+    response.cookies.set(SESSION_COOKIE, token, { ...cookieOptions, maxAge: SESSION_TTL_SECONDS });
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ ok: true });
+  response.cookies.set(SESSION_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { listAudit } from '../../../lib/audit';
+import { requirePermission } from '../../../lib/auth';
+
+// Read-only on purpose: audit entries are written by the records service and never edited
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const itemName = params.get('item_name')?.trim();
+    const recordId = params.get('record_id');
+
+    if (recordId !== null && !(Number.isInteger(Number(recordId)) && Number(recordId) > 0)) {
+      return NextResponse.json({ error: 'record_id must be a positive integer' }, { status: 400 });
+    }
+
+    const entries = await listAudit(getRepository(), {
+      ...(itemName ? { item_name: itemName } : {}),
+      ...(recordId !== null ? { record_id: Number(recordId) } : {})
+    });
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json({ error: 'Failed to fetch audit log' }, { status: 500 });
+  }
+}
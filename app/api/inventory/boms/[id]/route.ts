@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/repository';
+import { requirePermission } from '../../../../lib/auth';
+import { billsOfMaterials, findBillOfMaterialsConflicts, validateBillOfMaterials } from '../../../../lib/production';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Orders keep the lines they were raised with, so a bill of materials can be changed or
+// deactivated without touching orders in progress
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = requirePermission(request, 'production:plan');
+  if (!auth.ok) return auth.response;
+
+  const id = Number((await params).id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: 'Invalid bill of materials id' }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const repository = getRepository();
+    const { bom, errors } = await validateBillOfMaterials(repository, body, { partial: true });
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid bill of materials', errors }, { status: 400 });
+    }
+
+    const store = billsOfMaterials(repository);
+    if (!(await store.get(id))) {
+      return NextResponse.json({ error: 'Bill of materials not found' }, { status: 404 });
+    }
+
+    const conflicts = await findBillOfMaterialsConflicts(repository, bom, id);
+    if (conflicts.length > 0) {
+      return NextResponse.json({ error: 'Bill of materials already exists', errors: conflicts }, { status: 409 });
+    }
+
+    const updated = await store.update(id, { ...bom, updated_at: new Date().toISOString() });
+    return NextResponse.json({ bom: updated });
+  } catch (error) {
+    console.error('Error updating bill of materials:', error);
+    return NextResponse.json({ error: 'Failed to update bill of materials' }, { status: 500 });
+  }
+}
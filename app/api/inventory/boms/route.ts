@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { requirePermission } from '../../../lib/auth';
+import {
+  billsOfMaterials,
+  BillOfMaterialsInput,
+  findBillOfMaterialsConflicts,
+  validateBillOfMaterials
+} from '../../../lib/production';
+
+// ?active=true limits the list to bills of materials new orders can be raised from
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const activeOnly = request.nextUrl.searchParams.get('active') === 'true';
+    const rows = await billsOfMaterials(getRepository()).list(activeOnly ? { active: true } : {});
+    rows.sort((a, b) => a.finished_product.localeCompare(b.finished_product));
+
+    return NextResponse.json({ boms: rows });
+  } catch (error) {
+    console.error('Error fetching bills of materials:', error);
+    return NextResponse.json({ error: 'Failed to fetch bills of materials' }, { status: 500 });
+  }
+}
+
+// Body: { finished_product, lines: [{ item_name, quantity_per_unit }] }
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'production:plan');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const repository = getRepository();
+    const { bom, errors } = await validateBillOfMaterials(repository, body);
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid bill of materials', errors }, { status: 400 });
+    }
+
+    const conflicts = await findBillOfMaterialsConflicts(repository, bom);
+    if (conflicts.length > 0) {
+      return NextResponse.json({ error: 'Bill of materials already exists', errors: conflicts }, { status: 409 });
+    }
+
+    const now = new Date().toISOString();
+    const created = await billsOfMaterials(repository).insert({
+      ...(bom as BillOfMaterialsInput),
+      created_at: now,
+      updated_at: now
+    });
+
+    return NextResponse.json({ bom: created }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating bill of materials:', error);
+    return NextResponse.json({ error: 'Failed to create bill of materials' }, { status: 500 });
+  }
+}
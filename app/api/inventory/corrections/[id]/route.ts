@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/repository';
+import { applyCorrection, corrections } from '../../../../lib/corrections';
+import { requirePermission } from '../../../../lib/auth';
+import { writeContextFrom } from '../../../../lib/audit';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Body: { action: 'approve' | 'reject', note? }
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = requirePermission(request, 'corrections:review');
+  if (!auth.ok) return auth.response;
+
+  const approver = auth.session.username;
+  const id = Number((await params).id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: 'Invalid correction id' }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const action = body?.action;
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json({ error: 'action must be "approve" or "reject"' }, { status: 400 });
+    }
+
+    const repository = getRepository();
+    const store = corrections(repository);
+    const correction = await store.get(id);
+
+    if (!correction) {
+      return NextResponse.json({ error: 'Correction request not found' }, { status: 404 });
+    }
+    if (correction.status !== 'pending') {
+      return NextResponse.json({ error: `Correction request is already ${correction.status}` }, { status: 409 });
+    }
+
+    const review = {
+      reviewed_by: approver,
+      reviewed_at: new Date().toISOString(),
+      review_note: typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null
+    };
+
+    if (action === 'reject') {
+      const rejected = await store.update(id, { ...review, status: 'rejected' });
+      return NextResponse.json({ correction: rejected });
+    }
+
+    // The request stays pending when the ledger refuses the proposed values
+    const result = await applyCorrection(repository, correction, writeContextFrom(request, approver));
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, errors: result.errors }, { status: result.status });
+    }
+
+    const approved = await store.update(id, { ...review, status: 'approved', record_id: result.record.id! });
+    return NextResponse.json({ correction: approved, record: result.record, rechained: result.rechained });
+  } catch (error) {
+    console.error('Error reviewing correction request:', error);
+    return NextResponse.json({ error: 'Failed to review correction request' }, { status: 500 });
+  }
+}
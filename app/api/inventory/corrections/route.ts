@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { corrections, validateCorrectionRequest } from '../../../lib/corrections';
+import { requirePermission } from '../../../lib/auth';
+import { CorrectionRequest, CorrectionStatus } from '../../../types/inventory';
+
+const STATUSES: CorrectionStatus[] = ['pending', 'approved', 'rejected'];
+
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !STATUSES.includes(status as CorrectionStatus)) {
+      return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const rows = await corrections(getRepository()).list(status ? { status: status as CorrectionStatus } : {});
+    rows.sort((a, b) => b.requested_at.localeCompare(a.requested_at));
+
+    return NextResponse.json({ corrections: rows });
+  } catch (error) {
+    console.error('Error fetching corrections:', error);
+    return NextResponse.json({ error: 'Failed to fetch corrections' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'corrections:request');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { correction, errors } = validateCorrectionRequest(body, auth.session.username);
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid correction request', errors }, { status: 400 });
+    }
+
+    const repository = getRepository();
+    const existing = await repository.getRecordForDate(correction.item_name, correction.location, correction.date);
+
+    const created = await corrections(repository).insert({
+      ...correction,
+      record_id: existing?.id ?? null,
+      status: 'pending',
+      requested_at: new Date().toISOString(),
+      reviewed_by: null,
+      reviewed_at: null,
+      review_note: null
+    } as CorrectionRequest);
+
+    return NextResponse.json({ correction: created }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating correction request:', error);
+    return NextResponse.json({ error: 'Failed to create correction request' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { requirePermission } from '../../../lib/auth';
+import { MAX_PAGE_SIZE, RecordCursor } from '../../../lib/pagination';
+import { InventoryRecord } from '../../../types/inventory';
+
+const HEADERS = [
+  'Date', 'Item Name', 'Location', 'Opening Stock', 'New Stock', 'New Balance',
+  'Issued to Production', 'Returns', 'Rebagging', 'Rebagging Out', 'Damaged', 'Transfer In', 'Transfer Out', 'Adjustment', 'Closing Stock',
+  'Shortfall Reason'
+];
+
+const toCsvRow = (record: InventoryRecord) => [
+  record.date,
+  `"${record.item_name.replace(/"/g, '""')}"`,
+  `"${record.location.replace(/"/g, '""')}"`,
+  record.opening_stock,
+  record.new_stock,
+  record.new_balance,
+  record.issued_production,
+  record.returns,
+  record.rebagging,
+  record.rebagging_out,
+  record.damaged,
+  record.transfer_in,
+  record.transfer_out,
+  record.adjustment,
+  record.closing_stock,
+  record.shortfall_reason ? `"${record.shortfall_reason.replace(/"/g, '""')}"` : ''
+].join(',');
+
+// Exports run on the server so the admin-only rule cannot be bypassed from the browser
+export async function GET(request: Request) {
+  const auth = requirePermission(request, 'records:export');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const repository = getRepository();
+    const records: InventoryRecord[] = [];
+    let cursor: RecordCursor | undefined;
+
+    do {
+      const page = await repository.listRecords({ sort: 'desc', limit: MAX_PAGE_SIZE, cursor });
+      records.push(...page.records);
+      const last = page.records[page.records.length - 1];
+      cursor = page.hasMore && last ? { date: last.date, id: last.id! } : undefined;
+    } while (cursor);
+
+    const csv = [HEADERS.join(','), ...records.map(toCsvRow)].join('\n');
+    const filename = `inventory_records_${new Date().toISOString().split('T')[0]}.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting records:', error);
+    return NextResponse.json({ error: 'Failed to export records' }, { status: 500 });
+  }
+}
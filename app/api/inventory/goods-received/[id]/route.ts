@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/repository';
+import { requirePermission } from '../../../../lib/auth';
+import { goodsReceivedNotes } from '../../../../lib/goodsReceived';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Notes are never edited once posted; a wrong delivery is put right with a correction
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  const id = Number((await params).id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: 'Invalid goods received note id' }, { status: 400 });
+  }
+
+  try {
+    const note = await goodsReceivedNotes(getRepository()).get(id);
+    if (!note) {
+      return NextResponse.json({ error: 'Goods received note not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ goods_received: note });
+  } catch (error) {
+    console.error('Error fetching goods received note:', error);
+    return NextResponse.json({ error: 'Failed to fetch goods received note' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { requirePermission } from '../../../lib/auth';
+import { writeContextFrom } from '../../../lib/audit';
+import { goodsReceivedNotes, postGoodsReceivedNote } from '../../../lib/goodsReceived';
+import { GoodsReceivedNote } from '../../../types/inventory';
+
+// ?item_name limits the list to notes with a line for the product; ?location, ?date,
+// ?supplier_id and ?purchase_order_id narrow it further
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const itemName = params.get('item_name')?.trim();
+    const filter: Partial<GoodsReceivedNote> = {};
+    const location = params.get('location')?.trim();
+    const date = params.get('date')?.trim();
+    const supplierId = params.get('supplier_id');
+    const purchaseOrderId = params.get('purchase_order_id');
+    if (location) filter.location = location;
+    if (date) filter.date = date;
+    if (supplierId) filter.supplier_id = Number(supplierId);
+    if (purchaseOrderId) filter.purchase_order_id = Number(purchaseOrderId);
+
+    const rows = (await goodsReceivedNotes(getRepository()).list(filter))
+      .filter(note => !itemName || note.lines.some(line => line.item_name === itemName));
+    rows.sort((a, b) => b.date.localeCompare(a.date) || b.created_at.localeCompare(a.created_at));
+
+    return NextResponse.json({ goods_received: rows });
+  } catch (error) {
+    console.error('Error fetching goods received notes:', error);
+    return NextResponse.json({ error: 'Failed to fetch goods received notes' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'purchases:receive');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await postGoodsReceivedNote(getRepository(), body, writeContextFrom(request, auth.session.username));
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, errors: result.errors }, { status: result.status });
+    }
+
+    const { note, receipts, purchaseOrder } = result;
+    return NextResponse.json({ goods_received: note, receipts, purchase_order: purchaseOrder }, { status: 201 });
+  } catch (error) {
+    console.error('Error posting goods received note:', error);
+    return NextResponse.json({ error: 'Failed to post goods received note' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../../lib/repository';
+import { requirePermission } from '../../../../../lib/auth';
+import { writeContextFrom } from '../../../../../lib/audit';
+import { issueToProductionOrder, productionOrders } from '../../../../../lib/production';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Body: { date?, note?, shortfall_reason?, lines: [{ item_name, quantity }] }
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = requirePermission(request, 'production:issue');
+  if (!auth.ok) return auth.response;
+
+  const id = Number((await params).id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: 'Invalid production order id' }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const repository = getRepository();
+    const order = await productionOrders(repository).get(id);
+    if (!order) {
+      return NextResponse.json({ error: 'Production order not found' }, { status: 404 });
+    }
+
+    const result = await issueToProductionOrder(repository, order, body, writeContextFrom(request, auth.session.username));
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, errors: result.errors }, { status: result.status });
+    }
+
+    return NextResponse.json({ production_order: result.order, issues: result.issues }, { status: 201 });
+  } catch (error) {
+    console.error('Error issuing materials to production order:', error);
+    return NextResponse.json({ error: 'Failed to issue materials' }, { status: 500 });
+  }
+}
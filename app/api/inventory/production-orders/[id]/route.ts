@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/repository';
+import { requirePermission } from '../../../../lib/auth';
+import { productionOrders } from '../../../../lib/production';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const parseId = async ({ params }: RouteContext) => {
+  const id = Number((await params).id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+const invalidId = () => NextResponse.json({ error: 'Invalid production order id' }, { status: 400 });
+const notFound = () => NextResponse.json({ error: 'Production order not found' }, { status: 404 });
+
+export async function GET(request: Request, context: RouteContext) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  const id = await parseId(context);
+  if (!id) return invalidId();
+
+  try {
+    const order = await productionOrders(getRepository()).get(id);
+    if (!order) return notFound();
+
+    return NextResponse.json({ production_order: order });
+  } catch (error) {
+    console.error('Error fetching production order:', error);
+    return NextResponse.json({ error: 'Failed to fetch production order' }, { status: 500 });
+  }
+}
+
+// Body: { action: 'complete', produced_quantity } or { action: 'cancel' }; materials already
+// issued stay posted either way
+export async function PATCH(request: Request, context: RouteContext) {
+  const auth = requirePermission(request, 'production:plan');
+  if (!auth.ok) return auth.response;
+
+  const id = await parseId(context);
+  if (!id) return invalidId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (body?.action !== 'complete' && body?.action !== 'cancel') {
+      return NextResponse.json({ error: 'action must be "complete" or "cancel"' }, { status: 400 });
+    }
+
+    const produced = body.produced_quantity;
+    if (body.action === 'complete' && !(typeof produced === 'number' && Number.isFinite(produced) && produced >= 0)) {
+      return NextResponse.json({
+        error: 'Invalid production order',
+        errors: [{ field: 'produced_quantity', message: 'produced_quantity must be zero or more' }]
+      }, { status: 400 });
+    }
+
+    const store = productionOrders(getRepository());
+    const order = await store.get(id);
+    if (!order) return notFound();
+    if (order.status !== 'open') {
+      return NextResponse.json({ error: `Production order is already ${order.status}` }, { status: 409 });
+    }
+
+    const closed = await store.update(id, body.action === 'complete'
+      ? { status: 'completed', produced_quantity: produced, closed_at: new Date().toISOString() }
+      : { status: 'cancelled', closed_at: new Date().toISOString() });
+    return NextResponse.json({ production_order: closed });
+  } catch (error) {
+    console.error('Error closing production order:', error);
+    return NextResponse.json({ error: 'Failed to close production order' }, { status: 500 });
+  }
+}
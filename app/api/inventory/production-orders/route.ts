@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { requirePermission } from '../../../lib/auth';
+import { writeContextFrom } from '../../../lib/audit';
+import { createProductionOrder, productionOrders } from '../../../lib/production';
+import { ProductionOrder, ProductionOrderStatus } from '../../../types/inventory';
+
+const STATUSES: ProductionOrderStatus[] = ['open', 'completed', 'cancelled'];
+
+// ?status, ?location and ?finished_product narrow the list
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const status = params.get('status');
+    if (status && !STATUSES.includes(status as ProductionOrderStatus)) {
+      return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const location = params.get('location')?.trim();
+    const finishedProduct = params.get('finished_product')?.trim();
+    const filter: Partial<ProductionOrder> = {};
+    if (status) filter.status = status as ProductionOrderStatus;
+    if (location) filter.location = location;
+    if (finishedProduct) filter.finished_product = finishedProduct;
+
+    const rows = await productionOrders(getRepository()).list(filter);
+    rows.sort((a, b) => b.order_date.localeCompare(a.order_date) || b.created_at.localeCompare(a.created_at));
+
+    return NextResponse.json({ production_orders: rows });
+  } catch (error) {
+    console.error('Error fetching production orders:', error);
+    return NextResponse.json({ error: 'Failed to fetch production orders' }, { status: 500 });
+  }
+}
+
+// Body: { bom_id, planned_quantity, location?, order_date?, reference?, note? }
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'production:plan');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await createProductionOrder(getRepository(), body, writeContextFrom(request, auth.session.username));
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, errors: result.errors }, { status: result.status });
+    }
+
+    return NextResponse.json({ production_order: result.order }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating production order:', error);
+    return NextResponse.json({ error: 'Failed to create production order' }, { status: 500 });
+  }
+}
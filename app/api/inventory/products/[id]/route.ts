@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/repository';
+import { requirePermission } from '../../../../lib/auth';
+import { findConflicts, levelErrors, products, validateProduct } from '../../../../lib/products';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Records refer to products by name, so products are never deleted (set active to false
+// instead) and a name change goes through /products/rename, which rewrites the records too.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = requirePermission(request, 'products:manage');
+  if (!auth.ok) return auth.response;
+
+  const id = Number((await params).id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: 'Invalid product id' }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { product, errors } = validateProduct(body, { partial: true });
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid product', errors }, { status: 400 });
+    }
+
+    const repository = getRepository();
+    const store = products(repository);
+    const existing = await store.get(id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+    if (product.name !== undefined && product.name !== existing.name) {
+      return NextResponse.json({
+        error: 'Invalid product',
+        errors: [{ field: 'name', message: 'name cannot be changed here; use the rename tool so the records follow' }]
+      }, { status: 400 });
+    }
+
+    const levels = levelErrors({ ...existing, ...product });
+    if (levels.length > 0) {
+      return NextResponse.json({ error: 'Invalid product', errors: levels }, { status: 400 });
+    }
+
+    const conflicts = await findConflicts(repository, product, id);
+    if (conflicts.length > 0) {
+      return NextResponse.json({ error: 'Product already exists', errors: conflicts }, { status: 409 });
+    }
+
+    const updated = await store.update(id, { ...product, updated_at: new Date().toISOString() });
+    return NextResponse.json({ product: updated });
+  } catch (error) {
+    console.error('Error updating product:', error);
+    return NextResponse.json({ error: 'Failed to update product' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/repository';
+import { requirePermission } from '../../../../lib/auth';
+import { writeContextFrom } from '../../../../lib/audit';
+import { mergeProducts } from '../../../../lib/productMerge';
+
+// Body: { source, target }
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'products:merge');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const source = typeof body?.source === 'string' ? body.source.trim() : '';
+    const target = typeof body?.target === 'string' ? body.target.trim() : '';
+
+    if (!source || !target) {
+      return NextResponse.json({ error: 'source and target product names are required' }, { status: 400 });
+    }
+
+    const result = await mergeProducts(getRepository(), source, target, writeContextFrom(request, auth.session.username));
+    if (!result.ok) {
+      const { status, error, errors } = result;
+      return NextResponse.json({ error, errors }, { status });
+    }
+
+    const { product, records_updated, records_merged } = result;
+    return NextResponse.json({ product, records_updated, records_merged });
+  } catch (error) {
+    console.error('Error merging products:', error);
+    return NextResponse.json({ error: 'Failed to update product history' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { requirePermission } from '../../../lib/auth';
+import { findConflicts, ProductInput, products, validateProduct } from '../../../lib/products';
+
+// ?active=true limits the list to products that can still be used for new records
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const activeOnly = request.nextUrl.searchParams.get('active') === 'true';
+    const rows = await products(getRepository()).list(activeOnly ? { active: true } : {});
+    rows.sort((a, b) => a.name.localeCompare(b.name));
+
+    return NextResponse.json({ products: rows });
+  } catch (error) {
+    console.error('Error fetching products:', error);
+    return NextResponse.json({ error: 'Failed to fetch products' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'products:manage');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { product, errors } = validateProduct(body);
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid product', errors }, { status: 400 });
+    }
+
+    const repository = getRepository();
+    const conflicts = await findConflicts(repository, product);
+    if (conflicts.length > 0) {
+      return NextResponse.json({ error: 'Product already exists', errors: conflicts }, { status: 409 });
+    }
+
+    const now = new Date().toISOString();
+    const created = await products(repository).insert({
+      ...(product as ProductInput),
+      created_at: now,
+      updated_at: now
+    });
+
+    return NextResponse.json({ product: created }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating product:', error);
+    return NextResponse.json({ error: 'Failed to create product' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/repository';
+import { requirePermission } from '../../../../lib/auth';
+import { purchaseOrders } from '../../../../lib/purchaseOrders';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const parseId = async ({ params }: RouteContext) => {
+  const id = Number((await params).id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+const invalidId = () => NextResponse.json({ error: 'Invalid purchase order id' }, { status: 400 });
+const notFound = () => NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+
+export async function GET(request: Request, context: RouteContext) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  const id = await parseId(context);
+  if (!id) return invalidId();
+
+  try {
+    const order = await purchaseOrders(getRepository()).get(id);
+    if (!order) return notFound();
+
+    return NextResponse.json({ purchase_order: order });
+  } catch (error) {
+    console.error('Error fetching purchase order:', error);
+    return NextResponse.json({ error: 'Failed to fetch purchase order' }, { status: 500 });
+  }
+}
+
+// Body: { action: 'cancel' }; whatever was received before stays posted
+export async function PATCH(request: Request, context: RouteContext) {
+  const auth = requirePermission(request, 'purchases:order');
+  if (!auth.ok) return auth.response;
+
+  const id = await parseId(context);
+  if (!id) return invalidId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (body?.action !== 'cancel') {
+      return NextResponse.json({ error: 'action must be "cancel"' }, { status: 400 });
+    }
+
+    const store = purchaseOrders(getRepository());
+    const order = await store.get(id);
+    if (!order) return notFound();
+    if (order.status !== 'open') {
+      return NextResponse.json({ error: `Purchase order is already ${order.status}` }, { status: 409 });
+    }
+
+    const cancelled = await store.update(id, { status: 'cancelled', closed_at: new Date().toISOString() });
+    return NextResponse.json({ purchase_order: cancelled });
+  } catch (error) {
+    console.error('Error cancelling purchase order:', error);
+    return NextResponse.json({ error: 'Failed to cancel purchase order' }, { status: 500 });
+  }
+}
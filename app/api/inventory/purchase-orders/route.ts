@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { requirePermission } from '../../../lib/auth';
+import { writeContextFrom } from '../../../lib/audit';
+import { createPurchaseOrder, purchaseOrders } from '../../../lib/purchaseOrders';
+import { PurchaseOrder, PurchaseOrderStatus } from '../../../types/inventory';
+
+const STATUSES: PurchaseOrderStatus[] = ['open', 'received', 'cancelled'];
+
+// ?status, ?supplier_id and ?location narrow the list
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const status = params.get('status');
+    if (status && !STATUSES.includes(status as PurchaseOrderStatus)) {
+      return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const supplierId = params.get('supplier_id');
+    const location = params.get('location')?.trim();
+    const filter: Partial<PurchaseOrder> = {};
+    if (status) filter.status = status as PurchaseOrderStatus;
+    if (supplierId) filter.supplier_id = Number(supplierId);
+    if (location) filter.location = location;
+
+    const rows = await purchaseOrders(getRepository()).list(filter);
+    rows.sort((a, b) => b.order_date.localeCompare(a.order_date) || b.created_at.localeCompare(a.created_at));
+
+    return NextResponse.json({ purchase_orders: rows });
+  } catch (error) {
+    console.error('Error fetching purchase orders:', error);
+    return NextResponse.json({ error: 'Failed to fetch purchase orders' }, { status: 500 });
+  }
+}
+
+// Body: { supplier_id, location?, order_date?, expected_date?, reference?, note?, lines: [{ item_name, quantity }] }
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'purchases:order');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await createPurchaseOrder(getRepository(), body, writeContextFrom(request, auth.session.username));
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, errors: result.errors }, { status: result.status });
+    }
+
+    return NextResponse.json({ purchase_order: result.order }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating purchase order:', error);
+    return NextResponse.json({ error: 'Failed to create purchase order' }, { status: 500 });
+  }
+}
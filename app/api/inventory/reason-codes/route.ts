@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { requirePermission } from '../../../lib/auth';
+import { getReasonCodes } from '../../../lib/reasonCodes';
+
+export async function GET(request: Request) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json({ reason_codes: getReasonCodes() });
+}
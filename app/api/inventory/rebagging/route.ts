@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { requirePermission } from '../../../lib/auth';
+import { writeContextFrom } from '../../../lib/audit';
+import { postRebagging, rebaggings, validateRebagging } from '../../../lib/rebagging';
+
+// ?item_name limits the list to conversions from or into one product, ?location to one location
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const itemName = params.get('item_name')?.trim();
+    const location = params.get('location')?.trim();
+
+    const rows = (await rebaggings(getRepository()).list(location ? { location } : {}))
+      .filter(rebagging => !itemName || rebagging.source_product === itemName || rebagging.target_product === itemName);
+    rows.sort((a, b) => b.date.localeCompare(a.date) || b.created_at.localeCompare(a.created_at));
+
+    return NextResponse.json({ rebagging: rows });
+  } catch (error) {
+    console.error('Error fetching rebagging:', error);
+    return NextResponse.json({ error: 'Failed to fetch rebagging' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'production:issue');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { rebagging, errors } = validateRebagging(body);
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid rebagging', errors }, { status: 400 });
+    }
+
+    const result = await postRebagging(getRepository(), rebagging, writeContextFrom(request, auth.session.username));
+    if (!result.ok) {
+      const { status, error, errors: resultErrors } = result;
+      return NextResponse.json({ error, errors: resultErrors }, { status });
+    }
+
+    const { rebagging: posted, records, rechained } = result;
+    return NextResponse.json({ rebagging: posted, records, rechained }, { status: 201 });
+  } catch (error) {
+    console.error('Error posting rebagging:', error);
+    return NextResponse.json({ error: 'Failed to post rebagging' }, { status: 500 });
+  }
+}
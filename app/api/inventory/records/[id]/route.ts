@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/repository';
+import { validateInventoryRecord } from '../../../../lib/validation';
+import { deleteRecord, toResponse, updateDailyRecord } from '../../../../lib/records';
+import { writeContextFrom } from '../../../../lib/audit';
+import { requirePermission } from '../../../../lib/auth';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const parseId = (value: string) => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+const handleUpdate = async (request: Request, { params }: RouteContext, partial: boolean) => {
+  const auth = requirePermission(request, 'records:write');
+  if (!auth.ok) return auth.response;
+
+  const id = parseId((await params).id);
+  if (!id) {
+    return NextResponse.json({ error: 'Invalid record id' }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { record, errors } = validateInventoryRecord(body, { partial });
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid record', errors }, { status: 400 });
+    }
+
+    return toResponse(
+      await updateDailyRecord(getRepository(), id, record, writeContextFrom(request, auth.session.username), { partial })
+    );
+  } catch (error) {
+    console.error('Error updating record:', error);
+    return NextResponse.json({ error: 'Failed to update record' }, { status: 500 });
+  }
+};
+
+export async function PUT(request: Request, context: RouteContext) {
+  return handleUpdate(request, context, false);
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  return handleUpdate(request, context, true);
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = requirePermission(request, 'records:delete');
+  if (!auth.ok) return auth.response;
+
+  const id = parseId((await params).id);
+  if (!id) {
+    return NextResponse.json({ error: 'Invalid record id' }, { status: 400 });
+  }
+
+  try {
+    return toResponse(await deleteRecord(getRepository(), id, writeContextFrom(request, auth.session.username)));
+  } catch (error) {
+    console.error('Error deleting record:', error);
+    return NextResponse.json({ error: 'Failed to delete record' }, { status: 500 });
+  }
+}
@@ -1,22 +1,48 @@
-import { NextResponse } from 'next/server';
-import { supabase } from '../../../lib/supabase';
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { validateInventoryRecord } from '../../../lib/validation';
+import { encodeCursor, parseRecordQuery } from '../../../lib/pagination';
+import { createDailyRecord, RecordInput, toResponse } from '../../../lib/records';
+import { writeContextFrom } from '../../../lib/audit';
+import { requirePermission } from '../../../lib/auth';
+
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { query, errors } = parseRecordQuery(request.nextUrl.searchParams);
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid query', errors }, { status: 400 });
+    }
+
+    const { records, hasMore } = await getRepository().listRecords(query);
+    const last = records[records.length - 1];
+    const nextCursor = hasMore && last ? encodeCursor({ date: last.date, id: last.id! }) : null;
+
+    return NextResponse.json({ records, nextCursor });
+  } catch (error) {
+    console.error('Error fetching records:', error);
+    return NextResponse.json({ error: 'Failed to fetch records' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'records:write');
+  if (!auth.ok) return auth.response;
 
-export async function GET() {
   try {
-    const { data: records, error } = await supabase
-      .from('inventory_records')
-      .select('*')
-      .order('date', { ascending: false })
-      .limit(100); // Increased limit for better product history analysis
-
-    if (error) {
-      console.error('Error fetching records:', error);
-      return NextResponse.json({ error: 'Failed to fetch records' }, { status: 500 });
+    const body = await request.json().catch(() => null);
+    const { record, errors } = validateInventoryRecord(body);
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid record', errors }, { status: 400 });
     }
 
-    return NextResponse.json({ records: records || [] });
+    return toResponse(await createDailyRecord(getRepository(), record as RecordInput, writeContextFrom(request, auth.session.username)), 201);
   } catch (error) {
-    console.error('Error in records API:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    console.error('Error creating record:', error);
+    return NextResponse.json({ error: 'Failed to save record' }, { status: 500 });
   }
 }
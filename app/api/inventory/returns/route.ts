@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { requirePermission } from '../../../lib/auth';
+import { writeContextFrom } from '../../../lib/audit';
+import { postProductionReturn, productionReturns } from '../../../lib/production';
+import { ProductionReturn } from '../../../types/inventory';
+
+// ?item_name, ?location, ?production_order_id and ?issue_id narrow the list
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const itemName = params.get('item_name')?.trim();
+    const location = params.get('location')?.trim();
+    const orderId = params.get('production_order_id');
+    const issueId = params.get('issue_id');
+    const filter: Partial<ProductionReturn> = {};
+    if (itemName) filter.item_name = itemName;
+    if (location) filter.location = location;
+    if (orderId) filter.production_order_id = Number(orderId);
+    if (issueId) filter.issue_id = Number(issueId);
+
+    const rows = await productionReturns(getRepository()).list(filter);
+    rows.sort((a, b) => b.date.localeCompare(a.date) || b.created_at.localeCompare(a.created_at));
+
+    return NextResponse.json({ returns: rows });
+  } catch (error) {
+    console.error('Error fetching production returns:', error);
+    return NextResponse.json({ error: 'Failed to fetch returns' }, { status: 500 });
+  }
+}
+
+// Body: { issue_id?, production_order_id?, item_name?, quantity, date?, reference?, note? }
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'production:issue');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await postProductionReturn(getRepository(), body, writeContextFrom(request, auth.session.username));
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, errors: result.errors }, { status: result.status });
+    }
+
+    const { productionReturn, transaction, record, order } = result;
+    return NextResponse.json({ return: productionReturn, transaction, record, production_order: order }, { status: 201 });
+  } catch (error) {
+    console.error('Error posting production return:', error);
+    return NextResponse.json({ error: 'Failed to post return' }, { status: 500 });
+  }
+}
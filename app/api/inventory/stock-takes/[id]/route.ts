@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/repository';
+import { requirePermission } from '../../../../lib/auth';
+import { writeContextFrom } from '../../../../lib/audit';
+import { postStockTake, recordCounts, stockTakes, StockTakeResult, withBalances } from '../../../../lib/stockTakes';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const parseId = async ({ params }: RouteContext) => {
+  const id = Number((await params).id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+const invalidId = () => NextResponse.json({ error: 'Invalid stock-take id' }, { status: 400 });
+const notFound = () => NextResponse.json({ error: 'Stock-take not found' }, { status: 404 });
+
+const toResponse = async (result: StockTakeResult) => {
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error, errors: result.errors }, { status: result.status });
+  }
+
+  return NextResponse.json({
+    stock_take: await withBalances(getRepository(), result.stockTake),
+    ...(result.adjustments ? { adjustments: result.adjustments } : {})
+  });
+};
+
+// Lines of an open session carry the current computed balance next to the count
+export async function GET(request: Request, context: RouteContext) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  const id = await parseId(context);
+  if (!id) return invalidId();
+
+  try {
+    const repository = getRepository();
+    const stockTake = await stockTakes(repository).get(id);
+    if (!stockTake) return notFound();
+
+    return NextResponse.json({ stock_take: await withBalances(repository, stockTake) });
+  } catch (error) {
+    console.error('Error fetching stock-take:', error);
+    return NextResponse.json({ error: 'Failed to fetch stock-take' }, { status: 500 });
+  }
+}
+
+// Body: { counts: [{ item_name, counted }] }
+export async function PUT(request: Request, context: RouteContext) {
+  const auth = requirePermission(request, 'stocktakes:count');
+  if (!auth.ok) return auth.response;
+
+  const id = await parseId(context);
+  if (!id) return invalidId();
+
+  try {
+    const repository = getRepository();
+    const stockTake = await stockTakes(repository).get(id);
+    if (!stockTake) return notFound();
+
+    const body = await request.json().catch(() => null);
+    return toResponse(await recordCounts(repository, stockTake, body));
+  } catch (error) {
+    console.error('Error recording counts:', error);
+    return NextResponse.json({ error: 'Failed to record counts' }, { status: 500 });
+  }
+}
+
+// Body: { action: 'post', approvals: [{ item_name, reason_code }] } or { action: 'cancel' }
+export async function PATCH(request: Request, context: RouteContext) {
+  const auth = requirePermission(request, 'stocktakes:post');
+  if (!auth.ok) return auth.response;
+
+  const id = await parseId(context);
+  if (!id) return invalidId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const action = body?.action;
+    if (action !== 'post' && action !== 'cancel') {
+      return NextResponse.json({ error: 'action must be "post" or "cancel"' }, { status: 400 });
+    }
+
+    const repository = getRepository();
+    const store = stockTakes(repository);
+    const stockTake = await store.get(id);
+    if (!stockTake) return notFound();
+
+    if (action === 'cancel') {
+      if (stockTake.status !== 'counting') {
+        return NextResponse.json({ error: `Stock-take is already ${stockTake.status}` }, { status: 409 });
+      }
+      const cancelled = await store.update(id, { status: 'cancelled' });
+      return NextResponse.json({ stock_take: cancelled });
+    }
+
+    return toResponse(await postStockTake(repository, stockTake, body, writeContextFrom(request, auth.session.username)));
+  } catch (error) {
+    console.error('Error posting stock-take:', error);
+    return NextResponse.json({ error: 'Failed to post stock-take' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { requirePermission } from '../../../lib/auth';
+import { writeContextFrom } from '../../../lib/audit';
+import { openStockTake, stockTakes } from '../../../lib/stockTakes';
+import { StockTakeStatus } from '../../../types/inventory';
+
+const STATUSES: StockTakeStatus[] = ['counting', 'posted', 'cancelled'];
+
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !STATUSES.includes(status as StockTakeStatus)) {
+      return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const rows = await stockTakes(getRepository()).list(status ? { status: status as StockTakeStatus } : {});
+    rows.sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    return NextResponse.json({ stock_takes: rows });
+  } catch (error) {
+    console.error('Error fetching stock-takes:', error);
+    return NextResponse.json({ error: 'Failed to fetch stock-takes' }, { status: 500 });
+  }
+}
+
+// Body: { location?, date?, item_names?, note? }; without item_names every active product is counted
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'stocktakes:count');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await openStockTake(getRepository(), body, writeContextFrom(request, auth.session.username));
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, errors: result.errors }, { status: result.status });
+    }
+
+    return NextResponse.json({ stock_take: result.stockTake }, { status: 201 });
+  } catch (error) {
+    console.error('Error opening stock-take:', error);
+    return NextResponse.json({ error: 'Failed to open stock-take' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/repository';
+import { requirePermission } from '../../../../lib/auth';
+import { findSupplierConflicts, suppliers, validateSupplier } from '../../../../lib/suppliers';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Purchase orders keep the supplier's name as it was when ordered, so suppliers are
+// deactivated rather than deleted and can be renamed freely
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = requirePermission(request, 'suppliers:manage');
+  if (!auth.ok) return auth.response;
+
+  const id = Number((await params).id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: 'Invalid supplier id' }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { supplier, errors } = validateSupplier(body, { partial: true });
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid supplier', errors }, { status: 400 });
+    }
+
+    const repository = getRepository();
+    const store = suppliers(repository);
+    if (!(await store.get(id))) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    const conflicts = await findSupplierConflicts(repository, supplier, id);
+    if (conflicts.length > 0) {
+      return NextResponse.json({ error: 'Supplier already exists', errors: conflicts }, { status: 409 });
+    }
+
+    const updated = await store.update(id, { ...supplier, updated_at: new Date().toISOString() });
+    return NextResponse.json({ supplier: updated });
+  } catch (error) {
+    console.error('Error updating supplier:', error);
+    return NextResponse.json({ error: 'Failed to update supplier' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { requirePermission } from '../../../lib/auth';
+import { findSupplierConflicts, SupplierInput, suppliers, validateSupplier } from '../../../lib/suppliers';
+
+// ?active=true limits the list to suppliers that can still be ordered from
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const activeOnly = request.nextUrl.searchParams.get('active') === 'true';
+    const rows = await suppliers(getRepository()).list(activeOnly ? { active: true } : {});
+    rows.sort((a, b) => a.name.localeCompare(b.name));
+
+    return NextResponse.json({ suppliers: rows });
+  } catch (error) {
+    console.error('Error fetching suppliers:', error);
+    return NextResponse.json({ error: 'Failed to fetch suppliers' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'suppliers:manage');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { supplier, errors } = validateSupplier(body);
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid supplier', errors }, { status: 400 });
+    }
+
+    const repository = getRepository();
+    const conflicts = await findSupplierConflicts(repository, supplier);
+    if (conflicts.length > 0) {
+      return NextResponse.json({ error: 'Supplier already exists', errors: conflicts }, { status: 409 });
+    }
+
+    const now = new Date().toISOString();
+    const created = await suppliers(repository).insert({
+      ...(supplier as SupplierInput),
+      created_at: now,
+      updated_at: now
+    });
+
+    return NextResponse.json({ supplier: created }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating supplier:', error);
+    return NextResponse.json({ error: 'Failed to create supplier' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { requirePermission } from '../../../lib/auth';
+import { writeContextFrom } from '../../../lib/audit';
+import { listTransactions, postTransaction, validateTransaction } from '../../../lib/transactions';
+import { refusePastDate } from '../../../lib/validation';
+
+// ?item_name, ?location and ?date narrow the list; newest first
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const itemName = params.get('item_name')?.trim();
+    const location = params.get('location')?.trim();
+    const date = params.get('date')?.trim();
+
+    const rows = await listTransactions(getRepository(), {
+      ...(itemName ? { item_name: itemName } : {}),
+      ...(location ? { location } : {}),
+      ...(date ? { date } : {})
+    });
+
+    return NextResponse.json({ transactions: rows });
+  } catch (error) {
+    console.error('Error fetching transactions:', error);
+    return NextResponse.json({ error: 'Failed to fetch transactions' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'records:write');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { transaction, errors } = validateTransaction(body);
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid transaction', errors }, { status: 400 });
+    }
+
+    // Stock-takes post their adjustments for the count date through postTransaction, so the
+    // past-day rule is checked here rather than in the shared posting
+    const refused = refusePastDate(transaction.date);
+    if (refused) return NextResponse.json({ error: refused.error, errors: refused.errors }, { status: refused.status });
+
+    const result = await postTransaction(getRepository(), transaction, writeContextFrom(request, auth.session.username));
+    if (!result.ok) {
+      const { status, error, errors: resultErrors } = result;
+      return NextResponse.json({ error, errors: resultErrors }, { status });
+    }
+
+    const { transaction: posted, record, rechained } = result;
+    return NextResponse.json({ transaction: posted, record, rechained }, { status: 201 });
+  } catch (error) {
+    console.error('Error posting transaction:', error);
+    return NextResponse.json({ error: 'Failed to post transaction' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/repository';
+import { requirePermission } from '../../../lib/auth';
+import { writeContextFrom } from '../../../lib/audit';
+import { postTransfer, transfers, validateTransfer } from '../../../lib/transfers';
+
+// ?item_name limits the list to one product, ?location to transfers in or out of one location
+export async function GET(request: NextRequest) {
+  const auth = requirePermission(request, 'records:read');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const itemName = params.get('item_name')?.trim();
+    const location = params.get('location')?.trim();
+
+    const rows = (await transfers(getRepository()).list(itemName ? { item_name: itemName } : {}))
+      .filter(transfer => !location || transfer.from_location === location || transfer.to_location === location);
+    rows.sort((a, b) => b.date.localeCompare(a.date) || b.created_at.localeCompare(a.created_at));
+
+    return NextResponse.json({ transfers: rows });
+  } catch (error) {
+    console.error('Error fetching transfers:', error);
+    return NextResponse.json({ error: 'Failed to fetch transfers' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = requirePermission(request, 'transfers:post');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { transfer, errors } = validateTransfer(body);
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid transfer', errors }, { status: 400 });
+    }
+
+    const result = await postTransfer(getRepository(), transfer, writeContextFrom(request, auth.session.username));
+    if (!result.ok) {
+      const { status, error, errors: resultErrors } = result;
+      return NextResponse.json({ error, errors: resultErrors }, { status });
+    }
+
+    const { transfer: posted, records, rechained } = result;
+    return NextResponse.json({ transfer: posted, records, rechained }, { status: 201 });
+  } catch (error) {
+    console.error('Error posting transfer:', error);
+    return NextResponse.json({ error: 'Failed to post transfer' }, { status: 500 });
+  }
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ApiError, fetchCorrections, getRecordForDate, reviewCorrection } from '../lib/inventoryApi';
+import { CorrectionRequest, CorrectionStatus, InventoryRecord, ProposedValues } from '../types/inventory';
+
+interface CorrectionsSectionProps {
+  canReview: boolean;
+  onCorrectionApplied?: () => void;
+}
+
+interface CorrectionRow {
+  correction: CorrectionRequest;
+  current: InventoryRecord | null;
+}
+
+const FIELD_LABELS: Record<keyof ProposedValues, string> = {
+  opening_stock: 'Opening',
+  new_stock: 'New Stock',
+  issued_production: 'Issued',
+  damaged: 'Damaged'
+};
+
+export default function CorrectionsSection({ canReview, onCorrectionApplied }: CorrectionsSectionProps) {
+  const [statusFilter, setStatusFilter] = useState<CorrectionStatus>('pending');
+  const [rows, setRows] = useState<CorrectionRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [reviewingId, setReviewingId] = useState<number | null>(null);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    loadCorrections(statusFilter);
+  }, [statusFilter]);
+
+  const loadCorrections = async (status: CorrectionStatus) => {
+    setIsLoading(true);
+    try {
+      const corrections = await fetchCorrections(status);
+
+      // Pending requests are compared against what is stored for that day right now
+      const withCurrent = await Promise.all(corrections.map(async correction => ({
+        correction,
+        current: status === 'pending' ? await getRecordForDate(correction.item_name, correction.location, correction.date) : null
+      })));
+
+      setRows(withCurrent);
+    } catch (error) {
+      console.error('Error loading corrections:', error);
+      setRows([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReview = async (correction: CorrectionRequest, action: 'approve' | 'reject') => {
+    setReviewingId(correction.id!);
+    setMessage(null);
+
+    try {
+      await reviewCorrection(correction.id!, {
+        action,
+        note: notes[correction.id!]
+      });
+
+      setMessage({
+        text: action === 'approve'
+          ? `✅ Correction for ${correction.item_name} on ${correction.date} applied`
+          : `🚫 Correction for ${correction.item_name} on ${correction.date} rejected`,
+        type: 'success'
+      });
+
+      await loadCorrections(statusFilter);
+      if (action === 'approve' && onCorrectionApplied) {
+        onCorrectionApplied();
+      }
+    } catch (error) {
+      console.error('Error reviewing correction:', error);
+      const details = error instanceof ApiError && error.errors.length > 0
+        ? `: ${error.errors.map(e => e.message).join('; ')}`
+        : '';
+      setMessage({ text: `❌ ${error instanceof Error ? error.message : 'Review failed'}${details}`, type: 'error' });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8">
+      <div className="bg-gray-50 p-4 sm:p-6 rounded-2xl mb-6 sm:mb-8 shadow-inner">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-4 sm:mb-6">
+          <div>
+            <h3 className="text-xl sm:text-2xl font-semibold text-gray-800 mb-2">🛠️ Correction Requests</h3>
+            <p className="text-sm sm:text-base text-gray-600">Changes to past days wait here for supervisor approval</p>
+          </div>
+
+          <div className="flex bg-white rounded-lg p-1 shadow-sm mt-4 sm:mt-0">
+            {(['pending', 'approved', 'rejected'] as CorrectionStatus[]).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`px-4 py-2 rounded-md text-sm font-medium capitalize transition-all duration-200 ${
+                  statusFilter === status
+                    ? 'bg-blue-500 text-white shadow-sm'
+                    : 'text-gray-600 hover:text-gray-800'
+                }`}
+              >
+                {status}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {message && (
+          <div className={`p-3 rounded-lg border ${
+            message.type === 'success'
+              ? 'border-green-300 bg-green-50 text-green-700'
+              : 'border-red-300 bg-red-50 text-red-700'
+          }`}>
+            {message.text}
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-gray-500">Loading correction requests...</div>
+      ) : rows.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <div className="text-4xl sm:text-5xl mb-4">🛠️</div>
+          <p className="text-sm sm:text-base">No {statusFilter} correction requests</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {rows.map(({ correction, current }) => (
+            <div key={correction.id} className="p-4 border border-gray-200 rounded-xl bg-white shadow-sm">
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-2 mb-3">
+                <div>
+                  <h5 className="text-base sm:text-lg font-semibold text-gray-800">
+                    {correction.item_name} @ {correction.location} — {correction.date}
+                  </h5>
+                  <p className="text-sm text-gray-600">
+                    Requested by {correction.requested_by} on {new Date(correction.requested_at).toLocaleString()}
+                  </p>
+                </div>
+                {correction.reviewed_by && (
+                  <span className="text-sm text-gray-600">
+                    {correction.status === 'approved' ? '✅' : '🚫'} {correction.reviewed_by}
+                    {correction.reviewed_at && ` · ${new Date(correction.reviewed_at).toLocaleString()}`}
+                  </span>
+                )}
+              </div>
+
+              <p className="text-sm text-gray-700 mb-3"><span className="font-semibold">Reason:</span> {correction.reason}</p>
+              {correction.damage_reason && (
+                <p className="text-sm text-gray-700 mb-3"><span className="font-semibold">Damage reason:</span> {correction.damage_reason}</p>
+              )}
+              {correction.shortfall_reason && (
+                <p className="text-sm text-red-700 mb-3"><span className="font-semibold">Shortfall accepted:</span> {correction.shortfall_reason}</p>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600">
+                      <th className="py-1 pr-4"></th>
+                      {Object.values(FIELD_LABELS).map(label => (
+                        <th key={label} className="py-1 pr-4">{label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {statusFilter === 'pending' && (
+                      <tr className="text-gray-500">
+                        <td className="py-1 pr-4 font-semibold">Current</td>
+                        {(Object.keys(FIELD_LABELS) as (keyof ProposedValues)[]).map(field => (
+                          <td key={field} className="py-1 pr-4">{current ? current[field] : '—'}</td>
+                        ))}
+                      </tr>
+                    )}
+                    <tr className="text-gray-800">
+                      <td className="py-1 pr-4 font-semibold">Proposed</td>
+                      {(Object.keys(FIELD_LABELS) as (keyof ProposedValues)[]).map(field => (
+                        <td
+                          key={field}
+                          className={`py-1 pr-4 ${current && current[field] !== correction.proposed[field] ? 'font-bold text-purple-700' : ''}`}
+                        >
+                          {correction.proposed[field]}
+                        </td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              {correction.review_note && (
+                <p className="text-sm text-gray-600 mt-3"><span className="font-semibold">Review note:</span> {correction.review_note}</p>
+              )}
+
+              {correction.status === 'pending' && canReview && (
+                <div className="flex flex-col sm:flex-row gap-3 mt-4">
+                  <input
+                    type="text"
+                    value={notes[correction.id!] || ''}
+                    onChange={(e) => setNotes(prev => ({ ...prev, [correction.id!]: e.target.value }))}
+                    placeholder="Review note (optional)"
+                    className="flex-1 p-2 border-2 border-gray-200 text-gray-700 rounded-lg text-sm focus:border-blue-500"
+                  />
+                  <button
+                    onClick={() => handleReview(correction, 'approve')}
+                    disabled={reviewingId === correction.id}
+                    className="px-6 py-2 bg-gradient-to-r from-green-500 to-teal-500 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+                  >
+                    ✅ Approve
+                  </button>
+                  <button
+                    onClick={() => handleReview(correction, 'reject')}
+                    disabled={reviewingId === correction.id}
+                    className="px-6 py-2 bg-gradient-to-r from-red-500 to-pink-500 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+                  >
+                    🚫 Reject
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,43 +1,22 @@
 'use client';
 
 import { InventoryRecord } from '../types/inventory';
+import { downloadExport } from '../lib/inventoryApi';
 
 interface ExportSectionProps {
   records: InventoryRecord[];
 }
 
 export default function ExportSection({ records }: ExportSectionProps) {
-  const exportData = () => {
+  const exportData = async () => {
     if (!records || records.length === 0) {
       alert('No data to export. Please save some records first.');
       return;
     }
 
     try {
-      // Create CSV content
-      const headers = [
-        'Date', 'Item Name', 'Opening Stock', 'New Stock', 'New Balance', 
-        'Issued to Production', 'Returns', 'Rebagging', 'Damaged', 'Closing Stock'
-      ];
-      
-      const csvContent = [
-        headers.join(','),
-        ...records.map(record => [
-          record.date,
-          `"${record.item_name}"`,
-          record.opening_stock,
-          record.new_stock,
-          record.new_balance,
-          record.issued_production,
-          record.returns,
-          record.rebagging,
-          record.damaged,
-          record.closing_stock
-        ].join(','))
-      ].join('\n');
-
-      // Download CSV file
-      const blob = new Blob([csvContent], { type: 'text/csv' });
+      // The CSV is built on the server, which only hands it to admins
+      const blob = await downloadExport();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -0,0 +1,117 @@
+'use client';
+
+import { GoodsReceivedNote } from '../types/inventory';
+import { formatCost } from '../lib/costing';
+
+interface GoodsReceivedNoteViewProps {
+  note: GoodsReceivedNote;
+  onBack: () => void;
+}
+
+// The note as a document; the buttons are left out when it is printed
+export default function GoodsReceivedNoteView({ note, onBack }: GoodsReceivedNoteViewProps) {
+  const total = note.lines.reduce((sum, line) => sum + line.quantity, 0);
+  const costed = note.lines.filter(line => typeof line.unit_cost === 'number');
+  const totalValue = costed.reduce((sum, line) => sum + line.quantity * line.unit_cost!, 0);
+
+  return (
+    <div className="p-6 print:p-0">
+      <div className="flex justify-between items-center mb-6 print:hidden">
+        <button
+          onClick={onBack}
+          className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+        >
+          ← Back
+        </button>
+        <button
+          onClick={() => window.print()}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          🖨️ Print Note
+        </button>
+      </div>
+
+      <div className="max-w-3xl mx-auto border-2 border-gray-300 rounded-xl p-8 print:border print:rounded-none print:p-4">
+        <div className="flex justify-between items-start border-b-2 border-gray-200 pb-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 print:text-2xl">GOODS RECEIVED NOTE</h1>
+            <p className="text-gray-600">{note.location}</p>
+          </div>
+          <div className="text-right">
+            <p className="font-mono text-xl font-semibold text-gray-900">{note.reference}</p>
+            <p className="text-gray-600">{new Date(note.date).toLocaleDateString()}</p>
+          </div>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-x-8 gap-y-3 text-sm mb-6">
+          <div>
+            <dt className="font-semibold text-gray-500 uppercase tracking-wide">Supplier</dt>
+            <dd className="text-gray-900">{note.supplier_name}</dd>
+          </div>
+          <div>
+            <dt className="font-semibold text-gray-500 uppercase tracking-wide">Delivery Note</dt>
+            <dd className="font-mono text-gray-900">{note.delivery_note}</dd>
+          </div>
+          <div>
+            <dt className="font-semibold text-gray-500 uppercase tracking-wide">Vehicle</dt>
+            <dd className="text-gray-900">{note.vehicle || '—'}</dd>
+          </div>
+          <div>
+            <dt className="font-semibold text-gray-500 uppercase tracking-wide">Purchase Order</dt>
+            <dd className="font-mono text-gray-900">{note.purchase_order_reference || '—'}</dd>
+          </div>
+          <div>
+            <dt className="font-semibold text-gray-500 uppercase tracking-wide">Received By</dt>
+            <dd className="text-gray-900">{note.received_by}</dd>
+          </div>
+          <div>
+            <dt className="font-semibold text-gray-500 uppercase tracking-wide">Posted By</dt>
+            <dd className="text-gray-900">{note.created_by}, {new Date(note.created_at).toLocaleString()}</dd>
+          </div>
+        </dl>
+
+        <table className="w-full text-sm mb-6">
+          <thead>
+            <tr className="border-b-2 border-gray-300 text-left text-gray-700">
+              <th className="py-2">#</th>
+              <th className="py-2">Product</th>
+              <th className="py-2">Lot</th>
+              <th className="py-2">Expiry</th>
+              <th className="py-2 text-right">Quantity</th>
+              <th className="py-2 text-right">Unit Cost</th>
+              <th className="py-2 text-right">Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {note.lines.map((line, index) => (
+              <tr key={line.item_name} className="border-b border-gray-200 text-gray-800">
+                <td className="py-2">{index + 1}</td>
+                <td className="py-2">{line.item_name}</td>
+                <td className="py-2 font-mono">{line.lot_number || '—'}</td>
+                <td className="py-2">{line.expiry_date || '—'}</td>
+                <td className="py-2 text-right font-semibold">{line.quantity}</td>
+                <td className="py-2 text-right">{typeof line.unit_cost === 'number' ? formatCost(line.unit_cost) : '—'}</td>
+                <td className="py-2 text-right">{typeof line.unit_cost === 'number' ? formatCost(line.quantity * line.unit_cost) : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="text-gray-900">
+              <td className="py-2" colSpan={4}>Total</td>
+              <td className="py-2 text-right font-bold">{total}</td>
+              <td className="py-2" />
+              <td className="py-2 text-right font-bold">{costed.length > 0 ? formatCost(totalValue) : '—'}</td>
+            </tr>
+          </tfoot>
+        </table>
+
+        {note.note && <p className="text-sm text-gray-700 mb-6">Note: {note.note}</p>}
+
+        <div className="grid grid-cols-2 gap-8 pt-10 text-sm text-gray-600">
+          <div className="border-t border-gray-400 pt-2">Received by: {note.received_by}</div>
+          <div className="border-t border-gray-400 pt-2">Driver</div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { InventoryRecord } from '../types/inventory';
+import { InventoryRecord, Product } from '../types/inventory';
+import { consolidateRecords } from '../lib/consolidation';
+import { fetchProducts } from '../lib/inventoryApi';
+import { STOCK_STATUS_BADGES, stockStatus } from '../lib/stockLevels';
+import { Forecast, FORECAST_METHODS, ForecastMethod, forecastProduct, formatDaysOfCover } from '../lib/forecasting';
 
 interface HistorySectionProps {
   records: InventoryRecord[];
@@ -15,6 +19,7 @@ interface ProductSummary {
   current_stock: number;
   last_updated: string;
   stock_trend: 'increasing' | 'decreasing' | 'stable';
+  forecast: Forecast;
 }
 
 export default function HistorySection({ records, onViewProductHistory }: HistorySectionProps) {
@@ -25,14 +30,28 @@ export default function HistorySection({ records, onViewProductHistory }: Histor
   const [pageSize, setPageSize] = useState(10);
   const [totalPages, setTotalPages] = useState(1);
   const [searchTerm, setSearchTerm] = useState('');
+  const [catalog, setCatalog] = useState<Product[]>([]);
+  const [forecastMethod, setForecastMethod] = useState<ForecastMethod>('exponential_smoothing');
+
+  // Reorder levels come from the catalog
+  useEffect(() => {
+    fetchProducts()
+      .then(setCatalog)
+      .catch(error => console.error('Error loading product catalog:', error));
+  }, []);
+
+  const statusOf = (summary: ProductSummary) =>
+    stockStatus(summary.current_stock, catalog.find(product => product.name === summary.item_name));
 
   const generateProductSummaries = useCallback(() => {
     console.log('HistorySection: Generating product summaries from', records.length, 'records');
     
-    // Group records by product name
+    // Group records by product name, with every location added up per day
     const productGroups = new Map<string, InventoryRecord[]>();
+    const recordCounts = new Map<string, number>();
+    records.forEach(record => recordCounts.set(record.item_name, (recordCounts.get(record.item_name) || 0) + 1));
     
-    records.forEach(record => {
+    consolidateRecords(records).forEach(record => {
       if (!productGroups.has(record.item_name)) {
         productGroups.set(record.item_name, []);
       }
@@ -41,7 +60,8 @@ export default function HistorySection({ records, onViewProductHistory }: Histor
 
     console.log('HistorySection: Found', productGroups.size, 'unique products');
 
-    // Create product summaries
+    // Create product summaries, with cover counted from today at the recent rate of issue
+    const today = new Date().toISOString().split('T')[0];
     const summaries: ProductSummary[] = Array.from(productGroups.entries()).map(([itemName, productRecords]) => {
       // Sort by date to get latest and calculate trends
       const sortedRecords = productRecords.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
@@ -59,10 +79,11 @@ export default function HistorySection({ records, onViewProductHistory }: Histor
       return {
         item_name: itemName,
         latest_record: latestRecord,
-        total_records: productRecords.length,
+        total_records: recordCounts.get(itemName) || productRecords.length,
         current_stock: latestRecord.closing_stock,
         last_updated: latestRecord.date,
-        stock_trend: stockTrend
+        stock_trend: stockTrend,
+        forecast: forecastProduct(productRecords, latestRecord.closing_stock, { method: forecastMethod, asOf: today })
       };
     });
 
@@ -75,7 +96,7 @@ export default function HistorySection({ records, onViewProductHistory }: Histor
     setFilteredSummaries(summaries);
     setTotalPages(Math.ceil(summaries.length / pageSize));
     setIsLoading(false);
-  }, [records, pageSize]);
+  }, [records, pageSize, forecastMethod]);
 
   useEffect(() => {
     if (records && records.length > 0) {
@@ -181,7 +202,7 @@ export default function HistorySection({ records, onViewProductHistory }: Histor
       </div>
 
       {/* Summary Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-8">
         <div className="bg-gradient-to-r from-blue-500 to-blue-600 text-white p-6 rounded-2xl text-center">
           <div className="text-3xl font-bold">{productSummaries.length}</div>
           <div className="text-blue-100">Total Products</div>
@@ -192,9 +213,15 @@ export default function HistorySection({ records, onViewProductHistory }: Histor
           </div>
           <div className="text-green-100">In Stock</div>
         </div>
+        <div className="bg-gradient-to-r from-yellow-500 to-yellow-600 text-white p-6 rounded-2xl text-center">
+          <div className="text-3xl font-bold">
+            {productSummaries.filter(p => ['below_minimum', 'below_reorder_point'].includes(statusOf(p))).length}
+          </div>
+          <div className="text-yellow-100">Below Reorder Point</div>
+        </div>
         <div className="bg-gradient-to-r from-orange-500 to-orange-600 text-white p-6 rounded-2xl text-center">
           <div className="text-3xl font-bold">
-            {productSummaries.filter(p => p.current_stock === 0).length}
+            {productSummaries.filter(p => p.current_stock <= 0).length}
           </div>
           <div className="text-orange-100">Out of Stock</div>
         </div>
@@ -271,6 +298,16 @@ export default function HistorySection({ records, onViewProductHistory }: Histor
             <option value={20}>20 per page</option>
             <option value={50}>50 per page</option>
           </select>
+          <label className="text-sm font-medium text-gray-700">Forecast:</label>
+          <select
+            value={forecastMethod}
+            onChange={(e) => setForecastMethod(e.target.value as ForecastMethod)}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-gray-700 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {FORECAST_METHODS.map(method => (
+              <option key={method.value} value={method.value}>{method.label}</option>
+            ))}
+          </select>
         </div>
         
         <div className="text-sm text-gray-600">
@@ -329,17 +366,13 @@ export default function HistorySection({ records, onViewProductHistory }: Histor
                   </div>
                   
                   {/* Current Stock Status */}
-                  <div className={`px-3 py-1 rounded-full text-xs font-semibold ${
-                    summary.current_stock > 0 
-                      ? 'bg-green-100 text-green-800' 
-                      : 'bg-red-100 text-red-800'
-                  }`}>
-                    {summary.current_stock > 0 ? '🟢 In Stock' : '🔴 Out of Stock'}
+                  <div className={`px-3 py-1 rounded-full text-xs font-semibold ${STOCK_STATUS_BADGES[statusOf(summary)].className}`}>
+                    {STOCK_STATUS_BADGES[statusOf(summary)].label}
                   </div>
                 </div>
               </div>
               
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
                 <div className="text-center p-3 bg-gray-50 rounded-lg">
                   <span className="block text-sm font-semibold text-gray-600 uppercase tracking-wide">Current Stock</span>
                   <span className="text-2xl font-bold text-gray-800">{summary.current_stock}</span>
@@ -365,6 +398,18 @@ export default function HistorySection({ records, onViewProductHistory }: Histor
                   </span>
                   <span className="block text-xs text-gray-500">Issued</span>
                 </div>
+
+                <div className={`text-center p-3 rounded-lg ${
+                  summary.forecast.days_of_cover !== null && summary.forecast.days_of_cover < 7 ? 'bg-red-50' : 'bg-gray-50'
+                }`}>
+                  <span className="block text-sm font-semibold text-gray-600 uppercase tracking-wide">Days of Cover</span>
+                  <span className="text-lg font-bold text-gray-800">{formatDaysOfCover(summary.forecast.days_of_cover)}</span>
+                  <span className="block text-xs text-gray-500">
+                    {summary.forecast.stockout_date
+                      ? `Runs out ${new Date(summary.forecast.stockout_date).toLocaleDateString()}`
+                      : 'No recent usage'}
+                  </span>
+                </div>
               </div>
               
               <div className="flex justify-between items-center pt-4 border-t border-gray-200">
@@ -1,8 +1,19 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { supabase } from '../lib/supabase';
-import { FormData, StatusMessageType, InventoryRecord } from '../types/inventory';
+import {
+  ApiError, fetchLocations, fetchProducts, fetchReasonCodes, getLatestRecord, getRecordForDate, patchRecord, requestCorrection, saveRecord
+} from '../lib/inventoryApi';
+import { FormData, StatusMessageType, InventoryRecord, Product, ReasonCode } from '../types/inventory';
+import MovementEntry from './MovementEntry';
+
+// The columns the daily form edits, by record column and form field
+const EDITABLE_FIELDS = [
+  ['opening_stock', 'openingStock'],
+  ['new_stock', 'newStock'],
+  ['issued_production', 'issuedProduction'],
+  ['damaged', 'damaged']
+] as const;
 
 interface InventoryFormProps {
   onRecordSaved: () => void;
@@ -13,6 +24,7 @@ interface InventoryFormProps {
 export default function InventoryForm({ onRecordSaved, selectedProduct, onProductLoaded }: InventoryFormProps) {
   const [formData, setFormData] = useState<FormData>({
     itemName: '',
+    location: '',
     date: '',
     openingStock: 0,
     newStock: 0,
@@ -21,6 +33,10 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
     returns: 0,
     rebagging: 0,
     damaged: 0,
+    rebaggingOut: 0,
+    transferIn: 0,
+    transferOut: 0,
+    adjustment: 0,
     closingStock: 0
   });
 
@@ -28,6 +44,15 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
   const [isLoading, setIsLoading] = useState(false);
   const [openingStockReadOnly, setOpeningStockReadOnly] = useState(false);
   const [dateWarning, setDateWarning] = useState<string | null>(null);
+  const [correctionReason, setCorrectionReason] = useState('');
+  const [catalog, setCatalog] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<string[]>([]);
+  const [reasonCodes, setReasonCodes] = useState<ReasonCode[]>([]);
+  const [damageReason, setDamageReason] = useState('');
+  const [shortfallReason, setShortfallReason] = useState('');
+  const [shortfallRefused, setShortfallRefused] = useState(false);
+  // The day's record as it was loaded into the form; saving sends only what was edited since
+  const [loadedRecord, setLoadedRecord] = useState<InventoryRecord | null>(null);
 
   // Set today's date by default
   useEffect(() => {
@@ -35,23 +60,60 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
     setFormData(prev => ({ ...prev, date: today }));
   }, []);
 
+  // Entries can only be made against active catalog products
+  useEffect(() => {
+    fetchProducts({ activeOnly: true })
+      .then(setCatalog)
+      .catch(error => console.error('Error loading product catalog:', error));
+  }, []);
+
+  // Every record belongs to a location; the form starts on the configured default
+  useEffect(() => {
+    fetchLocations()
+      .then(list => {
+        setLocations(list.locations);
+        setFormData(prev => ({ ...prev, location: prev.location || list.default }));
+      })
+      .catch(error => console.error('Error loading locations:', error));
+  }, []);
+
+  // Damaged stock is written off with one of the configured reasons
+  useEffect(() => {
+    fetchReasonCodes()
+      .then(setReasonCodes)
+      .catch(error => console.error('Error loading reason codes:', error));
+  }, []);
+
+  const selectedCatalogProduct = catalog.find(product => product.name === formData.itemName);
+
+  // What goes out beyond the stock available; a negative opening carried from an earlier
+  // shortfall is not counted against this day again. Same rule as stockFlows in the ledger.
+  const outflows = formData.issuedProduction + formData.rebaggingOut + formData.damaged + formData.transferOut +
+    Math.max(-formData.adjustment, 0);
+  const shortfall = formData.closingStock < 0 ? Math.min(outflows, -formData.closingStock) : 0;
+
   // Handle loading product from search
   useEffect(() => {
     if (selectedProduct) {
       setFormData(prev => ({
         ...prev,
         itemName: selectedProduct.item_name,
+        location: selectedProduct.location, // Continue the ledger the record belongs to
         date: new Date().toISOString().split('T')[0], // Set to today for new entry
         openingStock: selectedProduct.closing_stock, // Use previous closing stock as opening
         newStock: 0,
         issuedProduction: 0,
         returns: 0,
         rebagging: 0,
-        damaged: 0
+        damaged: 0,
+        rebaggingOut: 0,
+        transferIn: 0,
+        transferOut: 0,
+        adjustment: 0
       }));
       
       setOpeningStockReadOnly(true);
-      showStatus(`✅ Product "${selectedProduct.item_name}" loaded successfully!`, 'success');
+      showStatus(`✅ Product "${selectedProduct.item_name}" at ${selectedProduct.location} loaded successfully!`, 'success');
       
       // Notify parent that product has been loaded
       if (onProductLoaded) {
@@ -66,10 +128,15 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
   };
 
   const calculateValues = useCallback(() => {
-    const { openingStock, newStock, issuedProduction, returns, rebagging, damaged } = formData;
+    const {
+      openingStock, newStock, issuedProduction, returns, rebagging, damaged,
+      rebaggingOut, transferIn, transferOut, adjustment
+    } = formData;
     
     const newBalance = openingStock + newStock;
-    const closingStock = Math.max(0, newBalance - issuedProduction + returns + rebagging - damaged);
+    // Not clamped at zero: a negative closing stock is a shortfall that has to be explained
+    const closingStock = newBalance - issuedProduction + returns + rebagging - rebaggingOut - damaged +
+      transferIn - transferOut + adjustment;
     
     setFormData(prev => ({
       ...prev,
@@ -78,6 +145,14 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
     }));
   }, [formData]);
 
+  // The columns only documents write, carried into the form so its closing stock matches the server's
+  const postedColumns = (record: InventoryRecord | null) => ({
+    rebaggingOut: record?.rebagging_out ?? 0,
+    transferIn: record?.transfer_in ?? 0,
+    transferOut: record?.transfer_out ?? 0,
+    adjustment: record?.adjustment ?? 0
+  });
+
   const isDateInPast = (date: string) => {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -86,34 +161,19 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
     return selected < today;
   };
 
-  const getLatestClosingStock = async (productName: string) => {
+  const getLatestClosingStock = async (productName: string, location: string, beforeDate?: string) => {
     try {
-      const { data: records, error } = await supabase
-        .from('inventory_records')
-        .select('*')
-        .eq('item_name', productName)
-        .order('date', { ascending: false })
-        .limit(1);
-      
-      if (error) throw error;
-      return records && records.length > 0 ? records[0].closing_stock : null;
+      const record = await getLatestRecord(productName, location, beforeDate);
+      return record ? record.closing_stock : null;
     } catch (error) {
       console.error('Error fetching latest closing stock:', error);
       return null;
     }
   };
 
-  const getDataForDate = async (productName: string, targetDate: string) => {
+  const getDataForDate = async (productName: string, location: string, targetDate: string) => {
     try {
-      const { data: records, error } = await supabase
-        .from('inventory_records')
-        .select('*')
-        .eq('item_name', productName)
-        .eq('date', targetDate)
-        .single();
-      
-      if (error) throw error;
-      return records;
+      return await getRecordForDate(productName, location, targetDate);
     } catch (error) {
       console.error('Error fetching data for date:', error);
       return null;
@@ -128,31 +188,71 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
     const isPastDate = isDateInPast(selectedDate);
     
     if (isPastDate) {
-      setDateWarning('⚠️ Read-Only Mode: This date is in the past. You cannot modify data for previous days.');
+      setDateWarning('📝 Correction Mode: This date is in the past. Your changes will be sent to a supervisor for approval.');
     } else {
       setDateWarning(null);
     }
   };
 
-  const checkProductAndFillOpeningStock = async () => {
-    const { itemName } = formData;
-    if (!itemName) return;
+  // A day that already has a record shows what was recorded, so an edit or a correction
+  // starts from the stored values rather than overwriting them. Returns false when today has
+  // no record yet and still needs its opening stock.
+  const loadRecordForDate = async (itemName: string, date: string, location: string) => {
+    const existingRecord = await getDataForDate(itemName, location, date);
+    setLoadedRecord(existingRecord);
+
+    if (existingRecord) {
+      setFormData(prev => ({
+        ...prev,
+        openingStock: existingRecord.opening_stock,
+        newStock: existingRecord.new_stock,
+        issuedProduction: existingRecord.issued_production,
+        returns: existingRecord.returns,
+        rebagging: existingRecord.rebagging,
+        damaged: existingRecord.damaged,
+        ...postedColumns(existingRecord)
+      }));
+      setOpeningStockReadOnly(true);
+      showStatus('📂 Loaded the recorded values for this date', 'info');
+      return true;
+    }
+
+    if (!isDateInPast(date)) {
+      setFormData(prev => ({ ...prev, ...postedColumns(null) }));
+      return false;
+    }
+
+    const previousClosingStock = await getLatestClosingStock(itemName, location, date);
+    setFormData(prev => ({ ...prev, openingStock: previousClosingStock ?? prev.openingStock, ...postedColumns(null) }));
+    setOpeningStockReadOnly(previousClosingStock !== null);
+    showStatus('🆕 No record exists for this date - the correction will add one', 'info');
+    return true;
+  };
+
+  const checkProductAndFillOpeningStock = async (
+    itemName = formData.itemName,
+    date = formData.date,
+    location = formData.location
+  ) => {
+    if (!itemName || !location) return;
 
     try {
-      const latestClosingStock = await getLatestClosingStock(itemName);
-      
-      if (latestClosingStock !== null) {
-        setFormData(prev => ({ ...prev, openingStock: latestClosingStock }));
-        setOpeningStockReadOnly(true);
-        showStatus('✅ Opening stock loaded from previous day', 'success');
-      } else {
-        setOpeningStockReadOnly(false);
-        showStatus('🆕 New product detected - set opening stock manually', 'info');
+      if (!date || !(await loadRecordForDate(itemName, date, location))) {
+        // Only earlier days count, so a record a transfer already opened today is not its own opening
+        const latestClosingStock = await getLatestClosingStock(itemName, location, date || undefined);
+        
+        if (latestClosingStock !== null) {
+          setFormData(prev => ({ ...prev, openingStock: latestClosingStock }));
+          setOpeningStockReadOnly(true);
+          showStatus(`✅ Opening stock loaded from the previous day at ${location}`, 'success');
+        } else {
+          setOpeningStockReadOnly(false);
+          showStatus(`🆕 First record of this product at ${location} - set opening stock manually`, 'info');
+        }
       }
       
       calculateValues();
       
-      const { date } = formData;
       if (date) {
         toggleFormFieldsForDate(date);
       }
@@ -162,25 +262,72 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
     }
   };
 
+  const handleDateChange = (date: string) => {
+    handleInputChange('date', date);
+    toggleFormFieldsForDate(date);
+    if (formData.itemName) {
+      checkProductAndFillOpeningStock(formData.itemName, date);
+    }
+  };
+
+  // Each location keeps its own running balance, so switching reloads the opening stock
+  const handleLocationChange = (location: string) => {
+    handleInputChange('location', location);
+    if (formData.itemName) {
+      checkProductAndFillOpeningStock(formData.itemName, formData.date, location);
+    }
+  };
+
+  // A posted movement changed today's record, so the form picks up its columns before the next save
+  const handleMovementPosted = (record: InventoryRecord) => {
+    setFormData(prev => ({
+      ...prev,
+      openingStock: record.opening_stock,
+      newStock: record.new_stock,
+      issuedProduction: record.issued_production,
+      returns: record.returns,
+      rebagging: record.rebagging,
+      damaged: record.damaged,
+      ...postedColumns(record)
+    }));
+    setLoadedRecord(record);
+    onRecordSaved();
+  };
+
   const handleInputChange = (field: keyof FormData, value: string | number) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
   const handleSaveRecord = async () => {
-    const { itemName, date } = formData;
+    const { itemName, location, date } = formData;
     
     if (!itemName.trim()) {
-      showStatus('Please enter an item name or product code.', 'error');
+      showStatus('Please select a product from the catalog.', 'error');
       return;
     }
     
+    if (!location) {
+      showStatus('Please select a location.', 'error');
+      return;
+    }
+
     if (!date) {
       showStatus('Please select a date.', 'error');
       return;
     }
     
     if (isDateInPast(date)) {
-      showStatus('❌ Cannot modify data for past dates. Please select today or a future date.', 'error');
+      await handleRequestCorrection();
+      return;
+    }
+
+    if (formData.damaged > 0 && !damageReason) {
+      showStatus('Please choose why the stock was damaged.', 'error');
+      return;
+    }
+
+    if (shortfall > 0 && !shortfallReason.trim()) {
+      showStatus(`More is going out than is available (short by ${shortfall}). Enter a reason to save it anyway.`, 'error');
       return;
     }
 
@@ -189,46 +336,107 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
     try {
       const record = {
         item_name: itemName.trim(),
+        location,
         date: date,
         opening_stock: formData.openingStock,
         new_stock: formData.newStock,
         new_balance: formData.newBalance,
         issued_production: formData.issuedProduction,
-        returns: formData.returns,
-        rebagging: formData.rebagging,
         damaged: formData.damaged,
+        damage_reason: formData.damaged > 0 ? damageReason : undefined,
+        shortfall_reason: shortfallReason.trim() || undefined,
         closing_stock: formData.closingStock,
         timestamp: new Date().toISOString()
       };
 
       // Check if record already exists
-      const existingRecord = await getDataForDate(itemName, date);
+      const existingRecord = await getDataForDate(itemName, location, date);
       
       if (existingRecord) {
-        // Update existing record
-        const { error } = await supabase
-          .from('inventory_records')
-          .update(record)
-          .eq('id', existingRecord.id);
-        
-        if (error) throw error;
+        // Only the fields edited since the day was loaded are sent, so receipts, issues and
+        // transfers posted to it in the meantime are not overwritten
+        const base = loadedRecord && loadedRecord.id === existingRecord.id ? loadedRecord : existingRecord;
+        const changes = Object.fromEntries(
+          EDITABLE_FIELDS
+            .filter(([column, field]) => formData[field] !== base[column])
+            .map(([column, field]) => [column, formData[field]])
+        );
+        if (Object.keys(changes).length === 0 && !record.shortfall_reason) {
+          showStatus('Nothing has changed since the record was loaded.', 'info');
+          return;
+        }
+        await patchRecord(existingRecord.id!, {
+          ...changes,
+          damage_reason: record.damage_reason,
+          shortfall_reason: record.shortfall_reason
+        });
         showStatus('Record updated successfully! 🎉', 'success');
       } else {
         // Insert new record
-        const { error } = await supabase
-          .from('inventory_records')
-          .insert([record]);
-        
-        if (error) throw error;
+        await saveRecord(record);
         showStatus('Record saved successfully! 🎉', 'success');
       }
       
+      setShortfallRefused(false);
       onRecordSaved();
       clearForm();
       
     } catch (error) {
       console.error('Error saving record:', error);
-      showStatus('Error saving record. Please try again.', 'error');
+      // A back-dated save can leave a later day short; the same override covers it
+      setShortfallRefused(error instanceof ApiError && error.errors.some(e => e.field === 'closing_stock'));
+      if (error instanceof ApiError && error.errors.length > 0) {
+        showStatus(`❌ ${error.errors.map(e => e.message).join('; ')}`, 'error');
+      } else {
+        showStatus('Error saving record. Please try again.', 'error');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRequestCorrection = async () => {
+    if (!correctionReason.trim()) {
+      showStatus('Please enter a reason for the correction.', 'error');
+      return;
+    }
+
+    if (formData.damaged > 0 && !damageReason) {
+      showStatus('Please choose why the stock was damaged.', 'error');
+      return;
+    }
+
+    if (shortfall > 0 && !shortfallReason.trim()) {
+      showStatus(`More is going out than is available (short by ${shortfall}). Enter a reason to request it anyway.`, 'error');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await requestCorrection({
+        item_name: formData.itemName.trim(),
+        location: formData.location,
+        date: formData.date,
+        opening_stock: formData.openingStock,
+        new_stock: formData.newStock,
+        issued_production: formData.issuedProduction,
+        damaged: formData.damaged,
+        damage_reason: formData.damaged > 0 ? damageReason : undefined,
+        shortfall_reason: shortfallReason.trim() || undefined,
+        reason: correctionReason.trim()
+      });
+
+      showStatus('📨 Correction request sent for supervisor approval', 'success');
+      setCorrectionReason('');
+      clearForm();
+    } catch (error) {
+      console.error('Error requesting correction:', error);
+      if (error instanceof ApiError && error.errors.length > 0) {
+        showStatus(`❌ ${error.errors.map(e => e.message).join('; ')}`, 'error');
+      } else {
+        showStatus('Error sending correction request. Please try again.', 'error');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -237,8 +445,9 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
   const clearForm = () => {
     if (confirm('Are you sure you want to clear all fields?')) {
       const today = new Date().toISOString().split('T')[0];
-      setFormData({
+      setFormData(prev => ({
         itemName: '',
+        location: prev.location, // Storekeepers usually stay at one location
         date: today,
         openingStock: 0,
         newStock: 0,
@@ -247,10 +456,19 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
         returns: 0,
         rebagging: 0,
         damaged: 0,
+        rebaggingOut: 0,
+        transferIn: 0,
+        transferOut: 0,
+        adjustment: 0,
         closingStock: 0
-      });
+      }));
       setOpeningStockReadOnly(false);
       setDateWarning(null);
+      setCorrectionReason('');
+      setDamageReason('');
+      setShortfallReason('');
+      setShortfallRefused(false);
+      setLoadedRecord(null);
     }
   };
 
@@ -302,26 +520,55 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
       <div className="bg-white border-2 border-gray-200 rounded-2xl mb-6 overflow-hidden">
         <div className="bg-gradient-to-r from-blue-500 to-purple-600 text-white p-5 flex items-center gap-4">
           <span className="bg-white bg-opacity-20 w-10 h-10 rounded-full flex items-center justify-center font-bold text-xl">1</span>
-          <h3 className="text-xl font-semibold">🎯 Select Product & Date</h3>
+          <h3 className="text-xl font-semibold">🎯 Select Product, Location & Date</h3>
         </div>
         
         <div className="p-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div>
               <label className="block mb-2 font-semibold text-gray-700 uppercase tracking-wide text-sm">
                 Product Name / Code
               </label>
-              <input
-                type="text"
+              <select
                 value={formData.itemName}
-                onChange={(e) => handleInputChange('itemName', e.target.value)}
-                onBlur={checkProductAndFillOpeningStock}
-                placeholder="Enter product name or code"
+                onChange={(e) => {
+                  handleInputChange('itemName', e.target.value);
+                  checkProductAndFillOpeningStock(e.target.value, formData.date);
+                }}
                 className="w-full p-4 border-2 border-gray-200 rounded-xl text-gray-700
                 text-lg transition-all duration-300 focus:border-blue-500 
                 focus:bg-white focus:-translate-y-1 focus:shadow-lg"
-              />
-              <small className="text-gray-500 text-sm">Start typing to see existing products</small>
+              >
+                <option value="">Select a product...</option>
+                {catalog.map(product => (
+                  <option key={product.id} value={product.name}>
+                    {product.code} — {product.name}
+                  </option>
+                ))}
+              </select>
+              <small className="text-gray-500 text-sm">
+                {selectedCatalogProduct
+                  ? `Counted in ${selectedCatalogProduct.unit}${selectedCatalogProduct.bag_size ? ` · ${selectedCatalogProduct.bag_size} per bag` : ''}${selectedCatalogProduct.category ? ` · ${selectedCatalogProduct.category}` : ''}`
+                  : 'Products are managed in the Products tab'}
+              </small>
+            </div>
+
+            <div>
+              <label className="block mb-2 font-semibold text-gray-700 uppercase tracking-wide text-sm">
+                Location
+              </label>
+              <select
+                value={formData.location}
+                onChange={(e) => handleLocationChange(e.target.value)}
+                className="w-full p-4 border-2 border-gray-200 rounded-xl text-gray-700
+                text-lg transition-all duration-300 focus:border-blue-500 
+                focus:bg-white focus:-translate-y-1 focus:shadow-lg"
+              >
+                {locations.map(location => (
+                  <option key={location} value={location}>{location}</option>
+                ))}
+              </select>
+              <small className="text-gray-500 text-sm">Where the stock is held</small>
             </div>
             
             <div>
@@ -331,11 +578,10 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
               <input
                 type="date"
                 value={formData.date}
-                onChange={(e) => handleInputChange('date', e.target.value)}
-                min={new Date().toISOString().split('T')[0]}
+                onChange={(e) => handleDateChange(e.target.value)}
                 className="w-full p-4 border-2 border-gray-200 text-gray-700 rounded-xl text-lg transition-all duration-300 focus:border-blue-500 focus:bg-white focus:-translate-y-1 focus:shadow-lg"
               />
-              <small className="text-gray-500 text-sm">Today or future dates only</small>
+              <small className="text-gray-500 text-sm">Past dates need supervisor approval</small>
             </div>
           </div>
           
@@ -344,6 +590,23 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
               {dateWarning}
             </div>
           )}
+
+          {isDateInPast(formData.date) && (
+            <div className="mt-6">
+              <div>
+                <label className="block mb-2 font-semibold text-gray-700 uppercase tracking-wide text-sm">
+                  Reason for Correction
+                </label>
+                <textarea
+                  value={correctionReason}
+                  onChange={(e) => setCorrectionReason(e.target.value)}
+                  placeholder="What was wrong with the original count?"
+                  rows={2}
+                  className="w-full p-4 border-2 border-gray-200 text-gray-700 rounded-xl text-lg transition-all duration-300 focus:border-blue-500 focus:bg-white focus:shadow-lg"
+                />
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -388,7 +651,6 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
                 onChange={(e) => handleInputChange('newStock', parseFloat(e.target.value) || 0)}
                 placeholder="0"
                 min="0"
-                disabled={isDateInPast(formData.date)}
                 className="w-full p-4 border-2 border-gray-200 text-gray-700 rounded-xl text-lg transition-all duration-300 focus:border-blue-500 focus:bg-white focus:-translate-y-1 focus:shadow-lg disabled:bg-gray-100 disabled:cursor-not-allowed"
               />
               <small className="text-gray-500 text-sm">Stock received today</small>
@@ -404,7 +666,6 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
                 onChange={(e) => handleInputChange('issuedProduction', parseFloat(e.target.value) || 0)}
                 placeholder="0"
                 min="0"
-                disabled={isDateInPast(formData.date)}
                 className="w-full p-4 border-2 text-gray-700 border-gray-200 rounded-xl text-lg transition-all duration-300 focus:border-blue-500 focus:bg-white focus:-translate-y-1 focus:shadow-lg disabled:bg-gray-100 disabled:cursor-not-allowed"
               />
               <small className="text-gray-500 text-sm">Stock used in production</small>
@@ -417,13 +678,10 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
               <input
                 type="number"
                 value={formData.returns}
-                onChange={(e) => handleInputChange('returns', parseFloat(e.target.value) || 0)}
-                placeholder="0"
-                min="0"
-                disabled={isDateInPast(formData.date)}
-                className="w-full p-4 border-2 text-gray-700 border-gray-200 rounded-xl text-lg transition-all duration-300 focus:border-blue-500 focus:bg-white focus:-translate-y-1 focus:shadow-lg disabled:bg-gray-100 disabled:cursor-not-allowed"
+                className="w-full p-4 border-2 text-gray-700 border-gray-200 rounded-xl text-lg bg-gray-100 cursor-not-allowed"
+                readOnly
               />
-              <small className="text-sm text-gray-500">Stock returned from production</small>
+              <small className="text-sm text-gray-500">Posted from the Production tab as production returns</small>
             </div>
             
             <div>
@@ -433,13 +691,10 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
               <input
                 type="number"
                 value={formData.rebagging}
-                onChange={(e) => handleInputChange('rebagging', parseFloat(e.target.value) || 0)}
-                placeholder="0"
-                min="0"
-                disabled={isDateInPast(formData.date)}
-                className="w-full p-4 border-2 text-gray-700 border-gray-200 rounded-xl text-lg transition-all duration-300 focus:border-blue-500 focus:bg-white focus:-translate-y-1 focus:shadow-lg disabled:bg-gray-100 disabled:cursor-not-allowed"
+                className="w-full p-4 border-2 text-gray-700 border-gray-200 rounded-xl text-lg bg-gray-100 cursor-not-allowed"
+                readOnly
               />
-              <small className="text-sm text-gray-500">Stock moved to different packaging</small>
+              <small className="text-sm text-gray-500">Posted from the Rebagging tab as a conversion</small>
             </div>
             
             <div>
@@ -452,12 +707,45 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
                 onChange={(e) => handleInputChange('damaged', parseFloat(e.target.value) || 0)}
                 placeholder="0"
                 min="0"
-                disabled={isDateInPast(formData.date)}
                 className="w-full p-4 border-2 text-gray-700 border-gray-200 rounded-xl text-lg transition-all duration-300 focus:border-blue-500 focus:bg-white focus:-translate-y-1 focus:shadow-lg disabled:bg-gray-100 disabled:cursor-not-allowed"
               />
               <small className="text-sm text-gray-500">Stock that cannot be used</small>
+              {formData.damaged > 0 && (
+                <select
+                  value={damageReason}
+                  onChange={(e) => setDamageReason(e.target.value)}
+                  className="mt-2 w-full p-3 border-2 text-gray-700 border-gray-200 rounded-xl text-base transition-all duration-300 focus:border-blue-500 focus:bg-white focus:shadow-lg"
+                >
+                  <option value="">Reason for damage...</option>
+                  {reasonCodes.map(reason => (
+                    <option key={reason.code} value={reason.code}>{reason.label}</option>
+                  ))}
+                </select>
+              )}
             </div>
           </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+            {([
+              ['transferIn', 'Transfer In'],
+              ['transferOut', 'Transfer Out'],
+              ['rebaggingOut', 'Rebagged Out'],
+              ['adjustment', 'Stock-take Adjustment']
+            ] as const).map(([field, label]) => (
+              <div key={field}>
+                <label className="block mb-2 font-semibold text-gray-700 uppercase tracking-wide text-xs">
+                  {label}
+                </label>
+                <input
+                  type="number"
+                  value={formData[field]}
+                  className="w-full p-3 border-2 text-gray-700 border-gray-200 rounded-xl text-base bg-gray-100 cursor-not-allowed"
+                  readOnly
+                />
+              </div>
+            ))}
+          </div>
+          <small className="block mt-2 text-sm text-gray-500">Posted by transfers, rebagging and stock-takes; counted in the closing stock</small>
         </div>
       </div>
 
@@ -500,14 +788,36 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
               <small className="text-gray-500 text-sm">Final stock level</small>
             </div>
           </div>
+
+          {(shortfall > 0 || shortfallRefused) && (
+            <div className="mb-6 p-4 rounded-xl border-2 border-red-300 bg-red-50">
+              {shortfall > 0 && (
+                <p className="text-red-700 font-semibold mb-1">
+                  ⚠️ Shortfall of {shortfall}: {outflows} going out, but only {Math.max(0, formData.closingStock + outflows)} available
+                </p>
+              )}
+              <p className="text-red-600 text-sm mb-3">
+                Check the quantities, or record why the stock is allowed to go below zero. The reason is kept with the record and shown in the Shortfalls report.
+              </p>
+              <input
+                type="text"
+                value={shortfallReason}
+                onChange={(e) => setShortfallReason(e.target.value)}
+                placeholder="Reason for accepting the shortfall"
+                className="w-full p-3 border-2 text-gray-700 border-red-200 rounded-xl text-base transition-all duration-300 focus:border-red-500 focus:bg-white focus:shadow-lg"
+              />
+            </div>
+          )}
           
           <div className="flex gap-4 justify-center">
             <button
               onClick={handleSaveRecord}
-              disabled={isLoading || isDateInPast(formData.date)}
+              disabled={isLoading}
               className="px-8 py-4 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isLoading ? '💾 Saving...' : '💾 Save Record'}
+              {isDateInPast(formData.date)
+                ? (isLoading ? '📨 Sending...' : '📨 Request Correction')
+                : (isLoading ? '💾 Saving...' : '💾 Save Record')}
             </button>
             
             <button
@@ -519,6 +829,15 @@ export default function InventoryForm({ onRecordSaved, selectedProduct, onProduc
           </div>
         </div>
       </div>
+
+      {formData.itemName && formData.location && formData.date && !isDateInPast(formData.date) && (
+        <MovementEntry
+          itemName={formData.itemName}
+          location={formData.location}
+          date={formData.date}
+          onPosted={handleMovementPosted}
+        />
+      )}
     </div>
   );
 }
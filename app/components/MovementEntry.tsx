@@ -0,0 +1,246 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ApiError, fetchReasonCodes, fetchTransactions, postProductionReturn, postTransaction } from '../lib/inventoryApi';
+import { formatLots } from '../lib/lots';
+import { InventoryRecord, InventoryTransaction, ReasonCode, TransactionType } from '../types/inventory';
+
+interface MovementEntryProps {
+  itemName: string;
+  location: string;
+  date: string;
+  onPosted: (record: InventoryRecord) => void;
+}
+
+const MOVEMENT_TYPES: { value: TransactionType; label: string }[] = [
+  { value: 'receipt', label: '📥 Receipt' },
+  { value: 'issue', label: '🏭 Issue to production' },
+  { value: 'return', label: '↩️ Return' },
+  { value: 'damage', label: '💥 Damage' }
+];
+
+// Posts one movement with its own reference on top of whatever the day already holds,
+// so a second delivery does not have to be added into the first by hand. A return is
+// posted against the issue it comes back from.
+export default function MovementEntry({ itemName, location, date, onPosted }: MovementEntryProps) {
+  const [type, setType] = useState<TransactionType>('receipt');
+  const [quantity, setQuantity] = useState('');
+  const [reference, setReference] = useState('');
+  const [reasonCode, setReasonCode] = useState('');
+  const [unitCost, setUnitCost] = useState('');
+  const [lotNumber, setLotNumber] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [reasonCodes, setReasonCodes] = useState<ReasonCode[]>([]);
+  const [note, setNote] = useState('');
+  const [issues, setIssues] = useState<InventoryTransaction[]>([]);
+  const [issueId, setIssueId] = useState('');
+  const [shortfallReason, setShortfallReason] = useState('');
+  const [shortfallRefused, setShortfallRefused] = useState(false);
+  const [isPosting, setIsPosting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    fetchReasonCodes()
+      .then(setReasonCodes)
+      .catch(error => console.error('Error loading reason codes:', error));
+  }, []);
+
+  useEffect(() => {
+    if (type !== 'return') return;
+
+    fetchTransactions({ item_name: itemName, location })
+      .then(lines => setIssues(lines
+        .filter(line => line.type === 'issue' && line.quantity > 0 && line.date <= date)
+        .sort((a, b) => b.date.localeCompare(a.date))))
+      .catch(error => console.error('Error loading issues:', error));
+  }, [type, itemName, location, date]);
+
+  const handlePost = async () => {
+    if (!(Number(quantity) > 0)) {
+      setMessage({ text: 'Enter a quantity above zero.', type: 'error' });
+      return;
+    }
+    if (type === 'damage' && !reasonCode) {
+      setMessage({ text: 'Choose why the stock was damaged.', type: 'error' });
+      return;
+    }
+    if (type === 'return' && !issueId) {
+      setMessage({ text: 'Choose the issue the material is coming back from.', type: 'error' });
+      return;
+    }
+
+    setIsPosting(true);
+    setMessage(null);
+
+    try {
+      const { transaction, record } = type === 'return'
+        ? await postProductionReturn({
+          issue_id: Number(issueId),
+          quantity: Number(quantity),
+          date,
+          reference: reference.trim() || undefined,
+          note: note.trim() || undefined
+        })
+        : await postTransaction({
+          item_name: itemName,
+          location,
+          date,
+          type,
+          quantity: Number(quantity),
+          reference: reference.trim() || undefined,
+          reason_code: type === 'damage' ? reasonCode : undefined,
+          unit_cost: type === 'receipt' && unitCost !== '' ? Number(unitCost) : undefined,
+          lot_number: type === 'receipt' ? lotNumber.trim() || undefined : undefined,
+          expiry_date: type === 'receipt' && lotNumber.trim() ? expiryDate || undefined : undefined,
+          note: note.trim() || undefined,
+          shortfall_reason: shortfallReason.trim() || undefined
+        });
+
+      setMessage({
+        text: `✅ Posted ${transaction.type} of ${transaction.quantity}${transaction.reference ? ` (${transaction.reference})` : ''}${transaction.lots ? `, lot ${formatLots(transaction.lots)}` : ''} — closing stock is now ${record.closing_stock}`,
+        type: 'success'
+      });
+      setQuantity('');
+      setReference('');
+      setReasonCode('');
+      setUnitCost('');
+      setLotNumber('');
+      setExpiryDate('');
+      setIssueId('');
+      setNote('');
+      setShortfallReason('');
+      setShortfallRefused(false);
+      onPosted(record);
+    } catch (error) {
+      console.error('Error posting movement:', error);
+      setShortfallRefused(error instanceof ApiError && error.errors.some(e => e.field === 'closing_stock'));
+      const details = error instanceof ApiError && error.errors.length > 0
+        ? `: ${error.errors.map(e => e.message).join('; ')}`
+        : '';
+      setMessage({ text: `❌ ${error instanceof Error ? error.message : 'Posting failed'}${details}`, type: 'error' });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const inputClass = 'w-full p-3 border-2 border-gray-200 text-gray-700 rounded-xl text-base transition-all duration-300 focus:border-blue-500 focus:bg-white focus:shadow-lg';
+
+  return (
+    <div className="bg-white border-2 border-gray-200 rounded-2xl mb-6 overflow-hidden">
+      <div className="bg-gradient-to-r from-blue-500 to-purple-600 text-white p-5">
+        <h3 className="text-xl font-semibold">🧾 Post a Single Movement</h3>
+        <p className="text-sm text-blue-100">Added to {itemName} at {location} on {date} with its own reference</p>
+      </div>
+
+      <div className="p-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          <select value={type} onChange={(e) => setType(e.target.value as TransactionType)} className={inputClass}>
+            {MOVEMENT_TYPES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            placeholder="Quantity"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+            placeholder="Reference (optional)"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className={inputClass}
+          />
+          {type === 'receipt' && (
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={unitCost}
+              onChange={(e) => setUnitCost(e.target.value)}
+              placeholder="Unit cost (optional)"
+              className={inputClass}
+            />
+          )}
+          {type === 'receipt' && (
+            <input
+              type="text"
+              value={lotNumber}
+              onChange={(e) => setLotNumber(e.target.value)}
+              placeholder="Lot number (optional)"
+              className={inputClass}
+            />
+          )}
+          {type === 'receipt' && lotNumber.trim() && (
+            <input
+              type="date"
+              value={expiryDate}
+              min={date}
+              onChange={(e) => setExpiryDate(e.target.value)}
+              title="Expiry date (optional)"
+              className={inputClass}
+            />
+          )}
+          {type === 'return' && (
+            <select value={issueId} onChange={(e) => setIssueId(e.target.value)} className={inputClass}>
+              <option value="">Returned from issue...</option>
+              {issues.map(issue => (
+                <option key={issue.id} value={issue.id}>
+                  {issue.date} · {issue.quantity} issued{issue.reference ? ` · ${issue.reference}` : ''}
+                  {issue.lots ? ` · lot ${formatLots(issue.lots)}` : ''}
+                </option>
+              ))}
+            </select>
+          )}
+          {type === 'damage' && (
+            <select value={reasonCode} onChange={(e) => setReasonCode(e.target.value)} className={inputClass}>
+              <option value="">Reason for damage...</option>
+              {reasonCodes.map(reason => (
+                <option key={reason.code} value={reason.code}>{reason.label}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {shortfallRefused && (
+          <input
+            type="text"
+            value={shortfallReason}
+            onChange={(e) => setShortfallReason(e.target.value)}
+            placeholder="Reason for accepting the shortfall, then post again"
+            className={`mt-3 ${inputClass}`}
+          />
+        )}
+
+        {message && (
+          <div className={`mt-4 p-3 rounded-lg border ${
+            message.type === 'success'
+              ? 'border-green-300 bg-green-50 text-green-700'
+              : 'border-red-300 bg-red-50 text-red-700'
+          }`}>
+            {message.text}
+          </div>
+        )}
+
+        <button
+          onClick={handlePost}
+          disabled={isPosting}
+          className="mt-4 px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+        >
+          {isPosting ? '🧾 Posting...' : '🧾 Post Movement'}
+        </button>
+      </div>
+    </div>
+  );
+}
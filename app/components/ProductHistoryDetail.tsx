@@ -1,14 +1,31 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { supabase } from '../lib/supabase';
-import { InventoryRecord } from '../types/inventory';
+import { fetchAllRecords, fetchAuditLog, fetchGoodsReceivedNotes, fetchReasonCodes, fetchTransactions } from '../lib/inventoryApi';
+import { byExpiry, daysToExpiry, formatLots, lotBalances } from '../lib/lots';
+import { ALL_LOCATIONS, consolidateRecords } from '../lib/consolidation';
+import { AuditEntry, GoodsReceivedNote, InventoryRecord, InventoryTransaction, ReasonCode } from '../types/inventory';
+import GoodsReceivedNoteView from './GoodsReceivedNoteView';
 
 interface ProductHistoryDetailProps {
   productName: string;
   onBack: () => void;
 }
 
+const AUDITED_FIELDS = [
+  'opening_stock',
+  'new_stock',
+  'issued_production',
+  'returns',
+  'rebagging',
+  'rebagging_out',
+  'damaged',
+  'transfer_in',
+  'transfer_out',
+  'adjustment',
+  'closing_stock'
+] as const;
+
 interface StockMovement {
   date: string;
   movement_type: string;
@@ -17,12 +34,17 @@ interface StockMovement {
   net_change: number;
   opening_stock: number;
   closing_stock: number;
+  shortfall_reason: string | null;
   details: {
     new_stock: number;
     issued_production: number;
     returns: number;
     rebagging: number;
+    rebagging_out: number;
     damaged: number;
+    transfer_in: number;
+    transfer_out: number;
+    adjustment: number;
   };
 }
 
@@ -36,6 +58,15 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
   const [totalPages, setTotalPages] = useState(1);
   const [searchTerm, setSearchTerm] = useState('');
   const [searchFilter, setSearchFilter] = useState<'all' | 'date' | 'movement_type' | 'values'>('all');
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [showAudit, setShowAudit] = useState(false);
+  const [locations, setLocations] = useState<string[]>([]);
+  const [locationFilter, setLocationFilter] = useState(ALL_LOCATIONS);
+  const [transactions, setTransactions] = useState<InventoryTransaction[]>([]);
+  const [reasonCodes, setReasonCodes] = useState<ReasonCode[]>([]);
+  const [reasonFilter, setReasonFilter] = useState('');
+  const [receivedNotes, setReceivedNotes] = useState<GoodsReceivedNote[]>([]);
+  const [viewingNote, setViewingNote] = useState<GoodsReceivedNote | null>(null);
   const [summary, setSummary] = useState<{
     total_stock_in: number;
     total_stock_out: number;
@@ -51,12 +82,19 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
       console.log('Processing stock movements for:', productRecords.length, 'records');
       
       const movements: StockMovement[] = productRecords.map(record => {
-        const stockIn = (record.new_stock || 0) + (record.returns || 0) + (record.rebagging || 0);
-        const stockOut = (record.issued_production || 0) + (record.damaged || 0);
+        // Stock-take adjustments are signed: a surplus counts as stock in, a shortage as stock out
+        const adjustment = record.adjustment || 0;
+        const stockIn = (record.new_stock || 0) + (record.returns || 0) + (record.rebagging || 0) + (record.transfer_in || 0) +
+          Math.max(adjustment, 0);
+        const stockOut = (record.issued_production || 0) + (record.rebagging_out || 0) + (record.damaged || 0) +
+          (record.transfer_out || 0) + Math.max(-adjustment, 0);
         const netChange = stockIn - stockOut;
+        const transferred = (record.transfer_in || 0) + (record.transfer_out || 0);
         
         let movementType = 'stable';
-        if (stockIn > 0 && stockOut === 0) movementType = 'stock_in';
+        // Days where stock only moved between locations
+        if (transferred > 0 && transferred === stockIn + stockOut) movementType = 'transfer';
+        else if (stockIn > 0 && stockOut === 0) movementType = 'stock_in';
         else if (stockOut > 0 && stockIn === 0) movementType = 'stock_out';
         else if (stockIn > 0 && stockOut > 0) movementType = 'mixed';
         else if (netChange > 0) movementType = 'net_increase';
@@ -70,12 +108,17 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
           net_change: netChange,
           opening_stock: record.opening_stock || 0,
           closing_stock: record.closing_stock || 0,
+          shortfall_reason: record.shortfall_reason || null,
           details: {
             new_stock: record.new_stock || 0,
             issued_production: record.issued_production || 0,
             returns: record.returns || 0,
             rebagging: record.rebagging || 0,
-            damaged: record.damaged || 0
+            rebagging_out: record.rebagging_out || 0,
+            damaged: record.damaged || 0,
+            transfer_in: record.transfer_in || 0,
+            transfer_out: record.transfer_out || 0,
+            adjustment
           }
         };
       });
@@ -121,21 +164,18 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
     try {
       console.log('Loading product history for:', productName);
       
-      const { data: records, error } = await supabase
-        .from('inventory_records')
-        .select('*')
-        .eq('item_name', productName)
-        .order('date', { ascending: false });
-
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
-      }
+      const allRecords = await fetchAllRecords({ item_name: productName });
+      setLocations(Array.from(new Set(allRecords.map(record => record.location))).sort());
+
+      // One location's ledger, or every location added up per day
+      const records = locationFilter === ALL_LOCATIONS
+        ? consolidateRecords(allRecords)
+        : allRecords.filter(record => record.location === locationFilter);
 
-      console.log('Records received from Supabase:', records);
-      setRecords(records || []);
+      console.log('Records received:', records.length);
+      setRecords(records);
       
-      if (records && records.length > 0) {
+      if (records.length > 0) {
         console.log('Processing records...');
         processStockMovements(records);
         calculateSummary(records);
@@ -155,16 +195,93 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
       }
       setIsLoading(false);
     }
-  }, [productName, processStockMovements]);
+  }, [productName, locationFilter, processStockMovements]);
 
   useEffect(() => {
     loadProductHistory();
   }, [loadProductHistory]);
 
-  // Filter movements based on search term
   useEffect(() => {
+    fetchAuditLog(productName)
+      .then(setAuditEntries)
+      .catch(error => console.error('Error loading audit log:', error));
+  }, [productName]);
+
+  useEffect(() => {
+    fetchTransactions({ item_name: productName })
+      .then(setTransactions)
+      .catch(error => console.error('Error loading transactions:', error));
+  }, [productName]);
+
+  useEffect(() => {
+    fetchGoodsReceivedNotes({ item_name: productName })
+      .then(setReceivedNotes)
+      .catch(error => console.error('Error loading goods received notes:', error));
+  }, [productName]);
+
+  useEffect(() => {
+    fetchReasonCodes()
+      .then(setReasonCodes)
+      .catch(error => console.error('Error loading reason codes:', error));
+  }, []);
+
+  const reasonLabel = (code: string) => reasonCodes.find(reason => reason.code === code)?.label || code;
+
+  // Total damaged or adjusted under the selected reason at the selected location
+  const reasonTotal = transactions
+    .filter(transaction =>
+      transaction.reason_code === reasonFilter && (locationFilter === ALL_LOCATIONS || transaction.location === locationFilter)
+    )
+    .reduce((sum, transaction) => sum + transaction.quantity, 0);
+
+  // The goods received note a receipt line was posted from, if any
+  const noteFor = (transaction: InventoryTransaction) =>
+    transaction.type === 'receipt' && transaction.reference
+      ? receivedNotes.find(note => note.reference === transaction.reference) || null
+      : null;
+
+  // Lots still holding stock at the selected location, first to expire first
+  const lotsOnHand = lotBalances(transactions)
+    .filter(lot => lot.balance > 0 && (locationFilter === ALL_LOCATIONS || lot.location === locationFilter))
+    .sort(byExpiry);
+  const today = new Date().toISOString().split('T')[0];
+
+  // The transaction lines a day's snapshot was rolled up from, oldest first
+  const getTransactionsForDate = (date: string) =>
+    transactions
+      .filter(transaction =>
+        transaction.date === date && (locationFilter === ALL_LOCATIONS || transaction.location === locationFilter)
+      )
+      .reverse();
+
+  // Fields whose value differs between the before and after snapshots of an entry
+  const getChangedFields = (entry: AuditEntry) =>
+    AUDITED_FIELDS
+      .map(field => ({ field, before: entry.before?.[field], after: entry.after?.[field] }))
+      .filter(({ before, after }) => before !== after);
+
+  const getAuditActionColor = (action: AuditEntry['action']) => {
+    switch (action) {
+      case 'insert': return 'bg-green-100 text-green-800';
+      case 'delete': return 'bg-red-100 text-red-800';
+      default: return 'bg-blue-100 text-blue-800';
+    }
+  };
+
+  // Filter movements by reason code, then by search term
+  useEffect(() => {
+    const movements = reasonFilter
+      ? stockMovements.filter(movement =>
+          transactions.some(transaction =>
+            transaction.date === movement.date &&
+            transaction.reason_code === reasonFilter &&
+            (locationFilter === ALL_LOCATIONS || transaction.location === locationFilter)
+          )
+        )
+      : stockMovements;
+
     if (!searchTerm.trim()) {
-      setFilteredMovements(stockMovements);
+      setFilteredMovements(movements);
       setCurrentPage(1);
       return;
     }
@@ -174,13 +291,13 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
     switch (searchFilter) {
       case 'date':
         // Search by date (partial match)
-        filtered = stockMovements.filter(movement =>
+        filtered = movements.filter(movement =>
           movement.date.toLowerCase().includes(searchTerm.toLowerCase())
         );
         break;
       case 'movement_type':
         // Search by movement type
-        filtered = stockMovements.filter(movement =>
+        filtered = movements.filter(movement =>
           movement.movement_type.toLowerCase().includes(searchTerm.toLowerCase())
         );
         break;
@@ -188,7 +305,7 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
         // Search by numeric values (opening, closing, net change)
         const searchNum = parseFloat(searchTerm);
         if (!isNaN(searchNum)) {
-          filtered = stockMovements.filter(movement =>
+          filtered = movements.filter(movement =>
             movement.opening_stock === searchNum ||
             movement.closing_stock === searchNum ||
             movement.net_change === searchNum ||
@@ -196,13 +313,17 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
             movement.details.issued_production === searchNum ||
             movement.details.returns === searchNum ||
             movement.details.rebagging === searchNum ||
-            movement.details.damaged === searchNum
+            movement.details.rebagging_out === searchNum ||
+            movement.details.damaged === searchNum ||
+            movement.details.transfer_in === searchNum ||
+            movement.details.transfer_out === searchNum ||
+            movement.details.adjustment === searchNum
           );
         }
         break;
       default:
         // Search across all fields
-        filtered = stockMovements.filter(movement =>
+        filtered = movements.filter(movement =>
           movement.date.toLowerCase().includes(searchTerm.toLowerCase()) ||
           movement.movement_type.toLowerCase().includes(searchTerm.toLowerCase()) ||
           movement.opening_stock.toString().includes(searchTerm) ||
@@ -212,13 +333,17 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
           movement.details.issued_production.toString().includes(searchTerm) ||
           movement.details.returns.toString().includes(searchTerm) ||
           movement.details.rebagging.toString().includes(searchTerm) ||
-          movement.details.damaged.toString().includes(searchTerm)
+          movement.details.rebagging_out.toString().includes(searchTerm) ||
+          movement.details.damaged.toString().includes(searchTerm) ||
+          movement.details.transfer_in.toString().includes(searchTerm) ||
+          movement.details.transfer_out.toString().includes(searchTerm) ||
+          movement.details.adjustment.toString().includes(searchTerm)
         );
     }
 
     setFilteredMovements(filtered);
     setCurrentPage(1);
-  }, [searchTerm, searchFilter, stockMovements]);
+  }, [searchTerm, searchFilter, stockMovements, reasonFilter, transactions, locationFilter]);
 
 
   const getMovementIcon = (movementType: string) => {
@@ -226,6 +351,7 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
       case 'stock_in': return '📥';
       case 'stock_out': return '📤';
       case 'mixed': return '🔄';
+      case 'transfer': return '🚚';
       default: return '➡️';
     }
   };
@@ -235,6 +361,7 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
       case 'stock_in': return 'bg-green-100 text-green-800';
       case 'stock_out': return 'bg-red-100 text-red-800';
       case 'mixed': return 'bg-blue-100 text-blue-800';
+      case 'transfer': return 'bg-teal-100 text-teal-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -277,6 +404,10 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
     setTotalPages(Math.ceil(filteredMovements.length / pageSize));
   }, [filteredMovements, pageSize]);
 
+  if (viewingNote) {
+    return <GoodsReceivedNoteView note={viewingNote} onBack={() => setViewingNote(null)} />;
+  }
+
   if (isLoading) {
     return (
       <div className="p-8">
@@ -311,6 +442,19 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
           <h2 className="text-3xl font-semibold text-gray-800">📊 {productName}</h2>
           <p className="text-gray-600">Detailed stock movement history and analytics</p>
         </div>
+
+        {locations.length > 1 && (
+          <select
+            value={locationFilter}
+            onChange={(e) => setLocationFilter(e.target.value)}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value={ALL_LOCATIONS}>{ALL_LOCATIONS}</option>
+            {locations.map(location => (
+              <option key={location} value={location}>{location}</option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* Summary Cards */}
@@ -331,6 +475,53 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
         </div>
       )}
 
+      {/* Lot Balances */}
+      {lotsOnHand.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-lg overflow-hidden mb-8">
+          <div className="bg-gradient-to-r from-gray-800 to-gray-700 text-white p-6">
+            <h3 className="text-xl font-semibold">🏷️ Lot Balances</h3>
+            <p className="text-gray-300">Lots still in stock, in the order issues draw from them</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100 text-left text-gray-600">
+                <tr>
+                  <th className="p-3">Lot</th>
+                  {locationFilter === ALL_LOCATIONS && <th className="p-3">Location</th>}
+                  <th className="p-3">Received</th>
+                  <th className="p-3">Expiry</th>
+                  <th className="p-3 text-right">Received Qty</th>
+                  <th className="p-3 text-right">Issued</th>
+                  <th className="p-3 text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lotsOnHand.map(lot => {
+                  const daysLeft = lot.expiry_date ? daysToExpiry(lot.expiry_date, today) : null;
+                  return (
+                    <tr key={`${lot.location}-${lot.lot_number}`} className="border-t border-gray-200 text-gray-700">
+                      <td className="p-3 font-mono font-semibold">{lot.lot_number}</td>
+                      {locationFilter === ALL_LOCATIONS && <td className="p-3">{lot.location}</td>}
+                      <td className="p-3">{lot.received_on}</td>
+                      <td className={`p-3 ${
+                        daysLeft === null ? 'text-gray-400' : daysLeft < 0 ? 'text-red-600 font-semibold' : daysLeft <= 30 ? 'text-orange-600' : ''
+                      }`}>
+                        {lot.expiry_date
+                          ? `${lot.expiry_date} (${daysLeft! < 0 ? `expired ${-daysLeft!} days ago` : `${daysLeft} days left`})`
+                          : 'No expiry'}
+                      </td>
+                      <td className="p-3 text-right">{lot.received}</td>
+                      <td className="p-3 text-right">{lot.issued}</td>
+                      <td className="p-3 text-right font-semibold">{lot.balance}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Stock Movement Timeline */}
       <div className="bg-white rounded-2xl shadow-lg overflow-hidden mb-8">
         <div className="bg-gradient-to-r from-gray-800 to-gray-700 text-white p-6">
@@ -376,6 +567,18 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
                 <option value="movement_type">Movement Type</option>
                 <option value="values">Numeric Values</option>
               </select>
+
+              <label className="text-sm font-medium text-gray-700">Reason:</label>
+              <select
+                value={reasonFilter}
+                onChange={(e) => setReasonFilter(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">All Reasons</option>
+                {reasonCodes.map(reason => (
+                  <option key={reason.code} value={reason.code}>{reason.label}</option>
+                ))}
+              </select>
               
               {searchTerm && (
                 <button
@@ -388,6 +591,19 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
             </div>
           </div>
           
+          {reasonFilter && (
+            <div className="mt-4 p-3 bg-yellow-50 rounded-lg border border-yellow-200">
+              <div className="flex items-center justify-between">
+                <span className="text-yellow-800">
+                  🏷️ Days with stock damaged or adjusted for <strong>{reasonLabel(reasonFilter)}</strong>
+                </span>
+                <span className="text-yellow-700 font-semibold">
+                  {reasonTotal} units across {filteredMovements.length} days
+                </span>
+              </div>
+            </div>
+          )}
+
           {/* Search Results Summary */}
           {searchTerm && (
             <div className="mt-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
@@ -466,14 +682,20 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
                     </div>
                     
                     <div className="text-right">
-                      <div className="text-lg font-bold text-gray-800">
+                      <div className={`text-lg font-bold ${movement.closing_stock < 0 ? 'text-red-600' : 'text-gray-800'}`}>
                         {movement.closing_stock}
                       </div>
                       <div className="text-sm text-gray-500">Closing Stock</div>
                     </div>
                   </div>
+
+                  {movement.closing_stock < 0 && movement.stock_out > 0 && (
+                    <div className="mb-3 p-2 rounded border border-red-200 bg-red-50 text-sm text-red-700">
+                      ⚠️ Short by {Math.min(movement.stock_out, -movement.closing_stock)}: {movement.shortfall_reason || 'no reason recorded'}
+                    </div>
+                  )}
                   
-                  <div className="grid grid-cols-2 md:grid-cols-6 gap-3 text-sm">
+                  <div className="grid grid-cols-2 md:grid-cols-5 lg:grid-cols-10 gap-3 text-sm">
                     <div className="text-center p-2 bg-gray-50 rounded">
                       <span className="block font-semibold text-gray-600">Opening</span>
                       <span className="text-gray-800">{movement.opening_stock}</span>
@@ -494,11 +716,53 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
                       <span className="block font-semibold text-purple-600">Rebagging</span>
                       <span className="text-purple-800">+{movement.details.rebagging}</span>
                     </div>
+                    <div className="text-center p-2 bg-purple-50 rounded">
+                      <span className="block font-semibold text-purple-600">Rebagged Out</span>
+                      <span className="text-purple-800">-{movement.details.rebagging_out}</span>
+                    </div>
                     <div className="text-center p-2 bg-orange-50 rounded">
                       <span className="block font-semibold text-orange-600">Damaged</span>
                       <span className="text-orange-800">-{movement.details.damaged}</span>
                     </div>
+                    <div className="text-center p-2 bg-teal-50 rounded">
+                      <span className="block font-semibold text-teal-600">Transfer In</span>
+                      <span className="text-teal-800">+{movement.details.transfer_in}</span>
+                    </div>
+                    <div className="text-center p-2 bg-teal-50 rounded">
+                      <span className="block font-semibold text-teal-600">Transfer Out</span>
+                      <span className="text-teal-800">-{movement.details.transfer_out}</span>
+                    </div>
+                    <div className="text-center p-2 bg-yellow-50 rounded">
+                      <span className="block font-semibold text-yellow-700">Adjustment</span>
+                      <span className="text-yellow-800">{movement.details.adjustment > 0 ? '+' : ''}{movement.details.adjustment}</span>
+                    </div>
                   </div>
+
+                  {getTransactionsForDate(movement.date).length > 0 && (
+                    <div className="mt-3 flex flex-wrap gap-2 text-sm">
+                      {getTransactionsForDate(movement.date).map(transaction => (
+                        <span
+                          key={transaction.id}
+                          onClick={noteFor(transaction) ? () => setViewingNote(noteFor(transaction)) : undefined}
+                          title={`${transaction.created_by}, ${new Date(transaction.created_at).toLocaleString()}${transaction.note ? ` — ${transaction.note}` : ''}`}
+                          className={`px-2 py-1 rounded border ${
+                            transaction.type.startsWith('transfer')
+                              ? 'bg-teal-50 border-teal-200 text-teal-800'
+                              : noteFor(transaction)
+                                ? 'bg-green-50 border-green-200 text-green-800 cursor-pointer hover:bg-green-100'
+                                : 'bg-gray-50 border-gray-200 text-gray-700'
+                          }`}
+                        >
+                          {transaction.type.replace('_', ' ')} {transaction.quantity > 0 ? '' : '↺ '}{transaction.quantity}
+                          {locationFilter === ALL_LOCATIONS && ` @ ${transaction.location}`}
+                          {transaction.reference && <span className="font-mono"> · {transaction.reference}</span>}
+                          {transaction.reason_code && <span> · {reasonLabel(transaction.reason_code)}</span>}
+                          {transaction.lots && <span> · lot {formatLots(transaction.lots)}</span>}
+                          {noteFor(transaction) && <span> · 📄 {noteFor(transaction)!.supplier_name}, DN {noteFor(transaction)!.delivery_note}</span>}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   
                   <div className="mt-3 pt-3 border-t border-gray-200">
                     <div className="flex justify-between items-center">
@@ -570,6 +834,59 @@ export default function ProductHistoryDetail({ productName, onBack }: ProductHis
         )}
       </div>
 
+      {/* Audit Trail */}
+      <div className="bg-white rounded-2xl shadow-lg overflow-hidden mb-8">
+        <div className="bg-gradient-to-r from-gray-800 to-gray-700 text-white p-6 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-semibold">🕵️ Audit Trail</h3>
+            <p className="text-gray-300">Every change to this product&apos;s records, who made it and what it was before</p>
+          </div>
+          <button
+            onClick={() => setShowAudit(!showAudit)}
+            className="px-4 py-2 bg-white text-gray-800 text-sm font-medium rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            {showAudit ? 'Hide' : `Show (${auditEntries.length})`}
+          </button>
+        </div>
+
+        {showAudit && (
+          <div className="p-6">
+            {auditEntries.length === 0 ? (
+              <p className="text-center py-8 text-gray-500">No changes have been recorded for this product yet.</p>
+            ) : (
+              <ol className="border-l-2 border-gray-200 ml-3 space-y-6">
+                {auditEntries.map(entry => (
+                  <li key={entry.id} className="relative pl-6">
+                    <span className="absolute -left-[9px] top-1 w-4 h-4 rounded-full bg-indigo-500 border-2 border-white"></span>
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <span className={`px-3 py-1 rounded-full text-xs font-semibold ${getAuditActionColor(entry.action)}`}>
+                        {entry.action}
+                      </span>
+                      <span className="font-semibold text-gray-800">
+                        Record of {new Date(entry.date).toLocaleDateString()}
+                      </span>
+                      <span className="text-sm text-gray-500">
+                        {new Date(entry.recorded_at).toLocaleString()} · {entry.actor} via {entry.source.toUpperCase()}
+                      </span>
+                    </div>
+                    {entry.note && <p className="text-sm text-gray-600 italic mb-1">{entry.note}</p>}
+                    <div className="flex flex-wrap gap-2 text-sm">
+                      {getChangedFields(entry).map(({ field, before, after }) => (
+                        <span key={field} className="px-2 py-1 bg-gray-50 rounded border border-gray-200">
+                          <span className="font-semibold text-gray-600">{field.replace('_', ' ')}:</span>{' '}
+                          <span className="text-red-600 line-through">{before ?? '—'}</span>{' '}
+                          → <span className="text-green-700">{after ?? '—'}</span>
+                        </span>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Additional Analytics */}
       {summary && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
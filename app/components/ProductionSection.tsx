@@ -0,0 +1,724 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  ApiError,
+  cancelProductionOrder,
+  completeProductionOrder,
+  createBillOfMaterials,
+  createProductionOrder,
+  fetchBillsOfMaterials,
+  fetchLocations,
+  fetchProducts,
+  fetchProductionOrders,
+  issueToProductionOrder,
+  postProductionReturn,
+  updateBillOfMaterials
+} from '../lib/inventoryApi';
+import { formatLots } from '../lib/lots';
+import { today } from '../lib/validation';
+import { BillOfMaterials, Product, ProductionOrder, ProductionOrderLine, ProductionOrderStatus } from '../types/inventory';
+
+interface ProductionSectionProps {
+  canPlan: boolean;
+  canIssue: boolean;
+  onMaterialsIssued?: () => void;
+}
+
+interface BomDraft {
+  finishedProduct: string;
+  lines: { itemName: string; quantityPerUnit: string }[];
+}
+
+interface OrderDraft {
+  bomId: string;
+  plannedQuantity: string;
+  location: string;
+  reference: string;
+  note: string;
+}
+
+// Materials being issued to one order, or coming back from it
+interface IssueDraft {
+  mode: 'issue' | 'return';
+  order: ProductionOrder;
+  date: string;
+  lines: { itemName: string; quantity: string }[];
+}
+
+const EMPTY_BOM: BomDraft = { finishedProduct: '', lines: [{ itemName: '', quantityPerUnit: '' }] };
+
+const emptyOrder = (location = ''): OrderDraft => ({ bomId: '', plannedQuantity: '', location, reference: '', note: '' });
+
+const expected = (order: ProductionOrder, line: ProductionOrderLine) =>
+  line.quantity_per_unit * (order.produced_quantity ?? order.planned_quantity);
+
+// Issued less whatever came back
+const consumed = (line: ProductionOrderLine) => line.issued - line.returned;
+
+const STATUS_BADGES: Record<ProductionOrderStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+export default function ProductionSection({ canPlan, canIssue, onMaterialsIssued }: ProductionSectionProps) {
+  const [view, setView] = useState<'orders' | 'boms'>('orders');
+  const [orders, setOrders] = useState<ProductionOrder[]>([]);
+  const [boms, setBoms] = useState<BillOfMaterials[]>([]);
+  const [catalog, setCatalog] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<string[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ProductionOrderStatus | ''>('open');
+  const [bomDraft, setBomDraft] = useState<BomDraft>(EMPTY_BOM);
+  const [editingBomId, setEditingBomId] = useState<number | null>(null);
+  const [orderDraft, setOrderDraft] = useState<OrderDraft>(emptyOrder());
+  const [issue, setIssue] = useState<IssueDraft | null>(null);
+  const [completing, setCompleting] = useState<{ order: ProductionOrder; produced: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    fetchProducts({ activeOnly: true })
+      .then(setCatalog)
+      .catch(error => console.error('Error loading product catalog:', error));
+
+    fetchLocations()
+      .then(list => {
+        setLocations(list.locations);
+        setOrderDraft(prev => ({ ...prev, location: list.default }));
+      })
+      .catch(error => console.error('Error loading locations:', error));
+
+    loadBoms();
+  }, []);
+
+  useEffect(() => {
+    loadOrders(statusFilter);
+  }, [statusFilter]);
+
+  const loadBoms = async () => {
+    try {
+      setBoms(await fetchBillsOfMaterials());
+    } catch (error) {
+      console.error('Error loading bills of materials:', error);
+      setBoms([]);
+    }
+  };
+
+  const loadOrders = async (status: ProductionOrderStatus | '') => {
+    setIsLoading(true);
+    try {
+      setOrders(await fetchProductionOrders({ status: status || undefined }));
+    } catch (error) {
+      console.error('Error loading production orders:', error);
+      setOrders([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showError = (error: unknown) => {
+    const details = error instanceof ApiError && error.errors.length > 0
+      ? `: ${error.errors.map(e => e.message).join('; ')}`
+      : '';
+    setMessage({ text: `❌ ${error instanceof Error ? error.message : 'Request failed'}${details}`, type: 'error' });
+  };
+
+  const updateBomLine = (index: number, changes: Partial<BomDraft['lines'][0]>) => {
+    setBomDraft(prev => ({
+      ...prev,
+      lines: prev.lines.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    }));
+  };
+
+  const handleSaveBom = async () => {
+    const lines = bomDraft.lines
+      .filter(line => line.itemName && line.quantityPerUnit)
+      .map(line => ({ item_name: line.itemName, quantity_per_unit: Number(line.quantityPerUnit) }));
+    if (!bomDraft.finishedProduct.trim() || lines.length === 0) {
+      setMessage({ text: 'Name the finished product and at least one material with a quantity per unit.', type: 'error' });
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      if (editingBomId) {
+        const updated = await updateBillOfMaterials(editingBomId, { finished_product: bomDraft.finishedProduct.trim(), lines });
+        setMessage({ text: `✅ Bill of materials for ${updated.finished_product} updated`, type: 'success' });
+      } else {
+        const created = await createBillOfMaterials({ finished_product: bomDraft.finishedProduct.trim(), lines, active: true });
+        setMessage({ text: `✅ Bill of materials for ${created.finished_product} added`, type: 'success' });
+      }
+      setBomDraft(EMPTY_BOM);
+      setEditingBomId(null);
+      await loadBoms();
+    } catch (error) {
+      console.error('Error saving bill of materials:', error);
+      showError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleBom = async (bom: BillOfMaterials) => {
+    setMessage(null);
+    try {
+      const updated = await updateBillOfMaterials(bom.id!, { active: !bom.active });
+      setMessage({ text: `✅ ${updated.finished_product} ${updated.active ? 'reactivated' : 'deactivated'}`, type: 'success' });
+      await loadBoms();
+    } catch (error) {
+      console.error('Error updating bill of materials:', error);
+      showError(error);
+    }
+  };
+
+  const handleCreateOrder = async () => {
+    if (!orderDraft.bomId || !(Number(orderDraft.plannedQuantity) > 0)) {
+      setMessage({ text: 'Choose what to produce and how many.', type: 'error' });
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const created = await createProductionOrder({
+        bom_id: Number(orderDraft.bomId),
+        planned_quantity: Number(orderDraft.plannedQuantity),
+        location: orderDraft.location,
+        reference: orderDraft.reference.trim() || undefined,
+        note: orderDraft.note.trim() || undefined
+      });
+
+      setMessage({ text: `✅ ${created.reference} raised for ${created.planned_quantity} × ${created.finished_product}`, type: 'success' });
+      setOrderDraft(emptyOrder(orderDraft.location));
+      await loadOrders(statusFilter);
+    } catch (error) {
+      console.error('Error creating production order:', error);
+      showError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Issues start at what the bill of materials still expects to be used, returns at nothing
+  const startIssuing = (order: ProductionOrder, mode: IssueDraft['mode']) => {
+    setIssue({
+      mode,
+      order,
+      date: today(),
+      lines: order.lines
+        .filter(line => mode === 'issue' || consumed(line) > 0)
+        .map(line => ({
+          itemName: line.item_name,
+          quantity: mode === 'issue' ? String(Math.max(expected(order, line) - consumed(line), 0)) : ''
+        }))
+    });
+    setCompleting(null);
+    setMessage(null);
+  };
+
+  const handleIssue = async () => {
+    if (!issue) return;
+
+    const lines = issue.lines
+      .filter(line => Number(line.quantity) > 0)
+      .map(line => ({ item_name: line.itemName, quantity: Number(line.quantity) }));
+    if (lines.length === 0) {
+      setMessage({ text: `Enter how much of at least one material was ${issue.mode === 'issue' ? 'issued' : 'returned'}.`, type: 'error' });
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      if (issue.mode === 'issue') {
+        const { production_order: order, issues } = await issueToProductionOrder(issue.order.id!, { date: issue.date, lines });
+        const lotted = issues.filter(line => line.lots);
+        setMessage({
+          text: `✅ ${lines.length} material${lines.length === 1 ? '' : 's'} issued to ${order.reference} at ${order.location}` +
+            (lotted.length > 0 ? ` from lots ${lotted.map(line => `${line.item_name}: ${formatLots(line.lots!)}`).join('; ')}` : ''),
+          type: 'success'
+        });
+      } else {
+        // One return per material, so each keeps its own reference
+        for (const line of lines) {
+          await postProductionReturn({ production_order_id: issue.order.id!, date: issue.date, ...line });
+        }
+        setMessage({
+          text: `✅ ${lines.length} material${lines.length === 1 ? '' : 's'} returned from ${issue.order.reference}`,
+          type: 'success'
+        });
+      }
+      setIssue(null);
+      await loadOrders(statusFilter);
+      if (onMaterialsIssued) {
+        onMaterialsIssued();
+      }
+    } catch (error) {
+      console.error(`Error posting ${issue.mode}:`, error);
+      showError(error);
+      await loadOrders(statusFilter);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleComplete = async () => {
+    if (!completing || completing.produced === '' || !(Number(completing.produced) >= 0)) {
+      setMessage({ text: 'Enter how many were produced.', type: 'error' });
+      return;
+    }
+
+    setMessage(null);
+    try {
+      const order = await completeProductionOrder(completing.order.id!, Number(completing.produced));
+      setMessage({ text: `✅ ${order.reference} completed with ${order.produced_quantity} × ${order.finished_product}`, type: 'success' });
+      setCompleting(null);
+      await loadOrders(statusFilter);
+    } catch (error) {
+      console.error('Error completing production order:', error);
+      showError(error);
+    }
+  };
+
+  const handleCancelOrder = async (order: ProductionOrder) => {
+    if (!window.confirm(`Cancel ${order.reference}? Materials already issued stay issued.`)) return;
+
+    setMessage(null);
+    try {
+      await cancelProductionOrder(order.id!);
+      setMessage({ text: `✅ ${order.reference} cancelled`, type: 'success' });
+      await loadOrders(statusFilter);
+    } catch (error) {
+      console.error('Error cancelling production order:', error);
+      showError(error);
+    }
+  };
+
+  const inputClass = 'w-full p-3 border-2 border-gray-200 text-gray-700 rounded-xl text-base transition-all duration-300 focus:border-blue-500 focus:bg-white focus:shadow-lg';
+  const activeBoms = boms.filter(bom => bom.active);
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h3 className="text-xl sm:text-2xl font-semibold text-gray-800 mb-2">⚙️ Production</h3>
+          <p className="text-sm sm:text-base text-gray-600">Materials issued against a production order are posted as issued to production for the day</p>
+        </div>
+        <div className="flex gap-2">
+          {(['orders', 'boms'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                view === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option === 'orders' ? '⚙️ Production Orders' : '📐 Bills of Materials'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {message && (
+        <div className={`mb-6 p-3 rounded-lg border ${
+          message.type === 'success'
+            ? 'border-green-300 bg-green-50 text-green-700'
+            : 'border-red-300 bg-red-50 text-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {view === 'boms' && (
+        <>
+          {canPlan && (
+            <div className="bg-gray-50 p-4 sm:p-6 rounded-2xl mb-6 shadow-inner">
+              <h4 className="text-lg font-semibold text-gray-800 mb-4">
+                {editingBomId ? '✏️ Edit Bill of Materials' : '➕ New Bill of Materials'}
+              </h4>
+              <input
+                type="text"
+                value={bomDraft.finishedProduct}
+                onChange={(e) => setBomDraft({ ...bomDraft, finishedProduct: e.target.value })}
+                placeholder="Finished product"
+                className={inputClass}
+              />
+
+              <div className="mt-3 space-y-3">
+                {bomDraft.lines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-1 sm:grid-cols-[1fr_12rem_auto] gap-3">
+                    <select
+                      value={line.itemName}
+                      onChange={(e) => updateBomLine(index, { itemName: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Material...</option>
+                      {catalog.map(product => (
+                        <option key={product.id} value={product.name}>{product.code} — {product.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={line.quantityPerUnit}
+                      onChange={(e) => updateBomLine(index, { quantityPerUnit: e.target.value })}
+                      placeholder="Per finished unit"
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={() => setBomDraft(prev => ({ ...prev, lines: prev.lines.filter((_, i) => i !== index) }))}
+                      disabled={bomDraft.lines.length === 1}
+                      className="px-4 text-red-600 hover:text-red-800 disabled:opacity-30"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-4 flex gap-3">
+                <button
+                  onClick={() => setBomDraft(prev => ({ ...prev, lines: [...prev.lines, { itemName: '', quantityPerUnit: '' }] }))}
+                  className="px-6 py-2 bg-gray-200 text-gray-700 font-semibold rounded-full hover:bg-gray-300 transition-colors"
+                >
+                  ➕ Add Material
+                </button>
+                <button
+                  onClick={handleSaveBom}
+                  disabled={isSaving}
+                  className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+                >
+                  {isSaving ? '💾 Saving...' : editingBomId ? '💾 Save Changes' : '➕ Add Bill of Materials'}
+                </button>
+                {editingBomId && (
+                  <button
+                    onClick={() => { setEditingBomId(null); setBomDraft(EMPTY_BOM); }}
+                    className="px-6 py-2 bg-gray-200 text-gray-700 font-semibold rounded-full hover:bg-gray-300 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {boms.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <div className="text-4xl sm:text-5xl mb-4">📐</div>
+              <p className="text-sm sm:text-base">No bills of materials yet</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-xl bg-white shadow-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-100 text-left text-gray-600">
+                  <tr>
+                    <th className="p-3">Finished Product</th>
+                    <th className="p-3">Materials per Unit</th>
+                    <th className="p-3">Status</th>
+                    {canPlan && <th className="p-3"></th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {boms.map(bom => (
+                    <tr key={bom.id} className={`border-t border-gray-200 ${bom.active ? 'text-gray-700' : 'text-gray-400'}`}>
+                      <td className="p-3 font-semibold">{bom.finished_product}</td>
+                      <td className="p-3">{bom.lines.map(line => `${line.item_name} × ${line.quantity_per_unit}`).join(', ')}</td>
+                      <td className="p-3">{bom.active ? 'Active' : 'Inactive'}</td>
+                      {canPlan && (
+                        <td className="p-3 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => {
+                              setEditingBomId(bom.id!);
+                              setBomDraft({
+                                finishedProduct: bom.finished_product,
+                                lines: bom.lines.map(line => ({ itemName: line.item_name, quantityPerUnit: String(line.quantity_per_unit) }))
+                              });
+                            }}
+                            className="px-3 py-1 text-blue-600 hover:text-blue-800"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleToggleBom(bom)}
+                            className="px-3 py-1 text-gray-600 hover:text-gray-800"
+                          >
+                            {bom.active ? 'Deactivate' : 'Reactivate'}
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {view === 'orders' && (
+        <>
+          {canPlan && (
+            <div className="bg-gray-50 p-4 sm:p-6 rounded-2xl mb-6 shadow-inner">
+              <h4 className="text-lg font-semibold text-gray-800 mb-4">➕ New Production Order</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                <select
+                  value={orderDraft.bomId}
+                  onChange={(e) => setOrderDraft({ ...orderDraft, bomId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Finished product...</option>
+                  {activeBoms.map(bom => (
+                    <option key={bom.id} value={bom.id}>{bom.finished_product}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={orderDraft.plannedQuantity}
+                  onChange={(e) => setOrderDraft({ ...orderDraft, plannedQuantity: e.target.value })}
+                  placeholder="Units to produce"
+                  className={inputClass}
+                />
+                <select
+                  value={orderDraft.location}
+                  onChange={(e) => setOrderDraft({ ...orderDraft, location: e.target.value })}
+                  className={inputClass}
+                >
+                  {locations.map(location => <option key={location} value={location}>Issue from: {location}</option>)}
+                </select>
+                <input
+                  type="text"
+                  value={orderDraft.reference}
+                  onChange={(e) => setOrderDraft({ ...orderDraft, reference: e.target.value })}
+                  placeholder="Reference (optional)"
+                  className={inputClass}
+                />
+              </div>
+
+              <input
+                type="text"
+                value={orderDraft.note}
+                onChange={(e) => setOrderDraft({ ...orderDraft, note: e.target.value })}
+                placeholder="Note (optional)"
+                className={`mt-3 ${inputClass}`}
+              />
+
+              <div className="mt-4">
+                <button
+                  onClick={handleCreateOrder}
+                  disabled={isSaving}
+                  className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+                >
+                  {isSaving ? '⚙️ Saving...' : '⚙️ Raise Order'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end mb-3">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as ProductionOrderStatus | '')}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="open">Open orders</option>
+              <option value="completed">Completed</option>
+              <option value="cancelled">Cancelled</option>
+              <option value="">All orders</option>
+            </select>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-12 text-gray-500">Loading production orders...</div>
+          ) : orders.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <div className="text-4xl sm:text-5xl mb-4">⚙️</div>
+              <p className="text-sm sm:text-base">No production orders here</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {orders.map(order => (
+                <div key={order.id} className="bg-white border border-gray-200 rounded-xl shadow-lg p-4">
+                  <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 mb-3">
+                    <div>
+                      <span className="font-mono font-semibold text-gray-800">{order.reference}</span>
+                      <span className={`ml-3 px-2 py-1 rounded-full text-xs font-semibold ${STATUS_BADGES[order.status]}`}>
+                        {order.status}
+                      </span>
+                      <p className="text-sm text-gray-600">
+                        {order.finished_product} × {order.produced_quantity ?? order.planned_quantity}
+                        {order.produced_quantity !== null && ` produced of ${order.planned_quantity} planned`}
+                        {' '}· {order.location} · ordered {order.order_date}
+                        {order.note && ` · ${order.note}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      {canIssue && order.status === 'open' && (
+                        <button
+                          onClick={() => startIssuing(order, 'issue')}
+                          className="px-4 py-2 bg-green-500 text-white text-sm rounded-lg hover:bg-green-600 transition-colors"
+                        >
+                          📤 Issue Materials
+                        </button>
+                      )}
+                      {canIssue && order.lines.some(line => consumed(line) > 0) && (
+                        <button
+                          onClick={() => startIssuing(order, 'return')}
+                          className="px-4 py-2 bg-purple-500 text-white text-sm rounded-lg hover:bg-purple-600 transition-colors"
+                        >
+                          ↩️ Return Materials
+                        </button>
+                      )}
+                      {canPlan && order.status === 'open' && (
+                        <>
+                          <button
+                            onClick={() => { setCompleting({ order, produced: String(order.planned_quantity) }); setIssue(null); }}
+                            className="px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 transition-colors"
+                          >
+                            ✅ Complete
+                          </button>
+                          <button
+                            onClick={() => handleCancelOrder(order)}
+                            className="px-4 py-2 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  {completing && completing.order.id === order.id && (
+                    <div className="flex flex-col sm:flex-row gap-3 items-center bg-blue-50 border border-blue-200 rounded-lg p-3 mb-3">
+                      <span className="text-sm text-gray-700">Units of {order.finished_product} produced:</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={completing.produced}
+                        onChange={(e) => setCompleting({ ...completing, produced: e.target.value })}
+                        className="w-40 p-2 border-2 border-gray-200 text-gray-700 rounded-lg"
+                      />
+                      <button
+                        onClick={handleComplete}
+                        className="px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 transition-colors"
+                      >
+                        Complete Order
+                      </button>
+                      <button
+                        onClick={() => setCompleting(null)}
+                        className="px-4 py-2 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+
+                  {issue && issue.order.id === order.id && (
+                    <div className={`border-2 rounded-lg p-3 mb-3 ${
+                      issue.mode === 'issue' ? 'bg-green-50 border-green-200' : 'bg-purple-50 border-purple-200'
+                    }`}>
+                      <div className="flex flex-col sm:flex-row gap-3 sm:items-center mb-3">
+                        <span className="text-sm text-gray-700">{issue.mode === 'issue' ? 'Issued on' : 'Returned on'}</span>
+                        <input
+                          type="date"
+                          value={issue.date}
+                          min={today()}
+                          max={today()}
+                          onChange={(e) => setIssue({ ...issue, date: e.target.value })}
+                          className="p-2 border-2 border-gray-200 text-gray-700 rounded-lg"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        {issue.lines.map((line, index) => {
+                          const material = order.lines.find(entry => entry.item_name === line.itemName)!;
+                          return (
+                            <div key={line.itemName} className="grid grid-cols-[1fr_10rem] gap-3 items-center">
+                              <span className="text-gray-800 font-semibold">
+                                {line.itemName}
+                                {issue.mode === 'return' && (
+                                  <span className="ml-2 text-sm font-normal text-gray-500">{consumed(material)} still out</span>
+                                )}
+                              </span>
+                              <input
+                                type="number"
+                                min="0"
+                                max={issue.mode === 'return' ? consumed(material) : undefined}
+                                step="any"
+                                value={line.quantity}
+                                onChange={(e) => setIssue({
+                                  ...issue,
+                                  lines: issue.lines.map((entry, i) => (i === index ? { ...entry, quantity: e.target.value } : entry))
+                                })}
+                                className="p-2 border-2 border-gray-200 text-gray-700 rounded-lg"
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <div className="mt-3 flex gap-3">
+                        <button
+                          onClick={handleIssue}
+                          disabled={isSaving}
+                          className={`px-4 py-2 text-white text-sm rounded-lg transition-colors disabled:opacity-50 ${
+                            issue.mode === 'issue' ? 'bg-green-500 hover:bg-green-600' : 'bg-purple-500 hover:bg-purple-600'
+                          }`}
+                        >
+                          {isSaving ? 'Posting...' : issue.mode === 'issue' ? '📤 Post Issue' : '↩️ Post Return'}
+                        </button>
+                        <button
+                          onClick={() => setIssue(null)}
+                          className="px-4 py-2 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-gray-500">
+                      <tr>
+                        <th className="py-1">Material</th>
+                        <th className="py-1 text-right">Per Unit</th>
+                        <th className="py-1 text-right">Expected</th>
+                        <th className="py-1 text-right">Issued</th>
+                        <th className="py-1 text-right">Returned</th>
+                        <th className="py-1 text-right">Variance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {order.lines.map(line => {
+                        const variance = consumed(line) - expected(order, line);
+                        return (
+                          <tr key={line.item_name} className="border-t border-gray-100 text-gray-700">
+                            <td className="py-1">{line.item_name}</td>
+                            <td className="py-1 text-right">{line.quantity_per_unit}</td>
+                            <td className="py-1 text-right">{expected(order, line)}</td>
+                            <td className="py-1 text-right">{line.issued}</td>
+                            <td className="py-1 text-right">{line.returned}</td>
+                            <td className={`py-1 text-right font-semibold ${variance > 0 ? 'text-red-600' : variance < 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                              {variance > 0 ? `+${variance}` : variance}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ApiError, createProduct, fetchProducts, ProductInput, rewriteProduct, updateProduct } from '../lib/inventoryApi';
+import { InventoryRecord, Product } from '../types/inventory';
+
+interface ProductsSectionProps {
+  records: InventoryRecord[];
+  canManage: boolean;
+  canMerge: boolean;
+  onHistoryChanged?: () => void;
+}
+
+interface ProductDraft {
+  code: string;
+  name: string;
+  category: string;
+  unit: string;
+  bagSize: string;
+  minStock: string;
+  reorderPoint: string;
+}
+
+const EMPTY_DRAFT: ProductDraft = { code: '', name: '', category: '', unit: 'bags', bagSize: '', minStock: '', reorderPoint: '' };
+
+const toDraft = (product: Product): ProductDraft => ({
+  code: product.code,
+  name: product.name,
+  category: product.category || '',
+  unit: product.unit,
+  bagSize: product.bag_size ? String(product.bag_size) : '',
+  minStock: product.min_stock != null ? String(product.min_stock) : '',
+  reorderPoint: product.reorder_point != null ? String(product.reorder_point) : ''
+});
+
+const toInput = (draft: ProductDraft): Omit<ProductInput, 'active'> => ({
+  code: draft.code.trim(),
+  name: draft.name.trim(),
+  category: draft.category.trim() || null,
+  unit: draft.unit.trim(),
+  bag_size: draft.bagSize ? Number(draft.bagSize) : null,
+  min_stock: draft.minStock ? Number(draft.minStock) : null,
+  reorder_point: draft.reorderPoint ? Number(draft.reorderPoint) : null
+});
+
+export default function ProductsSection({ records, canManage, canMerge, onHistoryChanged }: ProductsSectionProps) {
+  const [catalog, setCatalog] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<ProductDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+  const [rewriteAction, setRewriteAction] = useState<'rename' | 'merge'>('rename');
+  const [rewriteSource, setRewriteSource] = useState('');
+  const [rewriteTarget, setRewriteTarget] = useState('');
+  const [isRewriting, setIsRewriting] = useState(false);
+
+  useEffect(() => {
+    loadCatalog();
+  }, []);
+
+  const loadCatalog = async () => {
+    setIsLoading(true);
+    try {
+      setCatalog(await fetchProducts());
+    } catch (error) {
+      console.error('Error loading products:', error);
+      setCatalog([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Names used by existing records that have no catalog entry yet
+  const catalogNames = new Set(catalog.map(product => product.name.toLowerCase()));
+  const uncataloguedNames = Array.from(new Set(records.map(record => record.item_name)))
+    .filter(name => !catalogNames.has(name.toLowerCase()))
+    .sort();
+
+  const allNames = Array.from(new Set([...catalog.map(product => product.name), ...uncataloguedNames])).sort();
+
+  const handleRewrite = async () => {
+    if (!rewriteSource || !rewriteTarget.trim()) {
+      setMessage({ text: 'Choose a product and the name to rename or merge it to.', type: 'error' });
+      return;
+    }
+
+    const confirmation = rewriteAction === 'rename'
+      ? `Rename "${rewriteSource}" to "${rewriteTarget.trim()}" in every record?`
+      : `Merge all of "${rewriteSource}" into "${rewriteTarget}"? The stock of "${rewriteTarget}" will be re-chained and "${rewriteSource}" will disappear.`;
+    if (!window.confirm(confirmation)) return;
+
+    setIsRewriting(true);
+    setMessage(null);
+
+    try {
+      const summary = await rewriteProduct(rewriteAction, rewriteSource, rewriteTarget.trim());
+      setMessage({
+        text: rewriteAction === 'rename'
+          ? `✅ Renamed to ${summary.product}: ${summary.records_updated} records updated`
+          : `✅ Merged into ${summary.product}: ${summary.records_updated} records updated, ${summary.records_merged} same-day records folded in`,
+        type: 'success'
+      });
+      setRewriteSource('');
+      setRewriteTarget('');
+      await loadCatalog();
+      if (onHistoryChanged) {
+        onHistoryChanged();
+      }
+    } catch (error) {
+      console.error('Error rewriting product history:', error);
+      showError(error);
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  const showError = (error: unknown) => {
+    const details = error instanceof ApiError && error.errors.length > 0
+      ? `: ${error.errors.map(e => e.message).join('; ')}`
+      : '';
+    setMessage({ text: `❌ ${error instanceof Error ? error.message : 'Request failed'}${details}`, type: 'error' });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      if (editingId) {
+        // The name stays fixed because records refer to it
+        const { code, category, unit, bag_size, min_stock, reorder_point } = toInput(draft);
+        const updated = await updateProduct(editingId, { code, category, unit, bag_size, min_stock, reorder_point });
+        setMessage({ text: `✅ ${updated.name} updated`, type: 'success' });
+      } else {
+        const created = await createProduct({ ...toInput(draft), active: true });
+        setMessage({ text: `✅ ${created.name} added to the catalog`, type: 'success' });
+      }
+
+      setDraft(EMPTY_DRAFT);
+      setEditingId(null);
+      await loadCatalog();
+    } catch (error) {
+      console.error('Error saving product:', error);
+      showError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (product: Product) => {
+    try {
+      await updateProduct(product.id!, { active: !product.active });
+      await loadCatalog();
+    } catch (error) {
+      console.error('Error updating product:', error);
+      showError(error);
+    }
+  };
+
+  const handleEdit = (product: Product) => {
+    setEditingId(product.id!);
+    setDraft(toDraft(product));
+    setMessage(null);
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const inputClass = 'w-full p-3 border-2 border-gray-200 text-gray-700 rounded-xl text-base transition-all duration-300 focus:border-blue-500 focus:bg-white focus:shadow-lg disabled:bg-gray-100';
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8">
+      <div className="mb-6">
+        <h3 className="text-xl sm:text-2xl font-semibold text-gray-800 mb-2">🏷️ Product Catalog</h3>
+        <p className="text-sm sm:text-base text-gray-600">New entries can only be recorded against active products in this list</p>
+      </div>
+
+      {canManage && (
+        <div className="bg-gray-50 p-4 sm:p-6 rounded-2xl mb-6 shadow-inner">
+          <h4 className="text-lg font-semibold text-gray-800 mb-4">
+            {editingId ? '✏️ Edit Product' : '➕ Add Product'}
+          </h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-7 gap-3">
+            <input
+              type="text"
+              value={draft.code}
+              onChange={(e) => setDraft({ ...draft, code: e.target.value.toUpperCase() })}
+              placeholder="Code / SKU"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Display name"
+              disabled={editingId !== null}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={draft.category}
+              onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+              placeholder="Category"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={draft.unit}
+              onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+              placeholder="Unit (bags, kg...)"
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={draft.bagSize}
+              onChange={(e) => setDraft({ ...draft, bagSize: e.target.value })}
+              placeholder="Bag size"
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={draft.minStock}
+              onChange={(e) => setDraft({ ...draft, minStock: e.target.value })}
+              placeholder="Minimum stock"
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={draft.reorderPoint}
+              onChange={(e) => setDraft({ ...draft, reorderPoint: e.target.value })}
+              placeholder="Reorder point"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex gap-3 mt-4">
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+            >
+              {isSaving ? '💾 Saving...' : editingId ? '💾 Save Changes' : '➕ Add Product'}
+            </button>
+            {editingId && (
+              <button
+                onClick={handleCancel}
+                className="px-6 py-2 bg-gray-500 text-white font-semibold rounded-full hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+
+          {uncataloguedNames.length > 0 && (
+            <div className="mt-4 p-3 rounded-lg border border-yellow-300 bg-yellow-50 text-yellow-800 text-sm">
+              <span className="font-semibold">Names in the records without a catalog entry:</span>{' '}
+              {uncataloguedNames.map(name => (
+                <button
+                  key={name}
+                  onClick={() => { setEditingId(null); setDraft({ ...EMPTY_DRAFT, name }); }}
+                  className="inline-block m-1 px-2 py-1 bg-white border border-yellow-300 rounded hover:bg-yellow-100"
+                >
+                  ➕ {name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {canMerge && (
+        <div className="bg-gray-50 p-4 sm:p-6 rounded-2xl mb-6 shadow-inner">
+          <h4 className="text-lg font-semibold text-gray-800 mb-1">🔀 Rename or Merge</h4>
+          <p className="text-sm text-gray-600 mb-4">Rewrites every record of the product, so split or misspelled histories become one</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <select
+              value={rewriteAction}
+              onChange={(e) => { setRewriteAction(e.target.value as 'rename' | 'merge'); setRewriteTarget(''); }}
+              className={inputClass}
+            >
+              <option value="rename">Rename</option>
+              <option value="merge">Merge into</option>
+            </select>
+            <select value={rewriteSource} onChange={(e) => setRewriteSource(e.target.value)} className={inputClass}>
+              <option value="">Product...</option>
+              {allNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            {rewriteAction === 'rename' ? (
+              <input
+                type="text"
+                value={rewriteTarget}
+                onChange={(e) => setRewriteTarget(e.target.value)}
+                placeholder="New name"
+                className={inputClass}
+              />
+            ) : (
+              <select value={rewriteTarget} onChange={(e) => setRewriteTarget(e.target.value)} className={inputClass}>
+                <option value="">Merge into...</option>
+                {allNames.filter(name => name !== rewriteSource).map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            )}
+          </div>
+          <button
+            onClick={handleRewrite}
+            disabled={isRewriting}
+            className="mt-4 px-6 py-2 bg-gradient-to-r from-red-500 to-pink-500 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+          >
+            {isRewriting ? '⏳ Rewriting...' : rewriteAction === 'rename' ? '✏️ Rename' : '🔀 Merge'}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div className={`mb-6 p-3 rounded-lg border ${
+          message.type === 'success'
+            ? 'border-green-300 bg-green-50 text-green-700'
+            : 'border-red-300 bg-red-50 text-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-12 text-gray-500">Loading products...</div>
+      ) : catalog.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <div className="text-4xl sm:text-5xl mb-4">🏷️</div>
+          <p className="text-sm sm:text-base">The catalog is empty</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-xl bg-white shadow-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100 text-left text-gray-600">
+              <tr>
+                <th className="p-3">Code</th>
+                <th className="p-3">Name</th>
+                <th className="p-3">Category</th>
+                <th className="p-3">Unit</th>
+                <th className="p-3">Bag Size</th>
+                <th className="p-3">Min / Reorder</th>
+                <th className="p-3">Status</th>
+                {canManage && <th className="p-3"></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {catalog.map(product => (
+                <tr key={product.id} className={`border-t border-gray-200 ${product.active ? '' : 'text-gray-400'}`}>
+                  <td className="p-3 font-mono">{product.code}</td>
+                  <td className="p-3 font-semibold">{product.name}</td>
+                  <td className="p-3">{product.category || '—'}</td>
+                  <td className="p-3">{product.unit}</td>
+                  <td className="p-3">{product.bag_size ?? '—'}</td>
+                  <td className="p-3">{product.min_stock ?? '—'} / {product.reorder_point ?? '—'}</td>
+                  <td className="p-3">
+                    <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                      product.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {product.active ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  {canManage && (
+                    <td className="p-3 text-right whitespace-nowrap">
+                      <button onClick={() => handleEdit(product)} className="text-blue-600 hover:text-blue-800 mr-3">
+                        Edit
+                      </button>
+                      <button onClick={() => handleToggleActive(product)} className="text-gray-600 hover:text-gray-800">
+                        {product.active ? 'Deactivate' : 'Activate'}
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,900 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  ApiError,
+  cancelPurchaseOrder,
+  createPurchaseOrder,
+  createSupplier,
+  fetchLocations,
+  fetchGoodsReceivedNotes,
+  fetchProducts,
+  fetchPurchaseOrders,
+  fetchSuppliers,
+  postGoodsReceivedNote,
+  updateSupplier
+} from '../lib/inventoryApi';
+import { today } from '../lib/validation';
+import { GoodsReceivedNote, Product, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, Supplier } from '../types/inventory';
+import GoodsReceivedNoteView from './GoodsReceivedNoteView';
+
+interface PurchasingSectionProps {
+  canManageSuppliers: boolean;
+  canOrder: boolean;
+  canReceive: boolean;
+  onStockReceived?: () => void;
+}
+
+interface SupplierDraft {
+  code: string;
+  name: string;
+  contact: string;
+  phone: string;
+  email: string;
+}
+
+interface OrderDraft {
+  supplierId: string;
+  location: string;
+  expectedDate: string;
+  reference: string;
+  note: string;
+  lines: { itemName: string; quantity: string }[];
+}
+
+// A delivery being booked in, against an order or on its own
+interface ReceiptDraft {
+  order: PurchaseOrder | null;
+  supplierId: string;
+  location: string;
+  date: string;
+  deliveryNote: string;
+  vehicle: string;
+  receivedBy: string;
+  note: string;
+  lines: { itemName: string; quantity: string; unitCost: string; lotNumber: string; expiryDate: string }[];
+}
+
+const EMPTY_SUPPLIER: SupplierDraft = { code: '', name: '', contact: '', phone: '', email: '' };
+
+const emptyOrder = (location = ''): OrderDraft => ({
+  supplierId: '',
+  location,
+  expectedDate: '',
+  reference: '',
+  note: '',
+  lines: [{ itemName: '', quantity: '' }]
+});
+
+const emptyReceipt = (location = ''): ReceiptDraft => ({
+  order: null,
+  supplierId: '',
+  location,
+  date: today(),
+  deliveryNote: '',
+  vehicle: '',
+  receivedBy: '',
+  note: '',
+  lines: [{ itemName: '', quantity: '', unitCost: '', lotNumber: '', expiryDate: '' }]
+});
+
+const outstanding = (line: PurchaseOrderLine) => Math.max(line.quantity - line.received, 0);
+
+const STATUS_BADGES: Record<PurchaseOrderStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+export default function PurchasingSection({ canManageSuppliers, canOrder, canReceive, onStockReceived }: PurchasingSectionProps) {
+  const [view, setView] = useState<'orders' | 'received' | 'suppliers'>('orders');
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [supplierList, setSupplierList] = useState<Supplier[]>([]);
+  const [catalog, setCatalog] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<string[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | ''>('open');
+  const [supplierDraft, setSupplierDraft] = useState<SupplierDraft>(EMPTY_SUPPLIER);
+  const [editingSupplierId, setEditingSupplierId] = useState<number | null>(null);
+  const [orderDraft, setOrderDraft] = useState<OrderDraft>(emptyOrder());
+  const [receipt, setReceipt] = useState<ReceiptDraft | null>(null);
+  const [receivedNotes, setReceivedNotes] = useState<GoodsReceivedNote[]>([]);
+  const [viewingNote, setViewingNote] = useState<GoodsReceivedNote | null>(null);
+  const [defaultLocation, setDefaultLocation] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    fetchProducts({ activeOnly: true })
+      .then(setCatalog)
+      .catch(error => console.error('Error loading product catalog:', error));
+
+    fetchLocations()
+      .then(list => {
+        setLocations(list.locations);
+        setDefaultLocation(list.default);
+        setOrderDraft(prev => ({ ...prev, location: list.default }));
+      })
+      .catch(error => console.error('Error loading locations:', error));
+
+    loadSuppliers();
+    loadReceivedNotes();
+  }, []);
+
+  useEffect(() => {
+    loadOrders(statusFilter);
+  }, [statusFilter]);
+
+  const loadSuppliers = async () => {
+    try {
+      setSupplierList(await fetchSuppliers());
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+      setSupplierList([]);
+    }
+  };
+
+  const loadReceivedNotes = async () => {
+    try {
+      setReceivedNotes(await fetchGoodsReceivedNotes());
+    } catch (error) {
+      console.error('Error loading goods received notes:', error);
+      setReceivedNotes([]);
+    }
+  };
+
+  const loadOrders = async (status: PurchaseOrderStatus | '') => {
+    setIsLoading(true);
+    try {
+      setOrders(await fetchPurchaseOrders({ status: status || undefined }));
+    } catch (error) {
+      console.error('Error loading purchase orders:', error);
+      setOrders([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showError = (error: unknown) => {
+    const details = error instanceof ApiError && error.errors.length > 0
+      ? `: ${error.errors.map(e => e.message).join('; ')}`
+      : '';
+    setMessage({ text: `❌ ${error instanceof Error ? error.message : 'Request failed'}${details}`, type: 'error' });
+  };
+
+  const handleSaveSupplier = async () => {
+    setIsSaving(true);
+    setMessage(null);
+
+    const input = {
+      code: supplierDraft.code.trim(),
+      name: supplierDraft.name.trim(),
+      contact: supplierDraft.contact.trim() || null,
+      phone: supplierDraft.phone.trim() || null,
+      email: supplierDraft.email.trim() || null
+    };
+
+    try {
+      if (editingSupplierId) {
+        const updated = await updateSupplier(editingSupplierId, input);
+        setMessage({ text: `✅ ${updated.name} updated`, type: 'success' });
+      } else {
+        const created = await createSupplier({ ...input, active: true });
+        setMessage({ text: `✅ ${created.name} added to the suppliers`, type: 'success' });
+      }
+      setSupplierDraft(EMPTY_SUPPLIER);
+      setEditingSupplierId(null);
+      await loadSuppliers();
+    } catch (error) {
+      console.error('Error saving supplier:', error);
+      showError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleSupplier = async (supplier: Supplier) => {
+    setMessage(null);
+    try {
+      const updated = await updateSupplier(supplier.id!, { active: !supplier.active });
+      setMessage({ text: `✅ ${updated.name} ${updated.active ? 'reactivated' : 'deactivated'}`, type: 'success' });
+      await loadSuppliers();
+    } catch (error) {
+      console.error('Error updating supplier:', error);
+      showError(error);
+    }
+  };
+
+  const updateOrderLine = (index: number, changes: Partial<OrderDraft['lines'][0]>) => {
+    setOrderDraft(prev => ({
+      ...prev,
+      lines: prev.lines.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    }));
+  };
+
+  const handleCreateOrder = async () => {
+    const lines = orderDraft.lines.filter(line => line.itemName && line.quantity);
+    if (!orderDraft.supplierId || lines.length === 0) {
+      setMessage({ text: 'Choose a supplier and at least one product with a quantity.', type: 'error' });
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const created = await createPurchaseOrder({
+        supplier_id: Number(orderDraft.supplierId),
+        location: orderDraft.location,
+        expected_date: orderDraft.expectedDate || undefined,
+        reference: orderDraft.reference.trim() || undefined,
+        note: orderDraft.note.trim() || undefined,
+        lines: lines.map(line => ({ item_name: line.itemName, quantity: Number(line.quantity) }))
+      });
+
+      setMessage({ text: `✅ ${created.reference} raised with ${created.supplier_name}`, type: 'success' });
+      setOrderDraft(emptyOrder(orderDraft.location));
+      await loadOrders(statusFilter);
+    } catch (error) {
+      console.error('Error creating purchase order:', error);
+      showError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancelOrder = async (order: PurchaseOrder) => {
+    if (!window.confirm(`Cancel ${order.reference}? Anything already received stays in stock.`)) return;
+
+    setMessage(null);
+    try {
+      await cancelPurchaseOrder(order.id!);
+      setMessage({ text: `✅ ${order.reference} cancelled`, type: 'success' });
+      await loadOrders(statusFilter);
+    } catch (error) {
+      console.error('Error cancelling purchase order:', error);
+      showError(error);
+    }
+  };
+
+  // Against an order the supplier and location are the order's and the lines start at what is outstanding
+  const startReceiving = (order: PurchaseOrder | null) => {
+    setReceipt(order
+      ? {
+        ...emptyReceipt(order.location),
+        order,
+        supplierId: String(order.supplier_id),
+        lines: order.lines
+          .filter(line => outstanding(line) > 0)
+          .map(line => ({ itemName: line.item_name, quantity: String(outstanding(line)), unitCost: '', lotNumber: '', expiryDate: '' }))
+      }
+      : emptyReceipt(defaultLocation));
+    setView('received');
+    setMessage(null);
+  };
+
+  const updateReceiptLine = (index: number, changes: Partial<ReceiptDraft['lines'][0]>) => {
+    setReceipt(prev => prev && {
+      ...prev,
+      lines: prev.lines.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    });
+  };
+
+  const handleReceive = async () => {
+    if (!receipt) return;
+
+    const lines = receipt.lines
+      .filter(line => line.itemName && Number(line.quantity) > 0)
+      .map(line => ({
+        item_name: line.itemName,
+        quantity: Number(line.quantity),
+        unit_cost: line.unitCost !== '' ? Number(line.unitCost) : undefined,
+        lot_number: line.lotNumber.trim() || undefined,
+        expiry_date: line.lotNumber.trim() ? line.expiryDate || undefined : undefined
+      }));
+    if (!receipt.supplierId || !receipt.deliveryNote.trim() || lines.length === 0) {
+      setMessage({ text: 'Choose the supplier, enter the delivery note number and what arrived.', type: 'error' });
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const { goods_received: posted, purchase_order: order } = await postGoodsReceivedNote({
+        supplier_id: Number(receipt.supplierId),
+        purchase_order_id: receipt.order?.id,
+        location: receipt.location,
+        date: receipt.date,
+        delivery_note: receipt.deliveryNote.trim(),
+        vehicle: receipt.vehicle.trim() || undefined,
+        received_by: receipt.receivedBy.trim() || undefined,
+        note: receipt.note.trim() || undefined,
+        lines
+      });
+
+      setMessage({
+        text: `✅ ${posted.reference}: ${posted.lines.length} product${posted.lines.length === 1 ? '' : 's'} received at ${posted.location}` +
+          (order ? ` against ${order.reference}${order.status === 'received' ? ', which is now complete' : ''}` : ''),
+        type: 'success'
+      });
+      setReceipt(null);
+      await Promise.all([loadReceivedNotes(), loadOrders(statusFilter)]);
+      if (onStockReceived) {
+        onStockReceived();
+      }
+    } catch (error) {
+      console.error('Error posting goods received note:', error);
+      showError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (viewingNote) {
+    return <GoodsReceivedNoteView note={viewingNote} onBack={() => setViewingNote(null)} />;
+  }
+
+  const inputClass = 'w-full p-3 border-2 border-gray-200 text-gray-700 rounded-xl text-base transition-all duration-300 focus:border-blue-500 focus:bg-white focus:shadow-lg';
+  const activeSuppliers = supplierList.filter(supplier => supplier.active);
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h3 className="text-xl sm:text-2xl font-semibold text-gray-800 mb-2">🧾 Purchasing</h3>
+          <p className="text-sm sm:text-base text-gray-600">Goods received against a purchase order are posted as new stock for the day</p>
+        </div>
+        <div className="flex gap-2">
+          {(['orders', 'received', 'suppliers'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                view === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option === 'orders' ? '📦 Purchase Orders' : option === 'received' ? '📥 Goods Received' : '🏭 Suppliers'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {message && (
+        <div className={`mb-6 p-3 rounded-lg border ${
+          message.type === 'success'
+            ? 'border-green-300 bg-green-50 text-green-700'
+            : 'border-red-300 bg-red-50 text-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {view === 'suppliers' && (
+        <>
+          {canManageSuppliers && (
+            <div className="bg-gray-50 p-4 sm:p-6 rounded-2xl mb-6 shadow-inner">
+              <h4 className="text-lg font-semibold text-gray-800 mb-4">
+                {editingSupplierId ? '✏️ Edit Supplier' : '➕ New Supplier'}
+              </h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+                <input
+                  type="text"
+                  value={supplierDraft.code}
+                  onChange={(e) => setSupplierDraft({ ...supplierDraft, code: e.target.value })}
+                  placeholder="Code"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={supplierDraft.name}
+                  onChange={(e) => setSupplierDraft({ ...supplierDraft, name: e.target.value })}
+                  placeholder="Name"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={supplierDraft.contact}
+                  onChange={(e) => setSupplierDraft({ ...supplierDraft, contact: e.target.value })}
+                  placeholder="Contact (optional)"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={supplierDraft.phone}
+                  onChange={(e) => setSupplierDraft({ ...supplierDraft, phone: e.target.value })}
+                  placeholder="Phone (optional)"
+                  className={inputClass}
+                />
+                <input
+                  type="email"
+                  value={supplierDraft.email}
+                  onChange={(e) => setSupplierDraft({ ...supplierDraft, email: e.target.value })}
+                  placeholder="Email (optional)"
+                  className={inputClass}
+                />
+              </div>
+              <div className="mt-4 flex gap-3">
+                <button
+                  onClick={handleSaveSupplier}
+                  disabled={isSaving}
+                  className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+                >
+                  {isSaving ? '💾 Saving...' : editingSupplierId ? '💾 Save Changes' : '➕ Add Supplier'}
+                </button>
+                {editingSupplierId && (
+                  <button
+                    onClick={() => { setEditingSupplierId(null); setSupplierDraft(EMPTY_SUPPLIER); }}
+                    className="px-6 py-2 bg-gray-200 text-gray-700 font-semibold rounded-full hover:bg-gray-300 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {supplierList.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <div className="text-4xl sm:text-5xl mb-4">🏭</div>
+              <p className="text-sm sm:text-base">No suppliers registered yet</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-xl bg-white shadow-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-100 text-left text-gray-600">
+                  <tr>
+                    <th className="p-3">Code</th>
+                    <th className="p-3">Name</th>
+                    <th className="p-3">Contact</th>
+                    <th className="p-3">Phone</th>
+                    <th className="p-3">Email</th>
+                    <th className="p-3">Status</th>
+                    {canManageSuppliers && <th className="p-3"></th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {supplierList.map(supplier => (
+                    <tr key={supplier.id} className={`border-t border-gray-200 ${supplier.active ? 'text-gray-700' : 'text-gray-400'}`}>
+                      <td className="p-3 font-mono">{supplier.code}</td>
+                      <td className="p-3 font-semibold">{supplier.name}</td>
+                      <td className="p-3">{supplier.contact || '—'}</td>
+                      <td className="p-3">{supplier.phone || '—'}</td>
+                      <td className="p-3">{supplier.email || '—'}</td>
+                      <td className="p-3">{supplier.active ? 'Active' : 'Inactive'}</td>
+                      {canManageSuppliers && (
+                        <td className="p-3 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => {
+                              setEditingSupplierId(supplier.id!);
+                              setSupplierDraft({
+                                code: supplier.code,
+                                name: supplier.name,
+                                contact: supplier.contact || '',
+                                phone: supplier.phone || '',
+                                email: supplier.email || ''
+                              });
+                            }}
+                            className="px-3 py-1 text-blue-600 hover:text-blue-800"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleToggleSupplier(supplier)}
+                            className="px-3 py-1 text-gray-600 hover:text-gray-800"
+                          >
+                            {supplier.active ? 'Deactivate' : 'Reactivate'}
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {view === 'received' && (
+        <>
+          {canReceive && !receipt && (
+            <button
+              onClick={() => startReceiving(null)}
+              className="mb-6 px-6 py-2 bg-gradient-to-r from-green-500 to-green-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300"
+            >
+              📥 New Goods Received Note
+            </button>
+          )}
+
+          {canReceive && receipt && (
+            <div className="bg-green-50 border-2 border-green-200 p-4 sm:p-6 rounded-2xl mb-6">
+              <h4 className="text-lg font-semibold text-gray-800 mb-1">
+                📥 Goods Received{receipt.order ? ` against ${receipt.order.reference}` : ''}
+              </h4>
+              <p className="text-sm text-gray-600 mb-4">Each line is posted as new stock on the receipt date</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-4">
+                <select
+                  value={receipt.supplierId}
+                  disabled={!!receipt.order}
+                  onChange={(e) => setReceipt({ ...receipt, supplierId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Supplier...</option>
+                  {(receipt.order ? supplierList : activeSuppliers).map(supplier => (
+                    <option key={supplier.id} value={supplier.id}>{supplier.code} — {supplier.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={receipt.location}
+                  disabled={!!receipt.order}
+                  onChange={(e) => setReceipt({ ...receipt, location: e.target.value })}
+                  className={inputClass}
+                >
+                  {locations.map(location => <option key={location} value={location}>Into: {location}</option>)}
+                </select>
+                <input
+                  type="date"
+                  value={receipt.date}
+                  min={today()}
+                  max={today()}
+                  onChange={(e) => setReceipt({ ...receipt, date: e.target.value })}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={receipt.deliveryNote}
+                  onChange={(e) => setReceipt({ ...receipt, deliveryNote: e.target.value })}
+                  placeholder="Delivery note number"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={receipt.vehicle}
+                  onChange={(e) => setReceipt({ ...receipt, vehicle: e.target.value })}
+                  placeholder="Vehicle (optional)"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={receipt.receivedBy}
+                  onChange={(e) => setReceipt({ ...receipt, receivedBy: e.target.value })}
+                  placeholder="Received by (defaults to you)"
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="space-y-3">
+                {receipt.lines.map((line, index) => {
+                  const ordered = receipt.order?.lines.find(orderLine => orderLine.item_name === line.itemName);
+                  return (
+                    <div key={index} className="grid grid-cols-1 sm:grid-cols-[1fr_8rem_8rem_8rem_10rem_auto] gap-3 items-center">
+                      {receipt.order ? (
+                        <div className="p-3 text-gray-800 font-semibold">
+                          {line.itemName}
+                          {ordered && <span className="ml-2 text-sm font-normal text-gray-500">{outstanding(ordered)} outstanding</span>}
+                        </div>
+                      ) : (
+                        <select
+                          value={line.itemName}
+                          onChange={(e) => updateReceiptLine(index, { itemName: e.target.value })}
+                          className={inputClass}
+                        >
+                          <option value="">Product...</option>
+                          {catalog.map(product => (
+                            <option key={product.id} value={product.name}>{product.code} — {product.name}</option>
+                          ))}
+                        </select>
+                      )}
+                      <input
+                        type="number"
+                        min="0"
+                        max={ordered ? outstanding(ordered) : undefined}
+                        step="any"
+                        value={line.quantity}
+                        onChange={(e) => updateReceiptLine(index, { quantity: e.target.value })}
+                        placeholder="Quantity"
+                        className={inputClass}
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={line.unitCost}
+                        onChange={(e) => updateReceiptLine(index, { unitCost: e.target.value })}
+                        placeholder="Unit cost"
+                        className={inputClass}
+                      />
+                      <input
+                        type="text"
+                        value={line.lotNumber}
+                        onChange={(e) => updateReceiptLine(index, { lotNumber: e.target.value })}
+                        placeholder="Lot"
+                        className={inputClass}
+                      />
+                      <input
+                        type="date"
+                        value={line.expiryDate}
+                        min={receipt.date}
+                        disabled={!line.lotNumber.trim()}
+                        onChange={(e) => updateReceiptLine(index, { expiryDate: e.target.value })}
+                        title="Expiry date (optional)"
+                        className={`${inputClass} disabled:opacity-50`}
+                      />
+                      <button
+                        onClick={() => setReceipt({ ...receipt, lines: receipt.lines.filter((_, i) => i !== index) })}
+                        disabled={receipt.lines.length === 1}
+                        className="px-4 text-red-600 hover:text-red-800 disabled:opacity-30"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <input
+                type="text"
+                value={receipt.note}
+                onChange={(e) => setReceipt({ ...receipt, note: e.target.value })}
+                placeholder="Note (optional)"
+                className={`mt-3 ${inputClass}`}
+              />
+
+              <div className="mt-4 flex gap-3">
+                {!receipt.order && (
+                  <button
+                    onClick={() => setReceipt({ ...receipt, lines: [...receipt.lines, { itemName: '', quantity: '', unitCost: '', lotNumber: '', expiryDate: '' }] })}
+                    className="px-6 py-2 bg-gray-200 text-gray-700 font-semibold rounded-full hover:bg-gray-300 transition-colors"
+                  >
+                    ➕ Add Line
+                  </button>
+                )}
+                <button
+                  onClick={handleReceive}
+                  disabled={isSaving}
+                  className="px-6 py-2 bg-gradient-to-r from-green-500 to-green-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+                >
+                  {isSaving ? '📥 Posting...' : '📥 Post Goods Received Note'}
+                </button>
+                <button
+                  onClick={() => setReceipt(null)}
+                  className="px-6 py-2 bg-gray-200 text-gray-700 font-semibold rounded-full hover:bg-gray-300 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {receivedNotes.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <div className="text-4xl sm:text-5xl mb-4">📥</div>
+              <p className="text-sm sm:text-base">No goods received yet</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-xl bg-white shadow-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-100 text-left text-gray-600">
+                  <tr>
+                    <th className="p-3">Date</th>
+                    <th className="p-3">Reference</th>
+                    <th className="p-3">Supplier</th>
+                    <th className="p-3">Delivery Note</th>
+                    <th className="p-3">Vehicle</th>
+                    <th className="p-3">Location</th>
+                    <th className="p-3">Products</th>
+                    <th className="p-3">Received By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {receivedNotes.map(note => (
+                    <tr
+                      key={note.id}
+                      onClick={() => setViewingNote(note)}
+                      className="border-t border-gray-200 text-gray-700 hover:bg-blue-50 cursor-pointer"
+                    >
+                      <td className="p-3">{note.date}</td>
+                      <td className="p-3 font-mono">{note.reference}</td>
+                      <td className="p-3 font-semibold">{note.supplier_name}</td>
+                      <td className="p-3 font-mono">{note.delivery_note}</td>
+                      <td className="p-3">{note.vehicle || '—'}</td>
+                      <td className="p-3">{note.location}</td>
+                      <td className="p-3">{note.lines.map(line => `${line.item_name} × ${line.quantity}`).join(', ')}</td>
+                      <td className="p-3">{note.received_by}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {view === 'orders' && (
+        <>
+          {canOrder && (
+            <div className="bg-gray-50 p-4 sm:p-6 rounded-2xl mb-6 shadow-inner">
+              <h4 className="text-lg font-semibold text-gray-800 mb-4">➕ New Purchase Order</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                <select
+                  value={orderDraft.supplierId}
+                  onChange={(e) => setOrderDraft({ ...orderDraft, supplierId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Supplier...</option>
+                  {activeSuppliers.map(supplier => (
+                    <option key={supplier.id} value={supplier.id}>{supplier.code} — {supplier.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={orderDraft.location}
+                  onChange={(e) => setOrderDraft({ ...orderDraft, location: e.target.value })}
+                  className={inputClass}
+                >
+                  {locations.map(location => <option key={location} value={location}>Deliver to: {location}</option>)}
+                </select>
+                <input
+                  type="date"
+                  value={orderDraft.expectedDate}
+                  min={today()}
+                  onChange={(e) => setOrderDraft({ ...orderDraft, expectedDate: e.target.value })}
+                  title="Expected delivery date"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={orderDraft.reference}
+                  onChange={(e) => setOrderDraft({ ...orderDraft, reference: e.target.value })}
+                  placeholder="Reference (optional)"
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="mt-3 space-y-3">
+                {orderDraft.lines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-1 sm:grid-cols-[1fr_10rem_auto] gap-3">
+                    <select
+                      value={line.itemName}
+                      onChange={(e) => updateOrderLine(index, { itemName: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Product...</option>
+                      {catalog.map(product => (
+                        <option key={product.id} value={product.name}>{product.code} — {product.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={line.quantity}
+                      onChange={(e) => updateOrderLine(index, { quantity: e.target.value })}
+                      placeholder="Quantity"
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={() => setOrderDraft(prev => ({ ...prev, lines: prev.lines.filter((_, i) => i !== index) }))}
+                      disabled={orderDraft.lines.length === 1}
+                      className="px-4 text-red-600 hover:text-red-800 disabled:opacity-30"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <input
+                type="text"
+                value={orderDraft.note}
+                onChange={(e) => setOrderDraft({ ...orderDraft, note: e.target.value })}
+                placeholder="Note (optional)"
+                className={`mt-3 ${inputClass}`}
+              />
+
+              <div className="mt-4 flex gap-3">
+                <button
+                  onClick={() => setOrderDraft(prev => ({ ...prev, lines: [...prev.lines, { itemName: '', quantity: '' }] }))}
+                  className="px-6 py-2 bg-gray-200 text-gray-700 font-semibold rounded-full hover:bg-gray-300 transition-colors"
+                >
+                  ➕ Add Line
+                </button>
+                <button
+                  onClick={handleCreateOrder}
+                  disabled={isSaving}
+                  className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+                >
+                  {isSaving ? '🧾 Saving...' : '🧾 Raise Order'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end mb-3">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as PurchaseOrderStatus | '')}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="open">Open orders</option>
+              <option value="received">Received</option>
+              <option value="cancelled">Cancelled</option>
+              <option value="">All orders</option>
+            </select>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-12 text-gray-500">Loading purchase orders...</div>
+          ) : orders.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <div className="text-4xl sm:text-5xl mb-4">🧾</div>
+              <p className="text-sm sm:text-base">No purchase orders here</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {orders.map(order => (
+                <div key={order.id} className="bg-white border border-gray-200 rounded-xl shadow-lg p-4">
+                  <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 mb-3">
+                    <div>
+                      <span className="font-mono font-semibold text-gray-800">{order.reference}</span>
+                      <span className={`ml-3 px-2 py-1 rounded-full text-xs font-semibold ${STATUS_BADGES[order.status]}`}>
+                        {order.status}
+                      </span>
+                      <p className="text-sm text-gray-600">
+                        {order.supplier_name} → {order.location} · ordered {order.order_date}
+                        {order.expected_date && ` · expected ${order.expected_date}`}
+                        {order.note && ` · ${order.note}`}
+                      </p>
+                    </div>
+                    {order.status === 'open' && (
+                      <div className="flex gap-2">
+                        {canReceive && (
+                          <button
+                            onClick={() => startReceiving(order)}
+                            className="px-4 py-2 bg-green-500 text-white text-sm rounded-lg hover:bg-green-600 transition-colors"
+                          >
+                            📥 Receive
+                          </button>
+                        )}
+                        {canOrder && (
+                          <button
+                            onClick={() => handleCancelOrder(order)}
+                            className="px-4 py-2 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-gray-500">
+                      <tr>
+                        <th className="py-1">Product</th>
+                        <th className="py-1 text-right">Ordered</th>
+                        <th className="py-1 text-right">Received</th>
+                        <th className="py-1 text-right">Outstanding</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {order.lines.map(line => (
+                        <tr key={line.item_name} className="border-t border-gray-100 text-gray-700">
+                          <td className="py-1">{line.item_name}</td>
+                          <td className="py-1 text-right">{line.quantity}</td>
+                          <td className="py-1 text-right">{line.received}</td>
+                          <td className={`py-1 text-right font-semibold ${outstanding(line) > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                            {outstanding(line)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
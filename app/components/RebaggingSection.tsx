@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ApiError, fetchLocations, fetchProducts, fetchRebagging, postRebagging } from '../lib/inventoryApi';
+import { today } from '../lib/validation';
+import { Product, RebaggingConversion } from '../types/inventory';
+
+interface RebaggingSectionProps {
+  canPost: boolean;
+  onRebaggingPosted?: () => void;
+}
+
+interface RebaggingDraft {
+  sourceProduct: string;
+  targetProduct: string;
+  location: string;
+  inputQuantity: string;
+  outputQuantity: string;
+  date: string;
+  reference: string;
+  note: string;
+}
+
+const emptyDraft = (location = ''): RebaggingDraft => ({
+  sourceProduct: '',
+  targetProduct: '',
+  location,
+  inputQuantity: '',
+  outputQuantity: '',
+  date: today(),
+  reference: '',
+  note: ''
+});
+
+const yieldPercentage = (conversion: Pick<RebaggingConversion, 'input_quantity' | 'output_quantity'>) =>
+  (conversion.output_quantity / conversion.input_quantity) * 100;
+
+export default function RebaggingSection({ canPost, onRebaggingPosted }: RebaggingSectionProps) {
+  const [conversions, setConversions] = useState<RebaggingConversion[]>([]);
+  const [catalog, setCatalog] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<string[]>([]);
+  const [draft, setDraft] = useState<RebaggingDraft>(emptyDraft());
+  const [locationFilter, setLocationFilter] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPosting, setIsPosting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    fetchProducts({ activeOnly: true })
+      .then(setCatalog)
+      .catch(error => console.error('Error loading product catalog:', error));
+
+    fetchLocations()
+      .then(list => {
+        setLocations(list.locations);
+        setDraft(prev => ({ ...prev, location: list.default }));
+      })
+      .catch(error => console.error('Error loading locations:', error));
+  }, []);
+
+  useEffect(() => {
+    loadConversions(locationFilter);
+  }, [locationFilter]);
+
+  const loadConversions = async (location: string) => {
+    setIsLoading(true);
+    try {
+      setConversions(await fetchRebagging({ location }));
+    } catch (error) {
+      console.error('Error loading rebagging:', error);
+      setConversions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const draftLoss = draft.inputQuantity && draft.outputQuantity
+    ? Number(draft.inputQuantity) - Number(draft.outputQuantity)
+    : null;
+
+  const handlePost = async () => {
+    if (!draft.sourceProduct || !draft.targetProduct || !draft.inputQuantity || !draft.outputQuantity) {
+      setMessage({ text: 'Choose both products and enter what went in and what came out.', type: 'error' });
+      return;
+    }
+
+    setIsPosting(true);
+    setMessage(null);
+
+    try {
+      const posted = await postRebagging({
+        source_product: draft.sourceProduct,
+        target_product: draft.targetProduct,
+        location: draft.location,
+        input_quantity: Number(draft.inputQuantity),
+        output_quantity: Number(draft.outputQuantity),
+        date: draft.date,
+        reference: draft.reference.trim() || undefined,
+        note: draft.note.trim() || undefined
+      });
+
+      setMessage({
+        text: `✅ ${posted.reference}: ${posted.input_quantity} of ${posted.source_product} rebagged into ` +
+          `${posted.output_quantity} of ${posted.target_product} (${posted.yield_loss} lost)`,
+        type: 'success'
+      });
+      setDraft(emptyDraft(draft.location));
+      await loadConversions(locationFilter);
+      if (onRebaggingPosted) {
+        onRebaggingPosted();
+      }
+    } catch (error) {
+      console.error('Error posting rebagging:', error);
+      const details = error instanceof ApiError && error.errors.length > 0
+        ? `: ${error.errors.map(e => e.message).join('; ')}`
+        : '';
+      setMessage({ text: `❌ ${error instanceof Error ? error.message : 'Rebagging failed'}${details}`, type: 'error' });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const inputClass = 'w-full p-3 border-2 border-gray-200 text-gray-700 rounded-xl text-base transition-all duration-300 focus:border-blue-500 focus:bg-white focus:shadow-lg';
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8">
+      <div className="mb-6">
+        <h3 className="text-xl sm:text-2xl font-semibold text-gray-800 mb-2">🔁 Rebagging</h3>
+        <p className="text-sm sm:text-base text-gray-600">
+          Rebagging takes loose or damaged stock off one product and puts the bags it made on another
+        </p>
+      </div>
+
+      {canPost && (
+        <div className="bg-gray-50 p-4 sm:p-6 rounded-2xl mb-6 shadow-inner">
+          <h4 className="text-lg font-semibold text-gray-800 mb-4">➕ New Rebagging</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            <select
+              value={draft.sourceProduct}
+              onChange={(e) => setDraft({ ...draft, sourceProduct: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Rebag from...</option>
+              {catalog.map(product => (
+                <option key={product.id} value={product.name}>{product.code} — {product.name}</option>
+              ))}
+            </select>
+            <select
+              value={draft.targetProduct}
+              onChange={(e) => setDraft({ ...draft, targetProduct: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Rebag into...</option>
+              {catalog
+                .filter(product => product.name !== draft.sourceProduct)
+                .map(product => (
+                  <option key={product.id} value={product.name}>{product.code} — {product.name}</option>
+                ))}
+            </select>
+            <select
+              value={draft.location}
+              onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+              className={inputClass}
+            >
+              {locations.map(location => <option key={location} value={location}>{location}</option>)}
+            </select>
+            <input
+              type="date"
+              value={draft.date}
+              min={today()}
+              max={today()}
+              onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={draft.inputQuantity}
+              onChange={(e) => setDraft({ ...draft, inputQuantity: e.target.value })}
+              placeholder="Input quantity"
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={draft.outputQuantity}
+              onChange={(e) => setDraft({ ...draft, outputQuantity: e.target.value })}
+              placeholder="Output quantity"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={draft.reference}
+              onChange={(e) => setDraft({ ...draft, reference: e.target.value })}
+              placeholder="Reference (optional)"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={draft.note}
+              onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+              placeholder="Note (optional)"
+              className={inputClass}
+            />
+          </div>
+          {draftLoss !== null && (
+            <p className={`mt-3 text-sm ${draftLoss < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+              {draftLoss < 0
+                ? 'More cannot come out than went in'
+                : `Yield loss: ${draftLoss} (${yieldPercentage({
+                  input_quantity: Number(draft.inputQuantity),
+                  output_quantity: Number(draft.outputQuantity)
+                }).toFixed(1)}% yield)`}
+            </p>
+          )}
+          <button
+            onClick={handlePost}
+            disabled={isPosting}
+            className="mt-4 px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+          >
+            {isPosting ? '🔁 Posting...' : '🔁 Post Rebagging'}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div className={`mb-6 p-3 rounded-lg border ${
+          message.type === 'success'
+            ? 'border-green-300 bg-green-50 text-green-700'
+            : 'border-red-300 bg-red-50 text-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex justify-end mb-3">
+        <select
+          value={locationFilter}
+          onChange={(e) => setLocationFilter(e.target.value)}
+          className="border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All locations</option>
+          {locations.map(location => <option key={location} value={location}>{location}</option>)}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-gray-500">Loading rebagging...</div>
+      ) : conversions.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <div className="text-4xl sm:text-5xl mb-4">🔁</div>
+          <p className="text-sm sm:text-base">No rebagging posted yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-xl bg-white shadow-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100 text-left text-gray-600">
+              <tr>
+                <th className="p-3">Date</th>
+                <th className="p-3">Reference</th>
+                <th className="p-3">Location</th>
+                <th className="p-3">From</th>
+                <th className="p-3">Into</th>
+                <th className="p-3 text-right">Input</th>
+                <th className="p-3 text-right">Output</th>
+                <th className="p-3 text-right">Loss</th>
+                <th className="p-3 text-right">Yield</th>
+                <th className="p-3">Posted By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conversions.map(conversion => (
+                <tr key={conversion.id} className="border-t border-gray-200 text-gray-700">
+                  <td className="p-3">{conversion.date}</td>
+                  <td className="p-3 font-mono">{conversion.reference}</td>
+                  <td className="p-3">{conversion.location}</td>
+                  <td className="p-3 font-semibold">{conversion.source_product}</td>
+                  <td className="p-3 font-semibold">{conversion.target_product}</td>
+                  <td className="p-3 text-right">{conversion.input_quantity}</td>
+                  <td className="p-3 text-right">{conversion.output_quantity}</td>
+                  <td className={`p-3 text-right font-semibold ${conversion.yield_loss > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {conversion.yield_loss}
+                  </td>
+                  <td className="p-3 text-right">{yieldPercentage(conversion).toFixed(1)}%</td>
+                  <td className="p-3" title={conversion.note || undefined}>{conversion.created_by}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,24 @@
 
 import { useState, useEffect, useCallback } from 'react';
 
-import { InventoryRecord } from '../types/inventory';
+import {
+  InventoryRecord, InventoryTransaction, Product, ProductionOrder, ProductionReturn, PurchaseOrder, ReasonCode,
+  RebaggingConversion
+} from '../types/inventory';
+import {
+  fetchLocations, fetchProductionOrders, fetchProductionReturns, fetchProducts, fetchPurchaseOrders, fetchReasonCodes,
+  fetchRebagging, fetchTransactions
+} from '../lib/inventoryApi';
+import {
+  DEFAULT_WINDOW_DAYS, exponentialSmoothing, FORECAST_METHODS, ForecastMethod, dailyUsageSeries, formatDaysOfCover,
+  movingAverage, projectStockout
+} from '../lib/forecasting';
+import {
+  COSTING_METHODS, CostingMethod, costByProduct, formatCost, stockValue, unitCostOf, Valuation, valueInventory
+} from '../lib/costing';
+import { daysToExpiry, LotBalance, lotBalances } from '../lib/lots';
+import { reorderLevel, STOCK_STATUS_BADGES, StockStatus, stockStatus, suggestedOrderQuantity } from '../lib/stockLevels';
+import { ALL_LOCATIONS, consolidateRecords, currentStockByLocation, LocationStock } from '../lib/consolidation';
 
 interface ReportsSectionProps {
   records: InventoryRecord[];
@@ -19,6 +36,8 @@ interface ReportData {
     date: string;
     total_in: number;
     total_out: number;
+    total_transfer_in: number;
+    total_transfer_out: number;
     net_change: number;
     product_count: number;
     daily_activities: Array<{
@@ -27,7 +46,11 @@ interface ReportData {
       issued_production: number;
       returns: number;
       rebagging: number;
+      rebagging_out: number;
       damaged: number;
+      transfer_in: number;
+      transfer_out: number;
+      adjustment: number;
       opening_stock: number;
       closing_stock: number;
       net_change: number;
@@ -39,6 +62,9 @@ interface ReportData {
     closing_stock: number;
     net_change: number;
     movement_type: string;
+    unit_cost: number;
+    stock_value: number; // closing stock at its cost at the end of the period
+    issue_cost: number; // what was issued to production in the period cost
   }>;
   productionIssues: Array<{
     item_name: string;
@@ -53,6 +79,8 @@ interface ReportData {
     total_rebagging: number;
     return_rate: number;
     last_activity: string;
+    // Returns grouped by the production order they came back from; null collects the rest
+    by_order: Array<{ reference: string | null; quantity: number }>;
   }>;
   damagedStock: Array<{
     item_name: string;
@@ -60,6 +88,9 @@ interface ReportData {
     damage_percentage: number;
     last_damage_date: string;
     total_stock_in: number;
+    damage_cost: number; // what the damage lines of the period cost
+    // Damage lines grouped by reason code; null collects damage recorded without one
+    by_reason: Array<{ reason_code: string | null; quantity: number }>;
   }>;
   stockHistory: Array<{
     item_name: string;
@@ -80,6 +111,9 @@ interface ReportData {
       total_rebagging: number;
       total_damaged: number;
       net_change: number;
+      stock_value: number;
+      issue_cost: number;
+      damage_cost: number;
     };
     product_movements: Array<{
       item_name: string;
@@ -94,6 +128,9 @@ interface ReportData {
       movement_percentage: number;
       activity_level: 'high' | 'medium' | 'low';
       days_active: number;
+      stock_value: number;
+      issue_cost: number;
+      damage_cost: number;
     }>;
     daily_summary: Array<{
       date: string;
@@ -117,6 +154,87 @@ interface ReportData {
       stock_turnover: number;
     };
   };
+  locationStock: LocationStock[];
+  lowStock: Array<{
+    item_name: string;
+    unit: string;
+    current_stock: number;
+    min_stock: number | null;
+    reorder_point: number | null;
+    avg_daily_usage: number;
+    days_of_cover: number | null; // null when nothing is being used
+    suggested_order: number;
+    status: StockStatus;
+  }>;
+  projectedStockout: Array<{
+    item_name: string;
+    current_stock: number;
+    moving_average: number;
+    exponential_smoothing: number;
+    days_of_cover: number | null; // at the chosen method's usage; null when nothing is being used
+    stockout_date: string | null;
+  }>;
+  openPurchaseOrders: Array<{
+    reference: string;
+    supplier_name: string;
+    location: string;
+    order_date: string;
+    expected_date: string | null;
+    item_name: string;
+    ordered: number;
+    received: number;
+    outstanding: number;
+    overdue: boolean;
+  }>;
+  productionConsumption: {
+    orders: Array<{
+      reference: string;
+      finished_product: string;
+      location: string;
+      order_date: string;
+      status: ProductionOrder['status'];
+      units: number; // produced once completed, planned until then
+      item_name: string;
+      expected: number;
+      actual: number; // issued less returned
+      variance: number;
+    }>;
+    products: Array<{
+      item_name: string;
+      expected: number;
+      actual: number;
+      variance: number;
+      variance_percentage: number | null; // null when nothing was expected
+      without_order: number; // issued to production without naming a production order
+    }>;
+  };
+  rebaggingYield: Array<{
+    source_product: string;
+    target_product: string;
+    conversions: number;
+    input: number;
+    output: number;
+    yield_loss: number;
+    yield_percentage: number; // output as a share of input
+  }>;
+  nearExpiry: Array<{
+    item_name: string;
+    location: string;
+    lot_number: string;
+    received_on: string;
+    expiry_date: string;
+    days_left: number; // negative once expired
+    balance: number;
+  }>;
+  shortfalls: Array<{
+    item_name: string;
+    location: string;
+    date: string;
+    available: number;
+    outflows: number;
+    shortfall: number;
+    reason: string | null;
+  }>;
 }
 
 export default function ReportsSection({ records }: ReportsSectionProps) {
@@ -129,29 +247,144 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
     endDate: new Date().toISOString().split('T')[0] // today
   });
   const [isGenerating, setIsGenerating] = useState(false);
+  const [locations, setLocations] = useState<string[]>([]);
+  const [locationFilter, setLocationFilter] = useState(ALL_LOCATIONS);
+  const [transactions, setTransactions] = useState<InventoryTransaction[]>([]);
+  const [returns, setReturns] = useState<ProductionReturn[]>([]);
+  const [rebaggings, setRebaggings] = useState<RebaggingConversion[]>([]);
+  const [reasonCodes, setReasonCodes] = useState<ReasonCode[]>([]);
+  const [catalog, setCatalog] = useState<Product[]>([]);
+  const [openOrders, setOpenOrders] = useState<PurchaseOrder[]>([]);
+  const [productionOrders, setProductionOrders] = useState<ProductionOrder[]>([]);
+  const [coverDays, setCoverDays] = useState(14);
+  const [expiryWindow, setExpiryWindow] = useState(30);
+  const [forecastMethod, setForecastMethod] = useState<ForecastMethod>('exponential_smoothing');
+  const [forecastWindow, setForecastWindow] = useState(DEFAULT_WINDOW_DAYS);
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>('weighted_average');
+
+  useEffect(() => {
+    fetchLocations()
+      .then(list => setLocations(list.locations))
+      .catch(error => console.error('Error loading locations:', error));
+
+    fetchReasonCodes()
+      .then(setReasonCodes)
+      .catch(error => console.error('Error loading reason codes:', error));
+
+    fetchProducts({ activeOnly: true })
+      .then(setCatalog)
+      .catch(error => console.error('Error loading product catalog:', error));
+
+    fetchPurchaseOrders({ status: 'open' })
+      .then(setOpenOrders)
+      .catch(error => console.error('Error loading purchase orders:', error));
+
+    fetchProductionOrders()
+      .then(setProductionOrders)
+      .catch(error => console.error('Error loading production orders:', error));
+  }, []);
+
+  // Damage reasons live on the transaction lines, returns and rebagging on their own documents,
+  // all reloaded whenever the records change
+  useEffect(() => {
+    fetchTransactions()
+      .then(setTransactions)
+      .catch(error => console.error('Error loading transactions:', error));
+
+    fetchProductionReturns()
+      .then(setReturns)
+      .catch(error => console.error('Error loading returns:', error));
+
+    fetchRebagging()
+      .then(setRebaggings)
+      .catch(error => console.error('Error loading rebagging:', error));
+  }, [records]);
+
+  const reasonLabel = (code: string | null) =>
+    code === null ? 'Unspecified' : reasonCodes.find(reason => reason.code === code)?.label || code;
+
+  // Configured reasons first, then any older codes still found on the lines, then damage without one
+  const damageReasonColumns = (data: ReportData['damagedStock']) => {
+    const found = data.flatMap(item => item.by_reason.map(entry => entry.reason_code));
+    const codes: (string | null)[] = Array.from(new Set([
+      ...reasonCodes.map(reason => reason.code),
+      ...found.filter((code): code is string => code !== null)
+    ]));
+    return found.includes(null) ? [...codes, null] : codes;
+  };
+
+  // Locations that only appear in old records are still offered
+  const locationOptions = Array.from(new Set([...locations, ...records.map(record => record.location)]));
+  const stockColumns = locationFilter === ALL_LOCATIONS ? locationOptions : [locationFilter];
 
   const generateReports = useCallback(async () => {
     setIsGenerating(true);
     
     try {
+      // Every report runs on one location's ledger, or on all of them added up per product and day.
+      // Consolidation happens before the date filter so stock held at quiet locations is carried in.
+      const scopedRecords = locationFilter === ALL_LOCATIONS
+        ? consolidateRecords(records)
+        : records.filter(record => record.location === locationFilter);
+
       // Filter records by date range
-      const filteredRecords = records.filter(record => {
+      const filteredRecords = scopedRecords.filter(record => {
         const recordDate = new Date(record.date);
         const startDate = new Date(dateRange.startDate);
         const endDate = new Date(dateRange.endDate);
         return recordDate >= startDate && recordDate <= endDate;
       });
 
+      const productionIssues = generateProductionReport(filteredRecords);
+      const recordsToEnd = records.filter(record => record.date <= dateRange.endDate &&
+        (locationFilter === ALL_LOCATIONS || record.location === locationFilter));
+      const locationStock = currentStockByLocation(recordsToEnd);
+      const inScope = (item: { date: string; location: string }) =>
+        item.date >= dateRange.startDate && item.date <= dateRange.endDate &&
+        (locationFilter === ALL_LOCATIONS || item.location === locationFilter);
+      const orderReferences = new Set(productionOrders.map(order => order.reference));
+      // Each product is costed as one pool, so the costing runs over every location's lines up to the
+      // end of the period; the period's lines then pick out what was issued or damaged in scope
+      const valuation = valueInventory(transactions, costingMethod, dateRange.endDate);
+      const periodLines = transactions.filter(inScope);
+
       // Generate all report data
       const data: ReportData = {
         outOfStockProducts: generateOutOfStockReport(filteredRecords),
         stockMovements: generateStockMovementReport(filteredRecords),
-        stockBalances: generateStockBalanceReport(filteredRecords),
-        productionIssues: generateProductionReport(filteredRecords),
-        returnsRebagging: generateReturnsRebaggingReport(filteredRecords),
-        damagedStock: generateDamagedStockReport(filteredRecords),
+        stockBalances: generateStockBalanceReport(filteredRecords, valuation, periodLines),
+        productionIssues,
+        returnsRebagging: generateReturnsRebaggingReport(filteredRecords, returns.filter(inScope)),
+        damagedStock: generateDamagedStockReport(
+          filteredRecords,
+          periodLines.filter(transaction => transaction.type === 'damage'),
+          valuation
+        ),
         stockHistory: generateStockHistoryReport(filteredRecords),
-        weeklyReport: generateWeeklyReport(filteredRecords)
+        weeklyReport: generateWeeklyReport(filteredRecords, valuation, periodLines),
+        locationStock,
+        lowStock: generateLowStockReport(locationStock, productionIssues, catalog, coverDays),
+        openPurchaseOrders: generateOpenPurchaseOrderReport(
+          openOrders.filter(order => locationFilter === ALL_LOCATIONS || order.location === locationFilter)
+        ),
+        productionConsumption: generateProductionConsumptionReport(
+          productionOrders.filter(order => order.status !== 'cancelled' && inScope({ date: order.order_date, location: order.location })),
+          transactions.filter(transaction => transaction.type === 'issue' && inScope(transaction) &&
+            !(transaction.reference && orderReferences.has(transaction.reference)))
+        ),
+        rebaggingYield: generateRebaggingYieldReport(rebaggings.filter(inScope)),
+        nearExpiry: generateNearExpiryReport(
+          lotBalances(transactions, dateRange.endDate)
+            .filter(lot => locationFilter === ALL_LOCATIONS || lot.location === locationFilter),
+          dateRange.endDate,
+          expiryWindow
+        ),
+        projectedStockout: generateProjectedStockoutReport(recordsToEnd, locationStock, dateRange.endDate, forecastMethod, forecastWindow),
+        // Shortfalls belong to one location's ledger, so they are never read off consolidated totals
+        shortfalls: generateShortfallReport(
+          records.filter(record => record.date >= dateRange.startDate && record.date <= dateRange.endDate &&
+            (locationFilter === ALL_LOCATIONS || record.location === locationFilter))
+        )
       };
 
       setReportData(data);
@@ -162,7 +395,10 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
     } finally {
       setIsGenerating(false);
     }
-  }, [records, dateRange]);
+  }, [
+    records, dateRange, locationFilter, transactions, returns, rebaggings, catalog, coverDays, forecastMethod, forecastWindow,
+    openOrders, productionOrders, costingMethod, expiryWindow
+  ]);
 
   useEffect(() => {
     if (records && records.length > 0) {
@@ -199,7 +435,7 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
           days_since_stock: daysSinceStock
         };
       })
-      .filter(item => item.last_stock === 0)
+      .filter(item => item.last_stock <= 0)
       .sort((a, b) => b.days_since_stock - a.days_since_stock);
   };
 
@@ -215,14 +451,17 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
 
     return Array.from(dateGroups.entries())
       .map(([date, records]) => {
-        const totalIn = records.reduce((sum, r) => sum + r.new_stock + r.returns + r.rebagging, 0);
-        const totalOut = records.reduce((sum, r) => sum + r.issued_production + r.damaged, 0);
+        // Stock-take adjustments are signed: a surplus counts as stock in, a shortage as stock out
+        const totalIn = records.reduce((sum, r) => sum + r.new_stock + r.returns + r.rebagging + r.transfer_in + Math.max(r.adjustment, 0), 0);
+        const totalOut = records.reduce((sum, r) =>
+          sum + r.issued_production + r.rebagging_out + r.damaged + r.transfer_out + Math.max(-r.adjustment, 0), 0);
         const netChange = totalIn - totalOut;
 
         // Create detailed daily activities
         const dailyActivities = records.map(record => {
-          const stockIn = record.new_stock + record.returns + record.rebagging;
-          const stockOut = record.issued_production + record.damaged;
+          const stockIn = record.new_stock + record.returns + record.rebagging + record.transfer_in + Math.max(record.adjustment, 0);
+          const stockOut = record.issued_production + record.rebagging_out + record.damaged + record.transfer_out +
+            Math.max(-record.adjustment, 0);
           const recordNetChange = stockIn - stockOut;
 
           return {
@@ -231,7 +470,11 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
             issued_production: record.issued_production,
             returns: record.returns,
             rebagging: record.rebagging,
+            rebagging_out: record.rebagging_out,
             damaged: record.damaged,
+            transfer_in: record.transfer_in,
+            transfer_out: record.transfer_out,
+            adjustment: record.adjustment,
             opening_stock: record.opening_stock,
             closing_stock: record.closing_stock,
             net_change: recordNetChange
@@ -242,6 +485,8 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
           date,
           total_in: totalIn,
           total_out: totalOut,
+          total_transfer_in: records.reduce((sum, r) => sum + r.transfer_in, 0),
+          total_transfer_out: records.reduce((sum, r) => sum + r.transfer_out, 0),
           net_change: netChange,
           product_count: records.length,
           daily_activities: dailyActivities
@@ -250,7 +495,8 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
   };
 
-  const generateStockBalanceReport = (filteredRecords: InventoryRecord[]) => {
+  const generateStockBalanceReport = (filteredRecords: InventoryRecord[], valuation: Valuation, periodLines: InventoryTransaction[]) => {
+    const issueCosts = costByProduct(valuation, periodLines, 'issue');
     const productGroups = new Map<string, InventoryRecord[]>();
     
     filteredRecords.forEach(record => {
@@ -276,7 +522,10 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
           opening_stock: firstRecord.opening_stock,
           closing_stock: lastRecord.closing_stock,
           net_change: netChange,
-          movement_type: movementType
+          movement_type: movementType,
+          unit_cost: unitCostOf(valuation, itemName),
+          stock_value: stockValue(valuation, itemName, lastRecord.closing_stock),
+          issue_cost: issueCosts.get(itemName) || 0
         };
       })
       .sort((a, b) => Math.abs(b.net_change) - Math.abs(a.net_change));
@@ -311,7 +560,7 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
       .sort((a, b) => b.total_issued - a.total_issued);
   };
 
-  const generateReturnsRebaggingReport = (filteredRecords: InventoryRecord[]) => {
+  const generateReturnsRebaggingReport = (filteredRecords: InventoryRecord[], productionReturns: ProductionReturn[]) => {
     const productGroups = new Map<string, InventoryRecord[]>();
     
     filteredRecords.forEach(record => {
@@ -331,19 +580,36 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
         const sortedRecords = records.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
         const lastRecord = sortedRecords[0];
 
+        // Returns from the daily form, or against an issue that named no order, make up the rest
+        const byOrder = new Map<string, number>();
+        productionReturns
+          .filter(entry => entry.item_name === itemName && entry.production_order_reference)
+          .forEach(entry => {
+            byOrder.set(entry.production_order_reference!, (byOrder.get(entry.production_order_reference!) || 0) + entry.quantity);
+          });
+        const againstOrders = Array.from(byOrder.values()).reduce((sum, quantity) => sum + quantity, 0);
+        const byOrderEntries: Array<{ reference: string | null; quantity: number }> = Array.from(byOrder.entries())
+          .map(([reference, quantity]) => ({ reference, quantity }))
+          .sort((a, b) => b.quantity - a.quantity);
+        if (totalReturns - againstOrders > 0) {
+          byOrderEntries.push({ reference: null, quantity: totalReturns - againstOrders });
+        }
+
         return {
           item_name: itemName,
           total_returns: totalReturns,
           total_rebagging: totalRebagging,
           return_rate: returnRate,
-          last_activity: lastRecord.date
+          last_activity: lastRecord.date,
+          by_order: byOrderEntries
         };
       })
       .filter(item => item.total_returns > 0 || item.total_rebagging > 0)
       .sort((a, b) => (b.total_returns + b.total_rebagging) - (a.total_returns + a.total_rebagging));
   };
 
-  const generateDamagedStockReport = (filteredRecords: InventoryRecord[]) => {
+  const generateDamagedStockReport = (filteredRecords: InventoryRecord[], damageLines: InventoryTransaction[], valuation: Valuation) => {
+    const damageCosts = costByProduct(valuation, damageLines, 'damage');
     const productGroups = new Map<string, InventoryRecord[]>();
     
     filteredRecords.forEach(record => {
@@ -362,18 +628,233 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
         const sortedRecords = records.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
         const lastRecord = sortedRecords[0];
 
+        // Whatever the coded lines do not account for, such as days recorded before reasons
+        // were kept, is reported as unspecified
+        const byReason = new Map<string | null, number>();
+        damageLines
+          .filter(line => line.item_name === itemName && line.reason_code)
+          .forEach(line => byReason.set(line.reason_code, (byReason.get(line.reason_code) || 0) + line.quantity));
+        const coded = Array.from(byReason.values()).reduce((sum, quantity) => sum + quantity, 0);
+        if (totalDamaged - coded !== 0) byReason.set(null, totalDamaged - coded);
+
         return {
           item_name: itemName,
           total_damaged: totalDamaged,
           damage_percentage: damagePercentage,
           last_damage_date: lastRecord.date,
-          total_stock_in: totalStockIn
+          total_stock_in: totalStockIn,
+          damage_cost: damageCosts.get(itemName) || 0,
+          by_reason: Array.from(byReason.entries())
+            .filter(([, quantity]) => quantity !== 0)
+            .map(([reason_code, quantity]) => ({ reason_code, quantity }))
+            .sort((a, b) => b.quantity - a.quantity)
         };
       })
       .filter(item => item.total_damaged > 0)
       .sort((a, b) => b.damage_percentage - a.damage_percentage);
   };
 
+  // Catalog products with stock levels that are at or below them, with an order that brings
+  // them back to the reorder level plus `coverDays` of the average daily usage over the period
+  const generateLowStockReport = (
+    locationStock: LocationStock[],
+    productionIssues: ReportData['productionIssues'],
+    catalog: Product[],
+    coverDays: number
+  ): ReportData['lowStock'] =>
+    catalog
+      .filter(product => reorderLevel(product) !== null)
+      .map(product => {
+        const currentStock = locationStock.find(item => item.item_name === product.name)?.total ?? 0;
+        const avgDailyUsage = productionIssues.find(item => item.item_name === product.name)?.avg_daily_usage ?? 0;
+
+        return {
+          item_name: product.name,
+          unit: product.unit,
+          current_stock: currentStock,
+          min_stock: product.min_stock ?? null,
+          reorder_point: product.reorder_point ?? null,
+          avg_daily_usage: avgDailyUsage,
+          days_of_cover: avgDailyUsage > 0 ? Math.max(currentStock, 0) / avgDailyUsage : null,
+          suggested_order: suggestedOrderQuantity(currentStock, reorderLevel(product)!, avgDailyUsage, coverDays),
+          status: stockStatus(currentStock, product)
+        };
+      })
+      .filter(item => item.status !== 'in_stock')
+      .sort((a, b) => (a.days_of_cover ?? Infinity) - (b.days_of_cover ?? Infinity) || a.current_stock - b.current_stock);
+
+  // Stock on `asOf` against the issue rate of the `windowDays` before it, whatever the
+  // report's start date. Products that issued nothing in the window are left out.
+  const generateProjectedStockoutReport = (
+    recordsToEnd: InventoryRecord[],
+    locationStock: LocationStock[],
+    asOf: string,
+    method: ForecastMethod,
+    windowDays: number
+  ): ReportData['projectedStockout'] =>
+    locationStock
+      .map(item => {
+        const series = dailyUsageSeries(
+          recordsToEnd.filter(record => record.item_name === item.item_name),
+          asOf,
+          windowDays
+        );
+        const rates = { moving_average: movingAverage(series), exponential_smoothing: exponentialSmoothing(series) };
+        const forecast = projectStockout(item.total, rates[method], asOf);
+
+        return {
+          item_name: item.item_name,
+          current_stock: item.total,
+          ...rates,
+          days_of_cover: forecast.days_of_cover,
+          stockout_date: forecast.stockout_date
+        };
+      })
+      .filter(item => item.moving_average > 0 || item.exponential_smoothing > 0)
+      .sort((a, b) => (a.days_of_cover ?? Infinity) - (b.days_of_cover ?? Infinity));
+
+  // What is still to come on every open order as it stands today, whatever the report's dates;
+  // lines already received in full are left out
+  const generateOpenPurchaseOrderReport = (orders: PurchaseOrder[]): ReportData['openPurchaseOrders'] => {
+    const today = new Date().toISOString().split('T')[0];
+
+    return orders
+      .flatMap(order => order.lines.map(line => ({
+        reference: order.reference,
+        supplier_name: order.supplier_name,
+        location: order.location,
+        order_date: order.order_date,
+        expected_date: order.expected_date,
+        item_name: line.item_name,
+        ordered: line.quantity,
+        received: line.received,
+        outstanding: Math.max(line.quantity - line.received, 0),
+        overdue: !!order.expected_date && order.expected_date < today
+      })))
+      .filter(line => line.outstanding > 0)
+      .sort((a, b) => (a.expected_date || '9999-12-31').localeCompare(b.expected_date || '9999-12-31') ||
+        a.reference.localeCompare(b.reference));
+  };
+
+  // What each order raised in the period should have used against what was issued to it, and the
+  // same per material across orders. Cancelled orders are left out; issues that named no order are
+  // shown next to the totals.
+  const generateProductionConsumptionReport = (
+    orders: ProductionOrder[],
+    unassignedIssues: InventoryTransaction[]
+  ): ReportData['productionConsumption'] => {
+    const orderLines = orders
+      .flatMap(order => order.lines.map(line => {
+        const units = order.produced_quantity ?? order.planned_quantity;
+        return {
+          reference: order.reference,
+          finished_product: order.finished_product,
+          location: order.location,
+          order_date: order.order_date,
+          status: order.status,
+          units,
+          item_name: line.item_name,
+          expected: line.quantity_per_unit * units,
+          actual: line.issued - line.returned,
+          variance: line.issued - line.returned - line.quantity_per_unit * units
+        };
+      }))
+      .sort((a, b) => b.order_date.localeCompare(a.order_date) || a.reference.localeCompare(b.reference));
+
+    const productMap = new Map<string, ReportData['productionConsumption']['products'][0]>();
+    const productEntry = (itemName: string) => {
+      if (!productMap.has(itemName)) {
+        productMap.set(itemName, { item_name: itemName, expected: 0, actual: 0, variance: 0, variance_percentage: null, without_order: 0 });
+      }
+      return productMap.get(itemName)!;
+    };
+
+    orderLines.forEach(line => {
+      const product = productEntry(line.item_name);
+      product.expected += line.expected;
+      product.actual += line.actual;
+    });
+    unassignedIssues.forEach(issue => {
+      productEntry(issue.item_name).without_order += issue.quantity;
+    });
+
+    const products = Array.from(productMap.values())
+      .map(product => ({
+        ...product,
+        variance: product.actual - product.expected,
+        variance_percentage: product.expected > 0 ? ((product.actual - product.expected) / product.expected) * 100 : null
+      }))
+      .sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance) || a.item_name.localeCompare(b.item_name));
+
+    return { orders: orderLines, products };
+  };
+
+  // What went into rebagging and what came out of it per source and target product, worst yield first
+  const generateRebaggingYieldReport = (conversions: RebaggingConversion[]): ReportData['rebaggingYield'] => {
+    const pairMap = new Map<string, ReportData['rebaggingYield'][0]>();
+
+    conversions.forEach(conversion => {
+      const key = `${conversion.source_product}|${conversion.target_product}`;
+      if (!pairMap.has(key)) {
+        pairMap.set(key, {
+          source_product: conversion.source_product,
+          target_product: conversion.target_product,
+          conversions: 0,
+          input: 0,
+          output: 0,
+          yield_loss: 0,
+          yield_percentage: 0
+        });
+      }
+      const pair = pairMap.get(key)!;
+      pair.conversions += 1;
+      pair.input += conversion.input_quantity;
+      pair.output += conversion.output_quantity;
+      pair.yield_loss += conversion.yield_loss;
+    });
+
+    return Array.from(pairMap.values())
+      .map(pair => ({ ...pair, yield_percentage: (pair.output / pair.input) * 100 }))
+      .sort((a, b) => a.yield_percentage - b.yield_percentage || b.yield_loss - a.yield_loss);
+  };
+
+  // Lots still holding stock on `asOf` that expire within `withinDays` of it, or already have
+  const generateNearExpiryReport = (lots: LotBalance[], asOf: string, withinDays: number): ReportData['nearExpiry'] =>
+    lots
+      .filter(lot => lot.balance > 0 && lot.expiry_date !== null)
+      .map(lot => ({
+        item_name: lot.item_name,
+        location: lot.location,
+        lot_number: lot.lot_number,
+        received_on: lot.received_on,
+        expiry_date: lot.expiry_date!,
+        days_left: daysToExpiry(lot.expiry_date!, asOf),
+        balance: lot.balance
+      }))
+      .filter(lot => lot.days_left <= withinDays)
+      .sort((a, b) => a.days_left - b.days_left || a.item_name.localeCompare(b.item_name));
+
+  // Days that gave out more than they had, with the reason the shortfall was accepted. Days that
+  // only carry an earlier shortfall forward are not listed again.
+  const generateShortfallReport = (scopedRecords: InventoryRecord[]) =>
+    scopedRecords
+      .map(record => {
+        const outflows = record.issued_production + record.rebagging_out + record.damaged + record.transfer_out +
+          Math.max(-record.adjustment, 0);
+        return {
+          item_name: record.item_name,
+          location: record.location,
+          date: record.date,
+          available: Math.max(0, record.opening_stock + record.new_stock + record.returns + record.rebagging +
+            record.transfer_in + Math.max(record.adjustment, 0)),
+          outflows,
+          shortfall: record.closing_stock < 0 ? Math.min(outflows, -record.closing_stock) : 0,
+          reason: record.shortfall_reason
+        };
+      })
+      .filter(item => item.shortfall > 0)
+      .sort((a, b) => b.date.localeCompare(a.date) || a.item_name.localeCompare(b.item_name));
+
   const generateStockHistoryReport = (filteredRecords: InventoryRecord[]) => {
     const productGroups = new Map<string, InventoryRecord[]>();
     
@@ -405,7 +886,7 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
       .sort((a, b) => b.total_records - a.total_records);
   };
 
-  const generateWeeklyReport = (filteredRecords: InventoryRecord[]) => {
+  const generateWeeklyReport = (filteredRecords: InventoryRecord[], valuation: Valuation, periodLines: InventoryTransaction[]) => {
     if (filteredRecords.length === 0) {
       return {
         week_start: '',
@@ -418,7 +899,10 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
           total_returns: 0,
           total_rebagging: 0,
           total_damaged: 0,
-          net_change: 0
+          net_change: 0,
+          stock_value: 0,
+          issue_cost: 0,
+          damage_cost: 0
         },
         product_movements: [],
         daily_summary: [],
@@ -437,6 +921,11 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
     const weekEnd = sortedRecords[sortedRecords.length - 1].date;
 
     // Products will be counted after filtering for activity
+
+    // What was issued and damaged cost, and each product's last closing stock in the period
+    const issueCosts = costByProduct(valuation, periodLines, 'issue');
+    const damageCosts = costByProduct(valuation, periodLines, 'damage');
+    const closingStocks = new Map(sortedRecords.map(record => [record.item_name, record.closing_stock]));
     
     // Calculate summary metrics
     const summary = {
@@ -445,7 +934,11 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
       total_returns: filteredRecords.reduce((sum, r) => sum + r.returns, 0),
       total_rebagging: filteredRecords.reduce((sum, r) => sum + r.rebagging, 0),
       total_damaged: filteredRecords.reduce((sum, r) => sum + r.damaged, 0),
-      net_change: filteredRecords.reduce((sum, r) => sum + (r.new_stock - r.issued_production), 0)
+      net_change: filteredRecords.reduce((sum, r) => sum + (r.new_stock - r.issued_production), 0),
+      stock_value: Array.from(closingStocks.entries())
+        .reduce((sum, [itemName, closingStock]) => sum + stockValue(valuation, itemName, closingStock), 0),
+      issue_cost: Array.from(issueCosts.values()).reduce((sum, cost) => sum + cost, 0),
+      damage_cost: Array.from(damageCosts.values()).reduce((sum, cost) => sum + cost, 0)
     };
 
     // Generate comprehensive product movements
@@ -496,7 +989,10 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
           net_change: netChange,
           movement_percentage: movementPercentage,
           activity_level: activityLevel,
-          days_active: uniqueDays
+          days_active: uniqueDays,
+          stock_value: stockValue(valuation, itemName, closingStock),
+          issue_cost: issueCosts.get(itemName) || 0,
+          damage_cost: damageCosts.get(itemName) || 0
         };
       })
       .filter(product => {
@@ -637,6 +1133,43 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
         csvContent = generateWeeklyReportCSV(reportData.weeklyReport);
         filename = `weekly_report_${reportData.weeklyReport.week_start}_to_${reportData.weeklyReport.week_end}.csv`;
         break;
+      case 'locationStock':
+        csvContent = generateLocationStockCSV(reportData.locationStock);
+        filename = `stock_by_location_${dateRange.endDate}.csv`;
+        break;
+      case 'lowStock':
+        csvContent = generateLowStockCSV(reportData.lowStock);
+        filename = `low_stock_report_${dateRange.endDate}.csv`;
+        break;
+      case 'projectedStockout':
+        csvContent = generateProjectedStockoutCSV(reportData.projectedStockout);
+        filename = `projected_stockout_report_${dateRange.endDate}.csv`;
+        break;
+      case 'openPurchaseOrders':
+        csvContent = generateOpenPurchaseOrdersCSV(reportData.openPurchaseOrders);
+        filename = `open_purchase_orders_${new Date().toISOString().split('T')[0]}.csv`;
+        break;
+      case 'productionConsumption':
+        csvContent = generateProductionConsumptionCSV(reportData.productionConsumption);
+        filename = `production_consumption_${dateRange.startDate}_to_${dateRange.endDate}.csv`;
+        break;
+      case 'rebaggingYield':
+        csvContent = generateRebaggingYieldCSV(reportData.rebaggingYield);
+        filename = `rebagging_yield_${dateRange.startDate}_to_${dateRange.endDate}.csv`;
+        break;
+      case 'nearExpiry':
+        csvContent = generateNearExpiryCSV(reportData.nearExpiry);
+        filename = `near_expiry_report_${dateRange.endDate}.csv`;
+        break;
+      case 'shortfalls':
+        csvContent = generateShortfallsCSV(reportData.shortfalls);
+        filename = `shortfalls_report_${dateRange.startDate}_to_${dateRange.endDate}.csv`;
+        break;
+    }
+
+    // Reports for a single location say so in the file name
+    if (locationFilter !== ALL_LOCATIONS) {
+      filename = filename.replace(/\.csv$/, `_${locationFilter.replace(/\W+/g, '_').toLowerCase()}.csv`);
     }
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
@@ -656,20 +1189,24 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
   };
 
   const generateStockMovementsCSV = (data: ReportData['stockMovements']) => {
-    const headers = ['Date', 'Total Stock In', 'Total Stock Out', 'Net Change', 'Product Count'];
-    const rows = data.map(item => [item.date, item.total_in, item.total_out, item.net_change, item.product_count]);
+    const headers = ['Date', 'Total Stock In', 'Total Stock Out', 'Transfer In', 'Transfer Out', 'Net Change', 'Product Count'];
+    const rows = data.map(item => [item.date, item.total_in, item.total_out, item.total_transfer_in, item.total_transfer_out, item.net_change, item.product_count]);
     return [headers, ...rows].map(row => row.join(',')).join('\n');
   };
 
   const generateDailyActivitiesCSV = (activities: ReportData['stockMovements'][0]['daily_activities']) => {
-    const headers = ['Product Name', 'New Stock', 'Issued to Production', 'Returns', 'Rebagging', 'Damaged', 'Opening Stock', 'Closing Stock', 'Net Change'];
+    const headers = ['Product Name', 'New Stock', 'Issued to Production', 'Returns', 'Rebagging', 'Rebagged Out', 'Damaged', 'Transfer In', 'Transfer Out', 'Adjustment', 'Opening Stock', 'Closing Stock', 'Net Change'];
     const rows = activities.map(activity => [
       activity.item_name,
       activity.new_stock,
       activity.issued_production,
       activity.returns,
       activity.rebagging,
+      activity.rebagging_out,
       activity.damaged,
+      activity.transfer_in,
+      activity.transfer_out,
+      activity.adjustment,
       activity.opening_stock,
       activity.closing_stock,
       activity.net_change
@@ -678,8 +1215,13 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
   };
 
   const generateStockBalancesCSV = (data: ReportData['stockBalances']) => {
-    const headers = ['Product Name', 'Opening Stock', 'Closing Stock', 'Net Change', 'Movement Type'];
-    const rows = data.map(item => [item.item_name, item.opening_stock, item.closing_stock, item.net_change, item.movement_type]);
+    const headers = [
+      'Product Name', 'Opening Stock', 'Closing Stock', 'Net Change', 'Movement Type', 'Unit Cost', 'Stock Value', 'Cost of Issues'
+    ];
+    const rows = data.map(item => [
+      item.item_name, item.opening_stock, item.closing_stock, item.net_change, item.movement_type,
+      item.unit_cost.toFixed(2), item.stock_value.toFixed(2), item.issue_cost.toFixed(2)
+    ]);
     return [headers, ...rows].map(row => row.join(',')).join('\n');
   };
 
@@ -690,14 +1232,25 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
   };
 
   const generateReturnsRebaggingCSV = (data: ReportData['returnsRebagging']) => {
-    const headers = ['Product Name', 'Total Returns', 'Total Rebagging', 'Return Rate (%)', 'Last Activity'];
-    const rows = data.map(item => [item.item_name, item.total_returns, item.total_rebagging, item.return_rate.toFixed(2), item.last_activity]);
+    const headers = ['Product Name', 'Total Returns', 'Total Rebagging', 'Return Rate (%)', 'Last Activity', 'Returns by Order'];
+    const rows = data.map(item => [
+      item.item_name, item.total_returns, item.total_rebagging, item.return_rate.toFixed(2), item.last_activity,
+      `"${item.by_order.map(entry => `${entry.reference ?? 'No order'}: ${entry.quantity}`).join('; ')}"`
+    ]);
     return [headers, ...rows].map(row => row.join(',')).join('\n');
   };
 
   const generateDamagedStockCSV = (data: ReportData['damagedStock']) => {
-    const headers = ['Product Name', 'Total Damaged', 'Damage Percentage (%)', 'Last Damage Date', 'Total Stock In'];
-    const rows = data.map(item => [item.item_name, item.total_damaged, item.damage_percentage.toFixed(2), item.last_damage_date, item.total_stock_in]);
+    const reasonColumns = damageReasonColumns(data);
+    const headers = [
+      'Product Name', 'Total Damaged', 'Damage Percentage (%)', 'Last Damage Date', 'Total Stock In', 'Cost of Damage',
+      ...reasonColumns.map(code => `Damaged: ${reasonLabel(code)}`)
+    ];
+    const rows = data.map(item => [
+      item.item_name, item.total_damaged, item.damage_percentage.toFixed(2), item.last_damage_date, item.total_stock_in,
+      item.damage_cost.toFixed(2),
+      ...reasonColumns.map(code => item.by_reason.find(entry => entry.reason_code === code)?.quantity || 0)
+    ]);
     return [headers, ...rows].map(row => row.join(',')).join('\n');
   };
 
@@ -707,12 +1260,105 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
     return [headers, ...rows].map(row => row.join(',')).join('\n');
   };
 
+  const generateLocationStockCSV = (data: ReportData['locationStock']) => {
+    const headers = ['Product Name', ...stockColumns, ...(locationFilter === ALL_LOCATIONS ? ['Total'] : []), 'Last Record Date'];
+    const rows = data.map(item => [
+      item.item_name,
+      ...stockColumns.map(location => item.by_location[location] ?? 0),
+      ...(locationFilter === ALL_LOCATIONS ? [item.total] : []),
+      item.last_date
+    ]);
+    return [headers, ...rows].map(row => row.join(',')).join('\n');
+  };
+
+  const generateLowStockCSV = (data: ReportData['lowStock']) => {
+    const headers = [
+      'Product Name', 'Status', 'Current Stock', 'Minimum', 'Reorder Point', 'Avg Daily Usage', 'Days of Cover',
+      `Suggested Order (${coverDays} days)`, 'Unit'
+    ];
+    const rows = data.map(item => [
+      item.item_name, STOCK_STATUS_BADGES[item.status].label.replace(/^\S+ /, ''), item.current_stock, item.min_stock ?? '',
+      item.reorder_point ?? '', item.avg_daily_usage.toFixed(2), item.days_of_cover === null ? '' : item.days_of_cover.toFixed(1),
+      item.suggested_order, item.unit
+    ]);
+    return [headers, ...rows].map(row => row.join(',')).join('\n');
+  };
+
+  const generateProjectedStockoutCSV = (data: ReportData['projectedStockout']) => {
+    const headers = [
+      'Product Name', 'Current Stock', `Moving Average (${forecastWindow} days)`, 'Exponential Smoothing',
+      'Days of Cover', 'Projected Stockout'
+    ];
+    const rows = data.map(item => [
+      item.item_name, item.current_stock, item.moving_average.toFixed(2), item.exponential_smoothing.toFixed(2),
+      item.days_of_cover === null ? '' : item.days_of_cover.toFixed(1), item.stockout_date ?? ''
+    ]);
+    return [headers, ...rows].map(row => row.join(',')).join('\n');
+  };
+
+  const generateOpenPurchaseOrdersCSV = (data: ReportData['openPurchaseOrders']) => {
+    const headers = [
+      'PO Reference', 'Supplier', 'Location', 'Order Date', 'Expected Date', 'Product', 'Ordered', 'Received', 'Outstanding', 'Overdue'
+    ];
+    const rows = data.map(line => [
+      line.reference, line.supplier_name, line.location, line.order_date, line.expected_date ?? '', line.item_name,
+      line.ordered, line.received, line.outstanding, line.overdue ? 'Yes' : 'No'
+    ]);
+    return [headers, ...rows].map(row => row.join(',')).join('\n');
+  };
+
+  const generateProductionConsumptionCSV = (data: ReportData['productionConsumption']) => {
+    const csvSections = [];
+
+    csvSections.push('BY PRODUCT');
+    csvSections.push('Product,Expected,Actual,Variance,Variance %,Issued Without Order');
+    data.products.forEach(item => {
+      csvSections.push(`${item.item_name},${item.expected},${item.actual},${item.variance},${item.variance_percentage === null ? '' : `${item.variance_percentage.toFixed(2)}%`},${item.without_order}`);
+    });
+    csvSections.push('');
+
+    csvSections.push('BY ORDER');
+    csvSections.push('Order,Finished Product,Location,Order Date,Status,Units,Material,Expected,Actual,Variance');
+    data.orders.forEach(line => {
+      csvSections.push(`${line.reference},${line.finished_product},${line.location},${line.order_date},${line.status},${line.units},${line.item_name},${line.expected},${line.actual},${line.variance}`);
+    });
+
+    return csvSections.join('\n');
+  };
+
+  const generateRebaggingYieldCSV = (data: ReportData['rebaggingYield']) => {
+    const headers = ['Source Product', 'Target Product', 'Conversions', 'Input', 'Output', 'Yield Loss', 'Yield %'];
+    const rows = data.map(pair => [
+      pair.source_product, pair.target_product, pair.conversions, pair.input, pair.output, pair.yield_loss,
+      `${pair.yield_percentage.toFixed(2)}%`
+    ]);
+    return [headers, ...rows].map(row => row.join(',')).join('\n');
+  };
+
+  const generateNearExpiryCSV = (data: ReportData['nearExpiry']) => {
+    const headers = ['Product Name', 'Location', 'Lot', 'Received', 'Expiry Date', 'Days Left', 'Balance'];
+    const rows = data.map(lot => [
+      lot.item_name, lot.location, lot.lot_number, lot.received_on, lot.expiry_date, lot.days_left, lot.balance
+    ]);
+    return [headers, ...rows].map(row => row.join(',')).join('\n');
+  };
+
+  const generateShortfallsCSV = (data: ReportData['shortfalls']) => {
+    const headers = ['Date', 'Product Name', 'Location', 'Available', 'Out', 'Shortfall', 'Reason'];
+    const rows = data.map(item => [
+      item.date, item.item_name, item.location, item.available, item.outflows, item.shortfall,
+      `"${(item.reason || '').replace(/"/g, '""')}"`
+    ]);
+    return [headers, ...rows].map(row => row.join(',')).join('\n');
+  };
+
   const generateWeeklyReportCSV = (data: ReportData['weeklyReport']) => {
     const csvSections = [];
     
     // Header section
     csvSections.push('WEEKLY INVENTORY REPORT');
     csvSections.push(`Week: ${data.week_start} to ${data.week_end}`);
+    csvSections.push(`Location: ${locationFilter}`);
     csvSections.push(`Generated: ${new Date().toLocaleDateString()}`);
     csvSections.push('');
     
@@ -728,6 +1374,14 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
     csvSections.push(`Damaged,${data.summary.total_damaged}`);
     csvSections.push(`Net Change,${data.summary.net_change}`);
     csvSections.push('');
+
+    // Valuation section
+    csvSections.push(`VALUATION (${COSTING_METHODS.find(method => method.value === costingMethod)?.label})`);
+    csvSections.push('Metric,Value');
+    csvSections.push(`Stock Value,${data.summary.stock_value.toFixed(2)}`);
+    csvSections.push(`Cost of Issues,${data.summary.issue_cost.toFixed(2)}`);
+    csvSections.push(`Cost of Damage,${data.summary.damage_cost.toFixed(2)}`);
+    csvSections.push('');
     
     // Efficiency metrics
     csvSections.push('EFFICIENCY METRICS');
@@ -740,9 +1394,9 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
     
     // Product movements
     csvSections.push('PRODUCT MOVEMENTS');
-    csvSections.push('Product,Opening Stock,Closing Stock,Stock In,Stock Out,Returns,Rebagging,Damaged,Net Change,Current Stock,Movement %,Activity Level,Days Active');
+    csvSections.push('Product,Opening Stock,Closing Stock,Stock In,Stock Out,Returns,Rebagging,Damaged,Net Change,Current Stock,Movement %,Activity Level,Days Active,Stock Value,Cost of Issues,Cost of Damage');
     data.product_movements.forEach(item => {
-      csvSections.push(`${item.item_name},${item.opening_stock},${item.closing_stock},${item.total_stock_in},${item.total_stock_out},${item.total_returns},${item.total_rebagging},${item.total_damaged},${item.net_change},${item.closing_stock},${item.movement_percentage.toFixed(2)}%,${item.activity_level},${item.days_active}`);
+      csvSections.push(`${item.item_name},${item.opening_stock},${item.closing_stock},${item.total_stock_in},${item.total_stock_out},${item.total_returns},${item.total_rebagging},${item.total_damaged},${item.net_change},${item.closing_stock},${item.movement_percentage.toFixed(2)}%,${item.activity_level},${item.days_active},${item.stock_value.toFixed(2)},${item.issue_cost.toFixed(2)},${item.damage_cost.toFixed(2)}`);
     });
     csvSections.push('');
     
@@ -785,10 +1439,37 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
         <div className="flex flex-col sm:flex-row gap-4 items-center justify-between">
           <div>
             <h3 className="text-lg font-semibold text-gray-800 mb-2">📅 Report Period</h3>
-            <p className="text-sm text-gray-600">Select the date range for your reports</p>
+            <p className="text-sm text-gray-600">Select the date range and location for your reports</p>
           </div>
           
           <div className="flex gap-4 items-center">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+              <select
+                value={locationFilter}
+                onChange={(e) => setLocationFilter(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value={ALL_LOCATIONS}>{ALL_LOCATIONS} (consolidated)</option>
+                {locationOptions.map(location => (
+                  <option key={location} value={location}>{location}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Costing</label>
+              <select
+                value={costingMethod}
+                onChange={(e) => setCostingMethod(e.target.value as CostingMethod)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {COSTING_METHODS.map(method => (
+                  <option key={method.value} value={method.value}>{method.label}</option>
+                ))}
+              </select>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
               <input
@@ -932,6 +1613,102 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
           <div className="text-2xl mb-2">📋</div>
           <div className="font-semibold">Weekly Report</div>
         </button>
+
+        <button
+          onClick={() => setSelectedReport('locationStock')}
+          className={`p-4 rounded-2xl text-center transition-all duration-300 ${
+            selectedReport === 'locationStock'
+              ? 'bg-gradient-to-r from-cyan-500 to-blue-600 text-white shadow-lg scale-105'
+              : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+          }`}
+        >
+          <div className="text-2xl mb-2">🏬</div>
+          <div className="font-semibold">Stock by Location</div>
+        </button>
+
+        <button
+          onClick={() => setSelectedReport('lowStock')}
+          className={`p-4 rounded-2xl text-center transition-all duration-300 ${
+            selectedReport === 'lowStock'
+              ? 'bg-gradient-to-r from-amber-500 to-orange-600 text-white shadow-lg scale-105'
+              : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+          }`}
+        >
+          <div className="text-2xl mb-2">🛒</div>
+          <div className="font-semibold">Low Stock</div>
+        </button>
+
+        <button
+          onClick={() => setSelectedReport('projectedStockout')}
+          className={`p-4 rounded-2xl text-center transition-all duration-300 ${
+            selectedReport === 'projectedStockout'
+              ? 'bg-gradient-to-r from-rose-500 to-red-600 text-white shadow-lg scale-105'
+              : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+          }`}
+        >
+          <div className="text-2xl mb-2">⏳</div>
+          <div className="font-semibold">Projected Stockout</div>
+        </button>
+
+        <button
+          onClick={() => setSelectedReport('openPurchaseOrders')}
+          className={`p-4 rounded-2xl text-center transition-all duration-300 ${
+            selectedReport === 'openPurchaseOrders'
+              ? 'bg-gradient-to-r from-sky-500 to-blue-600 text-white shadow-lg scale-105'
+              : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+          }`}
+        >
+          <div className="text-2xl mb-2">🧾</div>
+          <div className="font-semibold">Open POs</div>
+        </button>
+
+        <button
+          onClick={() => setSelectedReport('productionConsumption')}
+          className={`p-4 rounded-2xl text-center transition-all duration-300 ${
+            selectedReport === 'productionConsumption'
+              ? 'bg-gradient-to-r from-violet-500 to-purple-600 text-white shadow-lg scale-105'
+              : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+          }`}
+        >
+          <div className="text-2xl mb-2">⚙️</div>
+          <div className="font-semibold">Consumption</div>
+        </button>
+
+        <button
+          onClick={() => setSelectedReport('rebaggingYield')}
+          className={`p-4 rounded-2xl text-center transition-all duration-300 ${
+            selectedReport === 'rebaggingYield'
+              ? 'bg-gradient-to-r from-fuchsia-500 to-purple-600 text-white shadow-lg scale-105'
+              : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+          }`}
+        >
+          <div className="text-2xl mb-2">🔁</div>
+          <div className="font-semibold">Yield</div>
+        </button>
+
+        <button
+          onClick={() => setSelectedReport('nearExpiry')}
+          className={`p-4 rounded-2xl text-center transition-all duration-300 ${
+            selectedReport === 'nearExpiry'
+              ? 'bg-gradient-to-r from-orange-500 to-red-600 text-white shadow-lg scale-105'
+              : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+          }`}
+        >
+          <div className="text-2xl mb-2">🏷️</div>
+          <div className="font-semibold">Near Expiry</div>
+        </button>
+
+        <button
+          onClick={() => setSelectedReport('shortfalls')}
+          className={`p-4 rounded-2xl text-center transition-all duration-300 ${
+            selectedReport === 'shortfalls'
+              ? 'bg-gradient-to-r from-red-500 to-rose-600 text-white shadow-lg scale-105'
+              : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+          }`}
+        >
+          <div className="text-2xl mb-2">📉</div>
+          <div className="font-semibold">Shortfalls</div>
+        </button>
       </div>
 
       {/* Report Content */}
@@ -1081,6 +1858,11 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
                       <div>
                         <h4 className="text-lg font-semibold text-gray-800">{movement.date}</h4>
                         <p className="text-gray-600">{movement.product_count} products updated</p>
+                        {(movement.total_transfer_in > 0 || movement.total_transfer_out > 0) && (
+                          <p className="text-sm text-teal-600">
+                            🚚 {movement.total_transfer_in} transferred in · {movement.total_transfer_out} transferred out
+                          </p>
+                        )}
                       </div>
                       <div className="text-right">
                         <div className="grid grid-cols-3 gap-4 text-center">
@@ -1132,7 +1914,7 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
                               </div>
                             </div>
                             
-                            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+                            <div className="grid grid-cols-2 md:grid-cols-9 gap-3 text-sm">
                               <div className="text-center p-2 bg-green-50 rounded">
                                 <div className="font-semibold text-green-700">+{activity.new_stock}</div>
                                 <div className="text-green-600">New Stock</div>
@@ -1145,6 +1927,10 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
                                 <div className="font-semibold text-purple-700">+{activity.rebagging}</div>
                                 <div className="text-purple-600">Rebagging</div>
                               </div>
+                              <div className="text-center p-2 bg-purple-50 rounded">
+                                <div className="font-semibold text-purple-700">-{activity.rebagging_out}</div>
+                                <div className="text-purple-600">Rebagged Out</div>
+                              </div>
                               <div className="text-center p-2 bg-orange-50 rounded">
                                 <div className="font-semibold text-orange-700">-{activity.issued_production}</div>
                                 <div className="text-orange-600">Issued</div>
@@ -1153,6 +1939,18 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
                                 <div className="font-semibold text-red-700">-{activity.damaged}</div>
                                 <div className="text-red-600">Damaged</div>
                               </div>
+                              <div className="text-center p-2 bg-teal-50 rounded">
+                                <div className="font-semibold text-teal-700">+{activity.transfer_in}</div>
+                                <div className="text-teal-600">Transfer In</div>
+                              </div>
+                              <div className="text-center p-2 bg-teal-50 rounded">
+                                <div className="font-semibold text-teal-700">-{activity.transfer_out}</div>
+                                <div className="text-teal-600">Transfer Out</div>
+                              </div>
+                              <div className="text-center p-2 bg-yellow-50 rounded">
+                                <div className="font-semibold text-yellow-700">{activity.adjustment > 0 ? '+' : ''}{activity.adjustment}</div>
+                                <div className="text-yellow-700">Adjustment</div>
+                              </div>
                             </div>
                           </div>
                         ))}
@@ -1230,6 +2028,11 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
                         <span>Opening: {item.opening_stock}</span>
                         <span>Closing: {item.closing_stock}</span>
                       </div>
+                      <div className="flex gap-4 text-sm text-gray-600">
+                        <span>Unit cost: {formatCost(item.unit_cost)}</span>
+                        <span>Stock value: <span className="font-semibold text-gray-800">{formatCost(item.stock_value)}</span></span>
+                        <span>Cost of issues: {formatCost(item.issue_cost)}</span>
+                      </div>
                     </div>
                     <div className="text-right">
                       <div className={`px-3 py-1 rounded-full text-sm font-semibold ${
@@ -1293,6 +2096,20 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
                       </div>
                     </div>
                   </div>
+                  {item.by_order.length > 0 && (
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {item.by_order.map(entry => (
+                        <span
+                          key={entry.reference ?? 'none'}
+                          className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                            entry.reference ? 'bg-white border border-purple-300 text-purple-800' : 'bg-gray-100 text-gray-600'
+                          }`}
+                        >
+                          ↩️ {entry.reference ?? 'No order'} × {entry.quantity}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -1311,6 +2128,26 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
               </button>
             </div>
             
+            {reportData && reportData.damagedStock.length > 0 && (
+              <div className="mb-6 p-4 bg-white border border-yellow-200 rounded-xl">
+                <h4 className="font-semibold text-yellow-800 mb-3">Damage by Reason</h4>
+                <div className="flex flex-wrap gap-3">
+                  {damageReasonColumns(reportData.damagedStock).map(code => {
+                    const quantity = reportData.damagedStock.reduce(
+                      (sum, item) => sum + (item.by_reason.find(entry => entry.reason_code === code)?.quantity || 0),
+                      0
+                    );
+                    return quantity !== 0 && (
+                      <div key={code ?? 'unspecified'} className="px-4 py-2 bg-yellow-50 rounded-lg text-center">
+                        <div className="text-lg font-bold text-yellow-600">{quantity}</div>
+                        <div className="text-yellow-700 text-sm">{reasonLabel(code)}</div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             <div className="space-y-4">
               {reportData?.damagedStock.map((item) => (
                 <div key={item.item_name} className="border border-yellow-200 rounded-xl p-4 bg-yellow-50">
@@ -1320,11 +2157,15 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
                       <p className="text-yellow-600">Last damage: {item.last_damage_date}</p>
                     </div>
                     <div className="text-right">
-                      <div className="grid grid-cols-3 gap-4 text-center">
+                      <div className="grid grid-cols-4 gap-4 text-center">
                         <div>
                           <div className="text-lg font-bold text-yellow-600">{item.total_damaged}</div>
                           <div className="text-yellow-600 text-sm">Damaged</div>
                         </div>
+                        <div>
+                          <div className="text-lg font-bold text-yellow-600">{formatCost(item.damage_cost)}</div>
+                          <div className="text-yellow-600 text-sm">Cost of Damage</div>
+                        </div>
                         <div>
                           <div className="text-lg font-bold text-yellow-600">{item.damage_percentage.toFixed(1)}%</div>
                           <div className="text-yellow-600 text-sm">Damage %</div>
@@ -1336,6 +2177,13 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
                       </div>
                     </div>
                   </div>
+                  <div className="mt-3 flex flex-wrap gap-2 text-sm">
+                    {item.by_reason.map(entry => (
+                      <span key={entry.reason_code ?? 'unspecified'} className="px-2 py-1 rounded border border-yellow-200 bg-white text-yellow-800">
+                        {reasonLabel(entry.reason_code)}: {entry.quantity}
+                      </span>
+                    ))}
+                  </div>
                 </div>
               ))}
             </div>
@@ -1438,6 +2286,33 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
                   </div>
                 </div>
 
+                {/* Valuation */}
+                <div className="bg-emerald-50 p-4 rounded-xl border border-emerald-200 print:border print:p-2">
+                  <h4 className="text-lg font-semibold text-emerald-800 mb-3 print:text-base">
+                    💰 Valuation ({COSTING_METHODS.find(method => method.value === costingMethod)?.label})
+                  </h4>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 print:grid-cols-3 print:gap-2">
+                    <div className="text-center">
+                      <div className="text-xl font-bold text-emerald-700 print:text-base">
+                        {formatCost(reportData.weeklyReport.summary.stock_value)}
+                      </div>
+                      <div className="text-emerald-700 text-sm print:text-xs">Stock Value</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-xl font-bold text-emerald-700 print:text-base">
+                        {formatCost(reportData.weeklyReport.summary.issue_cost)}
+                      </div>
+                      <div className="text-emerald-700 text-sm print:text-xs">Cost of Issues</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-xl font-bold text-red-600 print:text-base">
+                        {formatCost(reportData.weeklyReport.summary.damage_cost)}
+                      </div>
+                      <div className="text-emerald-700 text-sm print:text-xs">Cost of Damage</div>
+                    </div>
+                  </div>
+                </div>
+
                 {/* Efficiency Metrics */}
                 <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 print:border print:p-2">
                   <h4 className="text-lg font-semibold text-gray-800 mb-3 print:text-base">📊 Efficiency Metrics</h4>
@@ -1491,6 +2366,9 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
                           <th className="text-center py-2 font-semibold text-blue-800 print:py-1">Damaged</th>
                           <th className="text-center py-2 font-semibold text-blue-800 print:py-1">Net Change</th>
                           <th className="text-center py-2 font-semibold text-blue-800 print:py-1">Current Stock</th>
+                          <th className="text-center py-2 font-semibold text-blue-800 print:py-1">Stock Value</th>
+                          <th className="text-center py-2 font-semibold text-blue-800 print:py-1">Cost of Issues</th>
+                          <th className="text-center py-2 font-semibold text-blue-800 print:py-1">Cost of Damage</th>
                           <th className="text-center py-2 font-semibold text-blue-800 print:py-1">Activity</th>
                         </tr>
                       </thead>
@@ -1514,6 +2392,9 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
                             <td className="py-2 text-center text-gray-700 font-semibold print:py-1">
                               {product.closing_stock}
                             </td>
+                            <td className="py-2 text-center text-gray-700 print:py-1">{formatCost(product.stock_value)}</td>
+                            <td className="py-2 text-center text-gray-700 print:py-1">{formatCost(product.issue_cost)}</td>
+                            <td className="py-2 text-center text-red-500 print:py-1">{formatCost(product.damage_cost)}</td>
                             <td className="py-2 text-center print:py-1">
                               <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-semibold ${
                                 product.activity_level === 'high' ? 'bg-green-100 text-green-800' :
@@ -1646,6 +2527,542 @@ export default function ReportsSection({ records }: ReportsSectionProps) {
             )}
           </div>
         )}
+
+        {selectedReport === 'locationStock' && (
+          <div className="p-6">
+            <div className="flex justify-between items-center mb-6">
+              <div>
+                <h3 className="text-2xl font-semibold text-gray-800">🏬 Current Stock by Location</h3>
+                <p className="text-sm text-gray-600">Latest closing stock as of {dateRange.endDate}</p>
+              </div>
+              <button
+                onClick={() => exportReport('locationStock')}
+                className="px-4 py-2 bg-cyan-500 text-white rounded-lg hover:bg-cyan-600 transition-colors"
+              >
+                📊 Export CSV
+              </button>
+            </div>
+
+            {reportData?.locationStock.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">No stock recorded up to this date</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-2 font-semibold text-gray-800">Product</th>
+                      {stockColumns.map(location => (
+                        <th key={location} className="text-center py-2 font-semibold text-gray-800">{location}</th>
+                      ))}
+                      {locationFilter === ALL_LOCATIONS && (
+                        <th className="text-center py-2 font-semibold text-gray-800">Total</th>
+                      )}
+                      <th className="text-center py-2 font-semibold text-gray-800">Last Record</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reportData?.locationStock.map(item => (
+                      <tr key={item.item_name} className="border-b border-gray-100">
+                        <td className="py-2 text-gray-800 font-medium">{item.item_name}</td>
+                        {stockColumns.map(location => (
+                          <td key={location} className={`py-2 text-center ${
+                            item.by_location[location] === undefined ? 'text-gray-400' :
+                            item.by_location[location] <= 0 ? 'text-red-600 font-semibold' : 'text-gray-700'
+                          }`}>
+                            {item.by_location[location] ?? '—'}
+                          </td>
+                        ))}
+                        {locationFilter === ALL_LOCATIONS && (
+                          <td className="py-2 text-center text-gray-800 font-bold">{item.total}</td>
+                        )}
+                        <td className="py-2 text-center text-gray-600">{item.last_date}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {selectedReport === 'lowStock' && (
+          <div className="p-6">
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-6">
+              <div>
+                <h3 className="text-2xl font-semibold text-gray-800">🛒 Low Stock</h3>
+                <p className="text-sm text-gray-600">
+                  Products at or below their reorder point as of {dateRange.endDate}, with usage averaged over the period
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <label className="text-sm font-medium text-gray-700">Order to cover</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={coverDays}
+                  onChange={(e) => setCoverDays(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-20 border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700">days</span>
+                <button
+                  onClick={() => exportReport('lowStock')}
+                  className="px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors"
+                >
+                  📊 Export CSV
+                </button>
+              </div>
+            </div>
+
+            {reportData?.lowStock.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                Every product with a reorder point is above it. Levels are set in the Products tab.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-2 font-semibold text-gray-800">Product</th>
+                      <th className="text-left py-2 font-semibold text-gray-800">Status</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Current Stock</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Min / Reorder</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Avg Daily Usage</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Days of Cover</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Suggested Order</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reportData?.lowStock.map(item => (
+                      <tr key={item.item_name} className="border-b border-gray-100">
+                        <td className="py-2 text-gray-800 font-medium">{item.item_name}</td>
+                        <td className="py-2">
+                          <span className={`px-2 py-1 rounded-full text-xs font-semibold ${STOCK_STATUS_BADGES[item.status].className}`}>
+                            {STOCK_STATUS_BADGES[item.status].label}
+                          </span>
+                        </td>
+                        <td className="py-2 text-center text-gray-700">{item.current_stock}</td>
+                        <td className="py-2 text-center text-gray-600">{item.min_stock ?? '—'} / {item.reorder_point ?? '—'}</td>
+                        <td className="py-2 text-center text-gray-700">{item.avg_daily_usage.toFixed(1)}</td>
+                        <td className="py-2 text-center text-gray-700">
+                          {item.days_of_cover === null ? '—' : item.days_of_cover.toFixed(1)}
+                        </td>
+                        <td className="py-2 text-center text-amber-700 font-bold">{item.suggested_order} {item.unit}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {selectedReport === 'projectedStockout' && (
+          <div className="p-6">
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-6">
+              <div>
+                <h3 className="text-2xl font-semibold text-gray-800">⏳ Projected Stockout</h3>
+                <p className="text-sm text-gray-600">
+                  Stock on {dateRange.endDate} at the daily issue rate of the {forecastWindow} days before it
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <select
+                  value={forecastMethod}
+                  onChange={(e) => setForecastMethod(e.target.value as ForecastMethod)}
+                  className="border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {FORECAST_METHODS.map(method => (
+                    <option key={method.value} value={method.value}>{method.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={forecastWindow}
+                  onChange={(e) => setForecastWindow(Number(e.target.value))}
+                  className="border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {[7, 14, 28, 56, 90].map(days => (
+                    <option key={days} value={days}>Last {days} days</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => exportReport('projectedStockout')}
+                  className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+                >
+                  📊 Export CSV
+                </button>
+              </div>
+            </div>
+
+            {reportData?.projectedStockout.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                Nothing was issued to production in the {forecastWindow} days up to {dateRange.endDate}.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-2 font-semibold text-gray-800">Product</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Current Stock</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Moving Average / Day</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Smoothed / Day</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Days of Cover</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Projected Stockout</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reportData?.projectedStockout.map(item => (
+                      <tr
+                        key={item.item_name}
+                        className={`border-b border-gray-100 ${
+                          item.days_of_cover !== null && item.days_of_cover < 7 ? 'bg-red-50' :
+                          item.days_of_cover !== null && item.days_of_cover < 30 ? 'bg-yellow-50' : ''
+                        }`}
+                      >
+                        <td className="py-2 text-gray-800 font-medium">{item.item_name}</td>
+                        <td className="py-2 text-center text-gray-700">{item.current_stock}</td>
+                        <td className={`py-2 text-center ${forecastMethod === 'moving_average' ? 'font-bold text-gray-800' : 'text-gray-600'}`}>
+                          {item.moving_average.toFixed(2)}
+                        </td>
+                        <td className={`py-2 text-center ${forecastMethod === 'exponential_smoothing' ? 'font-bold text-gray-800' : 'text-gray-600'}`}>
+                          {item.exponential_smoothing.toFixed(2)}
+                        </td>
+                        <td className="py-2 text-center text-gray-700">{formatDaysOfCover(item.days_of_cover)}</td>
+                        <td className="py-2 text-center text-red-700 font-semibold">
+                          {item.stockout_date ? new Date(item.stockout_date).toLocaleDateString() : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {selectedReport === 'openPurchaseOrders' && (
+          <div className="p-6">
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-6">
+              <div>
+                <h3 className="text-2xl font-semibold text-gray-800">🧾 Open Purchase Orders</h3>
+                <p className="text-sm text-gray-600">Quantities still to be received on every open order, as of today</p>
+              </div>
+              <button
+                onClick={() => exportReport('openPurchaseOrders')}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                📊 Export CSV
+              </button>
+            </div>
+
+            {reportData?.openPurchaseOrders.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">Nothing is outstanding on any purchase order.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-2 font-semibold text-gray-800">PO</th>
+                      <th className="text-left py-2 font-semibold text-gray-800">Supplier</th>
+                      {locationFilter === ALL_LOCATIONS && <th className="text-left py-2 font-semibold text-gray-800">Location</th>}
+                      <th className="text-left py-2 font-semibold text-gray-800">Product</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Ordered</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Received</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Outstanding</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Expected</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reportData?.openPurchaseOrders.map(line => (
+                      <tr key={`${line.reference}-${line.item_name}`} className={`border-b border-gray-100 ${line.overdue ? 'bg-red-50' : ''}`}>
+                        <td className="py-2 font-mono text-gray-800">{line.reference}</td>
+                        <td className="py-2 text-gray-700">{line.supplier_name}</td>
+                        {locationFilter === ALL_LOCATIONS && <td className="py-2 text-gray-700">{line.location}</td>}
+                        <td className="py-2 text-gray-800 font-medium">{line.item_name}</td>
+                        <td className="py-2 text-center text-gray-700">{line.ordered}</td>
+                        <td className="py-2 text-center text-gray-700">{line.received}</td>
+                        <td className="py-2 text-center text-orange-600 font-bold">{line.outstanding}</td>
+                        <td className={`py-2 text-center ${line.overdue ? 'text-red-700 font-semibold' : 'text-gray-600'}`}>
+                          {line.expected_date ? new Date(line.expected_date).toLocaleDateString() : '—'}
+                          {line.overdue && ' (overdue)'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {selectedReport === 'productionConsumption' && (
+          <div className="p-6">
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-6">
+              <div>
+                <h3 className="text-2xl font-semibold text-gray-800">⚙️ Expected vs Actual Consumption</h3>
+                <p className="text-sm text-gray-600">
+                  Materials issued against production orders raised in this period, compared with their bills of materials
+                </p>
+              </div>
+              <button
+                onClick={() => exportReport('productionConsumption')}
+                className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors"
+              >
+                📊 Export CSV
+              </button>
+            </div>
+
+            {reportData?.productionConsumption.products.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">No production orders or issues in this period</div>
+            ) : (
+              <>
+                <h4 className="text-lg font-semibold text-gray-800 mb-3">By Product</h4>
+                <div className="overflow-x-auto mb-8">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200">
+                        <th className="text-left py-2 font-semibold text-gray-800">Product</th>
+                        <th className="text-center py-2 font-semibold text-gray-800">Expected</th>
+                        <th className="text-center py-2 font-semibold text-gray-800">Actual</th>
+                        <th className="text-center py-2 font-semibold text-gray-800">Variance</th>
+                        <th className="text-center py-2 font-semibold text-gray-800">Variance %</th>
+                        <th className="text-center py-2 font-semibold text-gray-800">Issued Without Order</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {reportData?.productionConsumption.products.map(item => (
+                        <tr key={item.item_name} className="border-b border-gray-100">
+                          <td className="py-2 text-gray-800 font-medium">{item.item_name}</td>
+                          <td className="py-2 text-center text-gray-700">{item.expected}</td>
+                          <td className="py-2 text-center text-gray-700">{item.actual}</td>
+                          <td className={`py-2 text-center font-bold ${item.variance > 0 ? 'text-red-600' : item.variance < 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                            {item.variance > 0 ? `+${item.variance}` : item.variance}
+                          </td>
+                          <td className="py-2 text-center text-gray-700">
+                            {item.variance_percentage === null ? '—' : `${item.variance_percentage.toFixed(1)}%`}
+                          </td>
+                          <td className="py-2 text-center text-gray-600">{item.without_order}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <h4 className="text-lg font-semibold text-gray-800 mb-3">By Order</h4>
+                {reportData?.productionConsumption.orders.length === 0 ? (
+                  <div className="text-center py-6 text-gray-500">No production orders were raised in this period</div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-2 font-semibold text-gray-800">Order</th>
+                          <th className="text-left py-2 font-semibold text-gray-800">Finished Product</th>
+                          {locationFilter === ALL_LOCATIONS && <th className="text-left py-2 font-semibold text-gray-800">Location</th>}
+                          <th className="text-center py-2 font-semibold text-gray-800">Units</th>
+                          <th className="text-left py-2 font-semibold text-gray-800">Material</th>
+                          <th className="text-center py-2 font-semibold text-gray-800">Expected</th>
+                          <th className="text-center py-2 font-semibold text-gray-800">Actual</th>
+                          <th className="text-center py-2 font-semibold text-gray-800">Variance</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {reportData?.productionConsumption.orders.map(line => (
+                          <tr key={`${line.reference}-${line.item_name}`} className="border-b border-gray-100">
+                            <td className="py-2 font-mono text-gray-800">
+                              {line.reference}
+                              {line.status === 'open' && <span className="ml-2 text-xs text-blue-600">(open)</span>}
+                            </td>
+                            <td className="py-2 text-gray-700">{line.finished_product}</td>
+                            {locationFilter === ALL_LOCATIONS && <td className="py-2 text-gray-700">{line.location}</td>}
+                            <td className="py-2 text-center text-gray-700">{line.units}</td>
+                            <td className="py-2 text-gray-800 font-medium">{line.item_name}</td>
+                            <td className="py-2 text-center text-gray-700">{line.expected}</td>
+                            <td className="py-2 text-center text-gray-700">{line.actual}</td>
+                            <td className={`py-2 text-center font-bold ${line.variance > 0 ? 'text-red-600' : line.variance < 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                              {line.variance > 0 ? `+${line.variance}` : line.variance}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {selectedReport === 'rebaggingYield' && (
+          <div className="p-6">
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-6">
+              <div>
+                <h3 className="text-2xl font-semibold text-gray-800">🔁 Rebagging Yield</h3>
+                <p className="text-sm text-gray-600">
+                  Stock rebagged from one product into another in this period, and what was lost on the way
+                </p>
+              </div>
+              <button
+                onClick={() => exportReport('rebaggingYield')}
+                className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors"
+              >
+                📊 Export CSV
+              </button>
+            </div>
+
+            {reportData?.rebaggingYield.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">No rebagging in this period</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-2 font-semibold text-gray-800">Source Product</th>
+                      <th className="text-left py-2 font-semibold text-gray-800">Target Product</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Conversions</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Input</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Output</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Yield Loss</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Yield %</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reportData?.rebaggingYield.map(pair => (
+                      <tr key={`${pair.source_product}-${pair.target_product}`} className="border-b border-gray-100">
+                        <td className="py-2 text-gray-800 font-medium">{pair.source_product}</td>
+                        <td className="py-2 text-gray-800 font-medium">{pair.target_product}</td>
+                        <td className="py-2 text-center text-gray-700">{pair.conversions}</td>
+                        <td className="py-2 text-center text-gray-700">{pair.input}</td>
+                        <td className="py-2 text-center text-gray-700">{pair.output}</td>
+                        <td className={`py-2 text-center font-bold ${pair.yield_loss > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {pair.yield_loss}
+                        </td>
+                        <td className="py-2 text-center text-gray-700">{pair.yield_percentage.toFixed(1)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {selectedReport === 'nearExpiry' && (
+          <div className="p-6">
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-6">
+              <div>
+                <h3 className="text-2xl font-semibold text-gray-800">🏷️ Near Expiry</h3>
+                <p className="text-sm text-gray-600">
+                  Lots in stock on {dateRange.endDate} that have expired or expire within the window, soonest first
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <label className="text-sm font-medium text-gray-700">Expiring within</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={expiryWindow}
+                  onChange={(e) => setExpiryWindow(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-20 border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700">days</span>
+                <button
+                  onClick={() => exportReport('nearExpiry')}
+                  className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors"
+                >
+                  📊 Export CSV
+                </button>
+              </div>
+            </div>
+
+            {reportData?.nearExpiry.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                No lot in stock expires within {expiryWindow} days. Lots and expiry dates are entered on receipts.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-2 font-semibold text-gray-800">Product</th>
+                      <th className="text-left py-2 font-semibold text-gray-800">Location</th>
+                      <th className="text-left py-2 font-semibold text-gray-800">Lot</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Received</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Expiry Date</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Days Left</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reportData?.nearExpiry.map(lot => (
+                      <tr key={`${lot.item_name}-${lot.location}-${lot.lot_number}`} className="border-b border-gray-100">
+                        <td className="py-2 text-gray-800 font-medium">{lot.item_name}</td>
+                        <td className="py-2 text-gray-700">{lot.location}</td>
+                        <td className="py-2 text-gray-700 font-mono">{lot.lot_number}</td>
+                        <td className="py-2 text-center text-gray-600">{lot.received_on}</td>
+                        <td className="py-2 text-center text-gray-700">{lot.expiry_date}</td>
+                        <td className={`py-2 text-center font-bold ${lot.days_left < 0 ? 'text-red-600' : 'text-orange-600'}`}>
+                          {lot.days_left < 0 ? `Expired ${-lot.days_left} days ago` : lot.days_left}
+                        </td>
+                        <td className="py-2 text-center text-gray-700">{lot.balance}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {selectedReport === 'shortfalls' && (
+          <div className="p-6">
+            <div className="flex justify-between items-center mb-6">
+              <div>
+                <h3 className="text-2xl font-semibold text-gray-800">📉 Shortfalls</h3>
+                <p className="text-sm text-gray-600">Days where more went out than was available</p>
+              </div>
+              <button
+                onClick={() => exportReport('shortfalls')}
+                className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+              >
+                📊 Export CSV
+              </button>
+            </div>
+
+            {reportData?.shortfalls.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">No day closed below zero in this period</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-2 font-semibold text-gray-800">Date</th>
+                      <th className="text-left py-2 font-semibold text-gray-800">Product</th>
+                      <th className="text-left py-2 font-semibold text-gray-800">Location</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Available</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Out</th>
+                      <th className="text-center py-2 font-semibold text-gray-800">Shortfall</th>
+                      <th className="text-left py-2 font-semibold text-gray-800">Reason</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reportData?.shortfalls.map(item => (
+                      <tr key={`${item.item_name}|${item.location}|${item.date}`} className="border-b border-gray-100">
+                        <td className="py-2 text-gray-600">{item.date}</td>
+                        <td className="py-2 text-gray-800 font-medium">{item.item_name}</td>
+                        <td className="py-2 text-gray-600">{item.location}</td>
+                        <td className="py-2 text-center text-gray-700">{item.available}</td>
+                        <td className="py-2 text-center text-gray-700">{item.outflows}</td>
+                        <td className="py-2 text-center text-red-600 font-bold">{item.shortfall}</td>
+                        <td className="py-2 text-gray-700">{item.reason || <span className="text-gray-400">Not recorded</span>}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,8 +1,10 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
-import { InventoryRecord } from '../types/inventory';
+import { fetchAllRecords, fetchProducts } from '../lib/inventoryApi';
+import { consolidateRecords, currentStockByLocation } from '../lib/consolidation';
+import { STOCK_STATUS_BADGES, stockStatus } from '../lib/stockLevels';
+import { InventoryRecord, Product } from '../types/inventory';
 
 interface SearchSectionProps {
   onLoadProduct?: (record: InventoryRecord) => void;
@@ -24,27 +26,40 @@ export default function SearchSection({ onLoadProduct }: SearchSectionProps) {
   const [allProducts, setAllProducts] = useState<ProductSummary[]>([]);
   const [isLoadingProducts, setIsLoadingProducts] = useState(true);
   const [viewMode, setViewMode] = useState<'search' | 'table'>('table');
+  const [catalog, setCatalog] = useState<Product[]>([]);
 
   // Load all products on component mount
   useEffect(() => {
     loadAllProducts();
   }, []);
 
+  // Reorder levels come from the catalog
+  useEffect(() => {
+    fetchProducts()
+      .then(setCatalog)
+      .catch(error => console.error('Error loading product catalog:', error));
+  }, []);
+
+  const productStatus = (itemName: string, stock: number) =>
+    STOCK_STATUS_BADGES[stockStatus(stock, catalog.find(product => product.name === itemName))];
+
   const loadAllProducts = async () => {
     setIsLoadingProducts(true);
     try {
-      const { data: records, error } = await supabase
-        .from('inventory_records')
-        .select('*')
-        .order('date', { ascending: false });
-
-      if (error) throw error;
+      const records = await fetchAllRecords();
 
-      if (!records || records.length === 0) {
+      if (records.length === 0) {
         setAllProducts([]);
         return;
       }
 
+      // Current stock and trend are taken across every location
+      const stockByProduct = new Map(currentStockByLocation(records).map(row => [row.item_name, row.total]));
+      const consolidatedByProduct = new Map<string, InventoryRecord[]>();
+      consolidateRecords(records).forEach(record => {
+        consolidatedByProduct.set(record.item_name, [...(consolidatedByProduct.get(record.item_name) || []), record]);
+      });
+
       // Group records by product name and get latest record for each
       const productGroups = new Map<string, InventoryRecord[]>();
       records.forEach(record => {
@@ -59,11 +74,12 @@ export default function SearchSection({ onLoadProduct }: SearchSectionProps) {
         const sortedRecords = productRecords.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
         const latestRecord = sortedRecords[0];
         
-        // Calculate stock trend (compare last 2 records if available)
+        // Calculate stock trend (compare last 2 days if available)
         let stockTrend: 'increasing' | 'decreasing' | 'stable' = 'stable';
-        if (sortedRecords.length >= 2) {
-          const currentStock = sortedRecords[0].closing_stock;
-          const previousStock = sortedRecords[1].closing_stock;
+        const days = consolidatedByProduct.get(itemName) || [];
+        if (days.length >= 2) {
+          const currentStock = days[days.length - 1].closing_stock;
+          const previousStock = days[days.length - 2].closing_stock;
           if (currentStock > previousStock) stockTrend = 'increasing';
           else if (currentStock < previousStock) stockTrend = 'decreasing';
         }
@@ -71,7 +87,7 @@ export default function SearchSection({ onLoadProduct }: SearchSectionProps) {
         return {
           item_name: itemName,
           latest_record: latestRecord,
-          current_stock: latestRecord.closing_stock,
+          current_stock: stockByProduct.get(itemName) ?? latestRecord.closing_stock,
           last_updated: latestRecord.date,
           total_records: productRecords.length,
           stock_trend: stockTrend
@@ -99,29 +115,24 @@ export default function SearchSection({ onLoadProduct }: SearchSectionProps) {
     setIsSearching(true);
     
     try {
-      const { data: records, error } = await supabase
-        .from('inventory_records')
-        .select('*')
-        .or(`item_name.ilike.%${searchTerm}%`)
-        .order('date', { ascending: false });
+      const records = await fetchAllRecords({ search: searchTerm.trim() });
 
-      if (error) throw error;
-
-      if (!records || records.length === 0) {
+      if (records.length === 0) {
         setSearchResults([]);
         return;
       }
 
-      // Get unique products that match the search term
+      // Get unique products that match the search term, one per location they are held at
       const uniqueProducts = new Map();
       records.forEach(record => {
-        if (!uniqueProducts.has(record.item_name)) {
-          uniqueProducts.set(record.item_name, record);
+        const key = `${record.item_name}|${record.location}`;
+        if (!uniqueProducts.has(key)) {
+          uniqueProducts.set(key, record);
         } else {
           // Keep the most recent record for each product
-          const existing = uniqueProducts.get(record.item_name);
+          const existing = uniqueProducts.get(key);
           if (new Date(record.date) > new Date(existing.date)) {
-            uniqueProducts.set(record.item_name, record);
+            uniqueProducts.set(key, record);
           }
         }
       });
@@ -263,7 +274,7 @@ export default function SearchSection({ onLoadProduct }: SearchSectionProps) {
                     
                     <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-3 text-xs sm:text-sm">
                       <div className="flex flex-col sm:block">
-                        <span className="font-semibold text-gray-600">Current Stock:</span>
+                        <span className="font-semibold text-gray-600">Current Stock (all locations):</span>
                         <p className="text-gray-800 sm:mt-1 font-semibold">{product.current_stock}</p>
                       </div>
                       <div className="flex flex-col sm:block">
@@ -277,11 +288,9 @@ export default function SearchSection({ onLoadProduct }: SearchSectionProps) {
                       <div className="flex flex-col sm:block">
                         <span className="font-semibold text-gray-600">Status:</span>
                         <span className={`px-2 py-1 rounded-full text-xs font-semibold self-start ${
-                          product.current_stock > 0 
-                            ? 'bg-green-100 text-green-800' 
-                            : 'bg-red-100 text-red-800'
+                          productStatus(product.item_name, product.current_stock).className
                         }`}>
-                          {product.current_stock > 0 ? '🟢 In Stock' : '🔴 Out of Stock'}
+                          {productStatus(product.item_name, product.current_stock).label}
                         </span>
                       </div>
                     </div>
@@ -315,12 +324,14 @@ export default function SearchSection({ onLoadProduct }: SearchSectionProps) {
               <div className="space-y-3">
                 {searchResults.map((record) => (
                   <div
-                    key={`${record.item_name}-${record.date}`}
+                    key={`${record.item_name}-${record.location}-${record.date}`}
                     onClick={() => handleLoadProduct(record)}
                     className="p-3 sm:p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-all duration-200 cursor-pointer hover:-translate-y-1 hover:shadow-md active:bg-gray-100"
                   >
                     <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start mb-3 gap-2">
-                      <h5 className="text-base sm:text-lg font-semibold text-gray-800 break-words">{record.item_name}</h5>
+                      <h5 className="text-base sm:text-lg font-semibold text-gray-800 break-words">
+                        {record.item_name} <span className="text-sm font-normal text-gray-500">· {record.location}</span>
+                      </h5>
                       <span className="bg-gradient-to-r from-blue-500 to-purple-600 text-white px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm font-semibold animate-pulse self-start sm:self-auto">
                         👆 Tap to load
                       </span>
@@ -347,12 +358,11 @@ export default function SearchSection({ onLoadProduct }: SearchSectionProps) {
                     
                     <div className="mt-3 flex flex-col sm:flex-row sm:items-center gap-2">
                       <span className="font-semibold text-gray-600 text-xs sm:text-sm">Status:</span>
+                      {/* Reorder levels are set for the product as a whole, so one location's stock is only in or out */}
                       <span className={`px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm font-semibold self-start ${
-                        record.closing_stock > 0 
-                          ? 'bg-green-100 text-green-800' 
-                          : 'bg-red-100 text-red-800'
+                        STOCK_STATUS_BADGES[stockStatus(record.closing_stock)].className
                       }`}>
-                        {record.closing_stock > 0 ? '🟢 In Stock' : '🔴 Out of Stock'}
+                        {STOCK_STATUS_BADGES[stockStatus(record.closing_stock)].label}
                       </span>
                     </div>
                   </div>
@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import { ApiError, signIn } from '../lib/inventoryApi';
+import { Session } from '../types/inventory';
+
+interface SignInFormProps {
+  onSignedIn: (session: Session) => void;
+}
+
+export default function SignInForm({ onSignedIn }: SignInFormProps) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSigningIn(true);
+    setError(null);
+
+    try {
+      onSignedIn(await signIn(username.trim(), password));
+    } catch (error) {
+      console.error('Error signing in:', error);
+      setError(error instanceof ApiError ? error.message : 'Sign in failed. Please try again.');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-400 to-purple-600 p-4 flex items-center justify-center">
+      <form onSubmit={handleSubmit} className="w-full max-w-md bg-white rounded-3xl shadow-2xl p-8">
+        <h1 className="text-3xl font-bold text-gray-800 mb-2 text-center">📦 Sign In</h1>
+        <p className="text-gray-600 mb-8 text-center">Use the account your administrator gave you</p>
+
+        <label className="block mb-2 font-semibold text-gray-700 uppercase tracking-wide text-sm">Username</label>
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          required
+          className="w-full p-4 mb-6 border-2 border-gray-200 text-gray-700 rounded-xl text-lg transition-all duration-300 focus:border-blue-500 focus:bg-white focus:shadow-lg"
+        />
+
+        <label className="block mb-2 font-semibold text-gray-700 uppercase tracking-wide text-sm">Password</label>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          required
+          className="w-full p-4 mb-6 border-2 border-gray-200 text-gray-700 rounded-xl text-lg transition-all duration-300 focus:border-blue-500 focus:bg-white focus:shadow-lg"
+        />
+
+        {error && (
+          <div className="mb-6 p-3 rounded-lg border border-red-300 bg-red-50 text-red-700">{error}</div>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSigningIn}
+          className="w-full px-8 py-4 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSigningIn ? '🔐 Signing in...' : '🔐 Sign In'}
+        </button>
+      </form>
+    </div>
+  );
+}
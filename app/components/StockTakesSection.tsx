@@ -0,0 +1,394 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  ApiError,
+  fetchLocations,
+  fetchReasonCodes,
+  fetchStockTake,
+  fetchStockTakes,
+  openStockTake,
+  recordStockTakeCounts,
+  reviewStockTake
+} from '../lib/inventoryApi';
+import { today } from '../lib/validation';
+import { ReasonCode, StockTake, StockTakeLine, StockTakeStatus } from '../types/inventory';
+
+interface StockTakesSectionProps {
+  canCount: boolean;
+  canPost: boolean;
+  onStockTakePosted?: () => void;
+}
+
+const variance = (line: StockTakeLine) =>
+  line.counted === null || line.system_quantity === null ? null : line.counted - line.system_quantity;
+
+export default function StockTakesSection({ canCount, canPost, onStockTakePosted }: StockTakesSectionProps) {
+  const [statusFilter, setStatusFilter] = useState<StockTakeStatus>('counting');
+  const [sessions, setSessions] = useState<StockTake[]>([]);
+  const [selected, setSelected] = useState<StockTake | null>(null);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [locations, setLocations] = useState<string[]>([]);
+  const [reasonCodes, setReasonCodes] = useState<ReasonCode[]>([]);
+  const [draft, setDraft] = useState({ location: '', date: today(), note: '' });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    fetchLocations()
+      .then(list => {
+        setLocations(list.locations);
+        setDraft(prev => ({ ...prev, location: prev.location || list.default }));
+      })
+      .catch(error => console.error('Error loading locations:', error));
+
+    fetchReasonCodes()
+      .then(setReasonCodes)
+      .catch(error => console.error('Error loading reason codes:', error));
+  }, []);
+
+  const reasonLabel = (code: string | null) =>
+    reasonCodes.find(reason => reason.code === code)?.label || code || '—';
+
+  useEffect(() => {
+    loadSessions(statusFilter);
+  }, [statusFilter]);
+
+  const loadSessions = async (status: StockTakeStatus) => {
+    setIsLoading(true);
+    try {
+      setSessions(await fetchStockTakes(status));
+    } catch (error) {
+      console.error('Error loading stock-takes:', error);
+      setSessions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectSession = async (id: number) => {
+    try {
+      const stockTake = await fetchStockTake(id);
+      setSelected(stockTake);
+      setCounts(Object.fromEntries(stockTake.lines.map(line => [line.item_name, line.counted === null ? '' : String(line.counted)])));
+      setReasons(Object.fromEntries(stockTake.lines.map(line => [line.item_name, line.reason_code || ''])));
+    } catch (error) {
+      console.error('Error loading stock-take:', error);
+      setMessage({ text: '❌ Could not load the stock-take', type: 'error' });
+    }
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    const details = error instanceof ApiError && error.errors.length > 0
+      ? `: ${error.errors.map(e => e.message).join('; ')}`
+      : '';
+    setMessage({ text: `❌ ${error instanceof Error ? error.message : fallback}${details}`, type: 'error' });
+  };
+
+  const handleOpen = async () => {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const stockTake = await openStockTake({
+        location: draft.location,
+        date: draft.date,
+        note: draft.note.trim() || undefined
+      });
+      setMessage({ text: `✅ ${stockTake.reference} opened with ${stockTake.lines.length} products to count`, type: 'success' });
+      setDraft(prev => ({ ...prev, note: '' }));
+      setStatusFilter('counting');
+      await loadSessions('counting');
+      await selectSession(stockTake.id!);
+    } catch (error) {
+      console.error('Error opening stock-take:', error);
+      showError(error, 'Could not open the stock-take');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveCounts = async () => {
+    if (!selected) return;
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      await recordStockTakeCounts(selected.id!, selected.lines.map(line => ({
+        item_name: line.item_name,
+        counted: counts[line.item_name] === '' ? null : Number(counts[line.item_name])
+      })));
+      setMessage({ text: `💾 Counts saved for ${selected.reference}`, type: 'success' });
+      await selectSession(selected.id!);
+    } catch (error) {
+      console.error('Error saving counts:', error);
+      showError(error, 'Could not save the counts');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Only lines given a reason are posted; the rest are closed without an adjustment
+  const handlePost = async () => {
+    if (!selected) return;
+    const approvals = selected.lines
+      .filter(line => reasons[line.item_name] && variance(line))
+      .map(line => ({ item_name: line.item_name, reason_code: reasons[line.item_name] }));
+
+    if (!confirm(`Post ${approvals.length} adjustment(s) for ${selected.reference} and close it?`)) return;
+
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const posted = await reviewStockTake(selected.id!, { action: 'post', approvals });
+      setMessage({ text: `✅ ${posted.reference} posted with ${approvals.length} adjustment(s)`, type: 'success' });
+      setSelected(null);
+      await loadSessions(statusFilter);
+      if (onStockTakePosted) {
+        onStockTakePosted();
+      }
+    } catch (error) {
+      console.error('Error posting stock-take:', error);
+      showError(error, 'Could not post the stock-take');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!selected || !confirm(`Cancel ${selected.reference}? Nothing will be posted.`)) return;
+    setIsSaving(true);
+
+    try {
+      await reviewStockTake(selected.id!, { action: 'cancel' });
+      setMessage({ text: `🚫 ${selected.reference} cancelled`, type: 'success' });
+      setSelected(null);
+      await loadSessions(statusFilter);
+    } catch (error) {
+      console.error('Error cancelling stock-take:', error);
+      showError(error, 'Could not cancel the stock-take');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'p-2 border-2 border-gray-200 text-gray-700 rounded-lg text-sm focus:border-blue-500';
+  const isOpen = selected?.status === 'counting';
+  // Counts typed but not saved yet already show their variance
+  const displayedLine = (line: StockTakeLine): StockTakeLine => ({
+    ...line,
+    counted: isOpen && counts[line.item_name] !== undefined
+      ? (counts[line.item_name] === '' ? null : Number(counts[line.item_name]))
+      : line.counted
+  });
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8">
+      <div className="bg-gray-50 p-4 sm:p-6 rounded-2xl mb-6 sm:mb-8 shadow-inner">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-4 sm:mb-6">
+          <div>
+            <h3 className="text-xl sm:text-2xl font-semibold text-gray-800 mb-2">📋 Stock-takes</h3>
+            <p className="text-sm sm:text-base text-gray-600">Physical counts reconciled against the computed balance</p>
+          </div>
+
+          <div className="flex bg-white rounded-lg p-1 shadow-sm mt-4 sm:mt-0">
+            {(['counting', 'posted', 'cancelled'] as StockTakeStatus[]).map(status => (
+              <button
+                key={status}
+                onClick={() => { setStatusFilter(status); setSelected(null); }}
+                className={`px-4 py-2 rounded-md text-sm font-medium capitalize transition-all duration-200 ${
+                  statusFilter === status
+                    ? 'bg-blue-500 text-white shadow-sm'
+                    : 'text-gray-600 hover:text-gray-800'
+                }`}
+              >
+                {status}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {canCount && (
+          <div className="flex flex-col sm:flex-row gap-3 mb-4">
+            <select
+              value={draft.location}
+              onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+              className={inputClass}
+            >
+              {locations.map(location => <option key={location} value={location}>{location}</option>)}
+            </select>
+            <input
+              type="date"
+              value={draft.date}
+              max={today()}
+              onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={draft.note}
+              onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+              placeholder="Note (optional)"
+              className={`flex-1 ${inputClass}`}
+            />
+            <button
+              onClick={handleOpen}
+              disabled={isSaving}
+              className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+            >
+              ➕ Start Stock-take
+            </button>
+          </div>
+        )}
+
+        {message && (
+          <div className={`p-3 rounded-lg border ${
+            message.type === 'success'
+              ? 'border-green-300 bg-green-50 text-green-700'
+              : 'border-red-300 bg-red-50 text-red-700'
+          }`}>
+            {message.text}
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-gray-500">Loading stock-takes...</div>
+      ) : sessions.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <div className="text-4xl sm:text-5xl mb-4">📋</div>
+          <p className="text-sm sm:text-base">No {statusFilter} stock-takes</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {sessions.map(session => (
+            <div key={session.id} className="p-4 border border-gray-200 rounded-xl bg-white shadow-sm">
+              <div
+                className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 cursor-pointer"
+                onClick={() => selected?.id === session.id ? setSelected(null) : selectSession(session.id!)}
+              >
+                <div>
+                  <h5 className="text-base sm:text-lg font-semibold text-gray-800">
+                    <span className="font-mono">{session.reference}</span> · {session.location} — {session.date}
+                  </h5>
+                  <p className="text-sm text-gray-600">
+                    Opened by {session.created_by} on {new Date(session.created_at).toLocaleString()}
+                    {session.posted_by && ` · posted by ${session.posted_by}`}
+                  </p>
+                  {session.note && <p className="text-sm text-gray-600 italic">{session.note}</p>}
+                </div>
+                <span className="text-sm text-blue-600">
+                  {session.lines.filter(line => line.counted !== null).length} of {session.lines.length} counted
+                  {selected?.id === session.id ? ' ▼' : ' ▶'}
+                </span>
+              </div>
+
+              {selected && selected.id === session.id && (
+                <div className="mt-4 border-t border-gray-200 pt-4">
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-600">
+                          <th className="py-1 pr-4">Product</th>
+                          <th className="py-1 pr-4 text-right">System</th>
+                          <th className="py-1 pr-4 text-right">Counted</th>
+                          <th className="py-1 pr-4 text-right">Variance</th>
+                          <th className="py-1 pr-4">Reason</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {selected.lines.map(storedLine => {
+                          const line = displayedLine(storedLine);
+                          const difference = variance(line);
+                          return (
+                            <tr key={line.item_name} className="border-t border-gray-100 text-gray-800">
+                              <td className="py-2 pr-4 font-semibold">{line.item_name}</td>
+                              <td className="py-2 pr-4 text-right">{line.system_quantity ?? '—'}</td>
+                              <td className="py-2 pr-4 text-right">
+                                {isOpen && canCount ? (
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    value={counts[line.item_name] ?? ''}
+                                    onChange={(e) => setCounts(prev => ({ ...prev, [line.item_name]: e.target.value }))}
+                                    className={`w-24 text-right ${inputClass}`}
+                                  />
+                                ) : (line.counted ?? '—')}
+                              </td>
+                              <td className={`py-2 pr-4 text-right font-semibold ${
+                                !difference ? 'text-gray-500' : difference > 0 ? 'text-green-600' : 'text-red-600'
+                              }`}>
+                                {difference === null ? '—' : `${difference > 0 ? '+' : ''}${difference}`}
+                              </td>
+                              <td className="py-2 pr-4">
+                                {isOpen && canPost && difference ? (
+                                  <select
+                                    value={reasons[line.item_name] || ''}
+                                    onChange={(e) => setReasons(prev => ({ ...prev, [line.item_name]: e.target.value }))}
+                                    className={inputClass}
+                                  >
+                                    <option value="">Do not post</option>
+                                    {reasonCodes.map(reason => (
+                                      <option key={reason.code} value={reason.code}>{reason.label}</option>
+                                    ))}
+                                  </select>
+                                ) : line.posted ? (
+                                  <span className="text-purple-700">✅ {reasonLabel(line.reason_code)}</span>
+                                ) : (
+                                  <span className="text-gray-400">—</span>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {isOpen && (
+                    <div className="flex flex-col sm:flex-row gap-3 mt-4">
+                      {canCount && (
+                        <button
+                          onClick={handleSaveCounts}
+                          disabled={isSaving}
+                          className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+                        >
+                          💾 Save Counts
+                        </button>
+                      )}
+                      {canPost && (
+                        <>
+                          <button
+                            onClick={handlePost}
+                            disabled={isSaving}
+                            className="px-6 py-2 bg-gradient-to-r from-green-500 to-teal-500 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+                          >
+                            ✅ Post Approved Variances
+                          </button>
+                          <button
+                            onClick={handleCancel}
+                            disabled={isSaving}
+                            className="px-6 py-2 bg-gradient-to-r from-red-500 to-pink-500 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+                          >
+                            🚫 Cancel
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                  {isOpen && canPost && (
+                    <p className="text-xs text-gray-500 mt-2">Save the counts before posting; only saved counts are posted.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
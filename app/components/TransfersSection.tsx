@@ -0,0 +1,251 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ApiError, fetchLocations, fetchProducts, fetchTransfers, postTransfer } from '../lib/inventoryApi';
+import { today } from '../lib/validation';
+import { Product, StockTransfer } from '../types/inventory';
+
+interface TransfersSectionProps {
+  canPost: boolean;
+  onTransferPosted?: () => void;
+}
+
+interface TransferDraft {
+  itemName: string;
+  fromLocation: string;
+  toLocation: string;
+  quantity: string;
+  date: string;
+  reference: string;
+  note: string;
+}
+
+const emptyDraft = (fromLocation = '', toLocation = ''): TransferDraft => ({
+  itemName: '',
+  fromLocation,
+  toLocation,
+  quantity: '',
+  date: today(),
+  reference: '',
+  note: ''
+});
+
+export default function TransfersSection({ canPost, onTransferPosted }: TransfersSectionProps) {
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [catalog, setCatalog] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<string[]>([]);
+  const [draft, setDraft] = useState<TransferDraft>(emptyDraft());
+  const [locationFilter, setLocationFilter] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPosting, setIsPosting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    fetchProducts({ activeOnly: true })
+      .then(setCatalog)
+      .catch(error => console.error('Error loading product catalog:', error));
+
+    fetchLocations()
+      .then(list => {
+        setLocations(list.locations);
+        setDraft(prev => ({ ...prev, fromLocation: list.locations[0] || '', toLocation: list.locations[1] || '' }));
+      })
+      .catch(error => console.error('Error loading locations:', error));
+  }, []);
+
+  useEffect(() => {
+    loadTransfers(locationFilter);
+  }, [locationFilter]);
+
+  const loadTransfers = async (location: string) => {
+    setIsLoading(true);
+    try {
+      setTransfers(await fetchTransfers({ location }));
+    } catch (error) {
+      console.error('Error loading transfers:', error);
+      setTransfers([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!draft.itemName || !draft.fromLocation || !draft.toLocation || !draft.quantity) {
+      setMessage({ text: 'Choose a product, both locations and a quantity.', type: 'error' });
+      return;
+    }
+
+    setIsPosting(true);
+    setMessage(null);
+
+    try {
+      const posted = await postTransfer({
+        item_name: draft.itemName,
+        from_location: draft.fromLocation,
+        to_location: draft.toLocation,
+        quantity: Number(draft.quantity),
+        date: draft.date,
+        reference: draft.reference.trim() || undefined,
+        note: draft.note.trim() || undefined
+      });
+
+      setMessage({
+        text: `✅ ${posted.reference}: ${posted.quantity} of ${posted.item_name} moved from ${posted.from_location} to ${posted.to_location}`,
+        type: 'success'
+      });
+      setDraft(emptyDraft(draft.fromLocation, draft.toLocation));
+      await loadTransfers(locationFilter);
+      if (onTransferPosted) {
+        onTransferPosted();
+      }
+    } catch (error) {
+      console.error('Error posting transfer:', error);
+      const details = error instanceof ApiError && error.errors.length > 0
+        ? `: ${error.errors.map(e => e.message).join('; ')}`
+        : '';
+      setMessage({ text: `❌ ${error instanceof Error ? error.message : 'Transfer failed'}${details}`, type: 'error' });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const inputClass = 'w-full p-3 border-2 border-gray-200 text-gray-700 rounded-xl text-base transition-all duration-300 focus:border-blue-500 focus:bg-white focus:shadow-lg';
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8">
+      <div className="mb-6">
+        <h3 className="text-xl sm:text-2xl font-semibold text-gray-800 mb-2">🚚 Stock Transfers</h3>
+        <p className="text-sm sm:text-base text-gray-600">Moving stock takes it out of one location and into another on the same day</p>
+      </div>
+
+      {canPost && (
+        <div className="bg-gray-50 p-4 sm:p-6 rounded-2xl mb-6 shadow-inner">
+          <h4 className="text-lg font-semibold text-gray-800 mb-4">➕ New Transfer</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            <select
+              value={draft.itemName}
+              onChange={(e) => setDraft({ ...draft, itemName: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Product...</option>
+              {catalog.map(product => (
+                <option key={product.id} value={product.name}>{product.code} — {product.name}</option>
+              ))}
+            </select>
+            <select
+              value={draft.fromLocation}
+              onChange={(e) => setDraft({ ...draft, fromLocation: e.target.value })}
+              className={inputClass}
+            >
+              {locations.map(location => <option key={location} value={location}>From: {location}</option>)}
+            </select>
+            <select
+              value={draft.toLocation}
+              onChange={(e) => setDraft({ ...draft, toLocation: e.target.value })}
+              className={inputClass}
+            >
+              {locations.map(location => <option key={location} value={location}>To: {location}</option>)}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={draft.quantity}
+              onChange={(e) => setDraft({ ...draft, quantity: e.target.value })}
+              placeholder="Quantity"
+              className={inputClass}
+            />
+            <input
+              type="date"
+              value={draft.date}
+              min={today()}
+              max={today()}
+              onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={draft.reference}
+              onChange={(e) => setDraft({ ...draft, reference: e.target.value })}
+              placeholder="Reference (optional)"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={draft.note}
+              onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+              placeholder="Note (optional)"
+              className={`${inputClass} lg:col-span-2`}
+            />
+          </div>
+          <button
+            onClick={handlePost}
+            disabled={isPosting}
+            className="mt-4 px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-semibold rounded-full hover:-translate-y-1 hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+          >
+            {isPosting ? '🚚 Posting...' : '🚚 Post Transfer'}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div className={`mb-6 p-3 rounded-lg border ${
+          message.type === 'success'
+            ? 'border-green-300 bg-green-50 text-green-700'
+            : 'border-red-300 bg-red-50 text-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex justify-end mb-3">
+        <select
+          value={locationFilter}
+          onChange={(e) => setLocationFilter(e.target.value)}
+          className="border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All locations</option>
+          {locations.map(location => <option key={location} value={location}>{location}</option>)}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-gray-500">Loading transfers...</div>
+      ) : transfers.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <div className="text-4xl sm:text-5xl mb-4">🚚</div>
+          <p className="text-sm sm:text-base">No transfers posted yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-xl bg-white shadow-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100 text-left text-gray-600">
+              <tr>
+                <th className="p-3">Date</th>
+                <th className="p-3">Reference</th>
+                <th className="p-3">Product</th>
+                <th className="p-3">From</th>
+                <th className="p-3">To</th>
+                <th className="p-3 text-right">Quantity</th>
+                <th className="p-3">Posted By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {transfers.map(transfer => (
+                <tr key={transfer.id} className="border-t border-gray-200 text-gray-700">
+                  <td className="p-3">{transfer.date}</td>
+                  <td className="p-3 font-mono">{transfer.reference}</td>
+                  <td className="p-3 font-semibold">{transfer.item_name}</td>
+                  <td className="p-3">{transfer.from_location}</td>
+                  <td className="p-3">{transfer.to_location}</td>
+                  <td className="p-3 text-right font-semibold">{transfer.quantity}</td>
+                  <td className="p-3" title={transfer.note || undefined}>{transfer.created_by}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,48 +2,69 @@
 
 import { useState, useEffect } from 'react';
 
-import { InventoryRecord } from '../types/inventory';
+import { InventoryRecord, Session } from '../types/inventory';
+import { fetchAllRecords, fetchSession, signOut } from '../lib/inventoryApi';
+import { can } from '../lib/permissions';
 import InventoryForm from '../components/InventoryForm';
 import SearchSection from '../components/SearchSection';
 import HistorySection from '../components/HistorySection';
 import ExportSection from '../components/ExportSection';
 import ProductHistoryDetail from '../components/ProductHistoryDetail';
 import ReportsSection from '../components/ReportsSection';
+import CorrectionsSection from '../components/CorrectionsSection';
+import SignInForm from '../components/SignInForm';
+import ProductsSection from '../components/ProductsSection';
+import TransfersSection from '../components/TransfersSection';
+import StockTakesSection from '../components/StockTakesSection';
+import PurchasingSection from '../components/PurchasingSection';
+import ProductionSection from '../components/ProductionSection';
+import RebaggingSection from '../components/RebaggingSection';
 
 export default function InventoryPage() {
   const [activeSection, setActiveSection] = useState('search');
   const [records, setRecords] = useState<InventoryRecord[]>([]);
   const [selectedProduct, setSelectedProduct] = useState<InventoryRecord | null>(null);
   const [viewingProductHistory, setViewingProductHistory] = useState<string | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
 
   useEffect(() => {
-    loadHistory();
+    fetchSession()
+      .then(setSession)
+      .catch(error => console.error('Error loading session:', error))
+      .finally(() => setIsCheckingSession(false));
   }, []);
 
+  useEffect(() => {
+    if (session) {
+      loadHistory();
+    }
+  }, [session]);
+
   // Load history when history tab is clicked
   useEffect(() => {
-    if (activeSection === 'history') {
+    if (session && activeSection === 'history') {
       loadHistory();
     }
-  }, [activeSection]);
+  }, [activeSection, session]);
 
   const loadHistory = async () => {
     try {
       console.log('Loading history data...');
-      const response = await fetch('/api/inventory/records');
-      if (response.ok) {
-        const data = await response.json();
-        console.log('History data loaded:', data);
-        setRecords(data.records || []);
-      } else {
-        console.error('Failed to load history:', response.status);
-      }
+      const allRecords = await fetchAllRecords();
+      console.log('History data loaded:', allRecords.length, 'records');
+      setRecords(allRecords);
     } catch (error) {
       console.error('Error loading history:', error);
     }
   };
 
+  // Only storekeepers have the entry form; everyone else opens the product's history instead
   const handleLoadProduct = (record: InventoryRecord) => {
+    if (!can(session?.role, 'records:write')) {
+      setViewingProductHistory(record.item_name);
+      return;
+    }
     setSelectedProduct(record);
     setActiveSection('entry');
   };
@@ -56,6 +77,21 @@ export default function InventoryPage() {
     setViewingProductHistory(null);
   };
 
+  const handleSignOut = async () => {
+    await signOut();
+    setSession(null);
+    setRecords([]);
+    setActiveSection('search');
+  };
+
+  if (isCheckingSession) {
+    return <div className="min-h-screen bg-gradient-to-br from-blue-400 to-purple-600" />;
+  }
+
+  if (!session) {
+    return <SignInForm onSignedIn={setSession} />;
+  }
+
   if (viewingProductHistory) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-400 to-purple-600 p-4">
@@ -76,21 +112,32 @@ export default function InventoryPage() {
         <div className="bg-gradient-to-r from-gray-800 to-gray-700 text-white p-8 text-center">
           <h1 className="text-4xl font-bold mb-4">📦 Inventory Management System</h1>
           <p className="text-xl text-gray-300">Track, manage, and analyze your inventory with precision</p>
+          <div className="mt-4 flex items-center justify-center gap-3 text-sm text-gray-300">
+            <span>👤 {session.username} ({session.role})</span>
+            <button
+              onClick={handleSignOut}
+              className="px-3 py-1 rounded-lg bg-gray-600 hover:bg-gray-500 text-white transition-colors"
+            >
+              Sign out
+            </button>
+          </div>
         </div>
 
         {/* Navigation Tabs */}
         <div className="bg-gray-100 px-8 pt-6">
           <div className="flex flex-wrap gap-2 justify-center">
-            <button
-              onClick={() => setActiveSection('entry')}
-              className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ${
-                activeSection === 'entry'
-                  ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg scale-105'
-                  : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
-              }`}
-            >
-              📝 New Entry
-            </button>
+            {can(session.role, 'records:write') && (
+              <button
+                onClick={() => setActiveSection('entry')}
+                className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ${
+                  activeSection === 'entry'
+                    ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg scale-105'
+                    : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+                }`}
+              >
+                📝 New Entry
+              </button>
+            )}
             
             <button
               onClick={() => setActiveSection('search')}
@@ -126,21 +173,102 @@ export default function InventoryPage() {
             </button>
             
             <button
-              onClick={() => setActiveSection('export')}
+              onClick={() => setActiveSection('products')}
+              className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ${
+                activeSection === 'products'
+                  ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg scale-105'
+                  : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+              }`}
+            >
+              🏷️ Products
+            </button>
+
+            <button
+              onClick={() => setActiveSection('transfers')}
+              className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ${
+                activeSection === 'transfers'
+                  ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg scale-105'
+                  : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+              }`}
+            >
+              🚚 Transfers
+            </button>
+
+            <button
+              onClick={() => setActiveSection('stocktakes')}
+              className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ${
+                activeSection === 'stocktakes'
+                  ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg scale-105'
+                  : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+              }`}
+            >
+              📋 Stock-takes
+            </button>
+
+            <button
+              onClick={() => setActiveSection('purchasing')}
+              className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ${
+                activeSection === 'purchasing'
+                  ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg scale-105'
+                  : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+              }`}
+            >
+              🧾 Purchasing
+            </button>
+
+            <button
+              onClick={() => setActiveSection('production')}
               className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ${
-                activeSection === 'export'
+                activeSection === 'production'
                   ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg scale-105'
                   : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
               }`}
             >
-              📤 Export
+              ⚙️ Production
             </button>
+
+            <button
+              onClick={() => setActiveSection('rebagging')}
+              className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ${
+                activeSection === 'rebagging'
+                  ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg scale-105'
+                  : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+              }`}
+            >
+              🔁 Rebagging
+            </button>
+            
+            {can(session.role, 'records:export') && (
+              <button
+                onClick={() => setActiveSection('export')}
+                className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ${
+                  activeSection === 'export'
+                    ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg scale-105'
+                    : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+                }`}
+              >
+                📤 Export
+              </button>
+            )}
+            
+            {(can(session.role, 'corrections:request') || can(session.role, 'corrections:review')) && (
+              <button
+                onClick={() => setActiveSection('corrections')}
+                className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ${
+                  activeSection === 'corrections'
+                    ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg scale-105'
+                    : 'bg-white text-gray-700 hover:shadow-lg hover:-translate-y-1'
+                }`}
+              >
+                🛠️ Corrections
+              </button>
+            )}
           </div>
         </div>
 
         {/* Content Sections */}
         <div className="min-h-[600px]">
-          {activeSection === 'entry' && (
+          {activeSection === 'entry' && can(session.role, 'records:write') && (
             <InventoryForm
               onRecordSaved={loadHistory}
               selectedProduct={selectedProduct}
@@ -163,9 +291,64 @@ export default function InventoryPage() {
             <ReportsSection records={records} />
           )}
           
-          {activeSection === 'export' && (
+          {activeSection === 'products' && (
+            <ProductsSection
+              records={records}
+              canManage={can(session.role, 'products:manage')}
+              canMerge={can(session.role, 'products:merge')}
+              onHistoryChanged={loadHistory}
+            />
+          )}
+          
+          {activeSection === 'transfers' && (
+            <TransfersSection
+              canPost={can(session.role, 'transfers:post')}
+              onTransferPosted={loadHistory}
+            />
+          )}
+
+          {activeSection === 'stocktakes' && (
+            <StockTakesSection
+              canCount={can(session.role, 'stocktakes:count')}
+              canPost={can(session.role, 'stocktakes:post')}
+              onStockTakePosted={loadHistory}
+            />
+          )}
+
+          {activeSection === 'purchasing' && (
+            <PurchasingSection
+              canManageSuppliers={can(session.role, 'suppliers:manage')}
+              canOrder={can(session.role, 'purchases:order')}
+              canReceive={can(session.role, 'purchases:receive')}
+              onStockReceived={loadHistory}
+            />
+          )}
+
+          {activeSection === 'production' && (
+            <ProductionSection
+              canPlan={can(session.role, 'production:plan')}
+              canIssue={can(session.role, 'production:issue')}
+              onMaterialsIssued={loadHistory}
+            />
+          )}
+
+          {activeSection === 'rebagging' && (
+            <RebaggingSection
+              canPost={can(session.role, 'production:issue')}
+              onRebaggingPosted={loadHistory}
+            />
+          )}
+          
+          {activeSection === 'export' && can(session.role, 'records:export') && (
             <ExportSection records={records} />
           )}
+          
+          {activeSection === 'corrections' && (
+            <CorrectionsSection
+              canReview={can(session.role, 'corrections:review')}
+              onCorrectionApplied={loadHistory}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,75 @@
+import { AuditAction, AuditEntry, AuditSource, InventoryRecord } from '../types/inventory';
+import { InventoryRepository } from './repository';
+
+export const AUDIT_SOURCES: AuditSource[] = ['ui', 'api', 'import'];
+
+// Who is writing and through which channel; stamped on every audit entry
+export interface WriteContext {
+  actor: string;
+  source: AuditSource;
+}
+
+// The actor is the signed-in user; clients may set X-Inventory-Source to say which
+// channel the write came through. Anything that does not is treated as a plain API call.
+export const writeContextFrom = (request: Request, actor: string): WriteContext => {
+  const source = request.headers.get('x-inventory-source') as AuditSource | null;
+
+  return {
+    actor,
+    source: source && AUDIT_SOURCES.includes(source) ? source : 'api'
+  };
+};
+
+export interface AuditChange {
+  action: AuditAction;
+  before: InventoryRecord | null;
+  after: InventoryRecord | null;
+  note?: string;
+}
+
+const auditLog = (repository: InventoryRepository) => repository.collection<AuditEntry>('inventory_audit');
+
+// The log is append-only: this module never updates or deletes an entry
+export const appendAudit = async (repository: InventoryRepository, context: WriteContext, changes: AuditChange[]) => {
+  const recordedAt = new Date().toISOString();
+  const log = auditLog(repository);
+
+  for (const { action, before, after, note } of changes) {
+    const snapshot = (after || before)!;
+    await log.insert({
+      record_id: snapshot.id!,
+      item_name: snapshot.item_name,
+      date: snapshot.date,
+      action,
+      before,
+      after,
+      actor: context.actor,
+      source: context.source,
+      note: note || null,
+      recorded_at: recordedAt
+    });
+  }
+};
+
+// Newest first, optionally narrowed to one product or one record. Entries keep the name the
+// record had when they were written, so a product's history also takes in what its records
+// went through under earlier names, found through the entries that renamed or merged them.
+export const listAudit = async (
+  repository: InventoryRepository,
+  filter: Partial<Pick<AuditEntry, 'item_name' | 'record_id'>> = {}
+) => {
+  const log = auditLog(repository);
+  const entries = await log.list(filter);
+
+  if (filter.item_name && filter.record_id === undefined) {
+    const renamed = new Set(
+      entries.filter(entry => entry.before && entry.before.item_name !== entry.item_name).map(entry => entry.record_id)
+    );
+    for (const recordId of renamed) {
+      const earlier = await log.list({ record_id: recordId });
+      entries.push(...earlier.filter(entry => entry.item_name !== filter.item_name));
+    }
+  }
+
+  return entries.sort((a, b) => b.recorded_at.localeCompare(a.recorded_at) || (b.id || 0) - (a.id || 0));
+};
@@ -0,0 +1,103 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { Role, Session } from '../types/inventory';
+import { can, Permission, ROLES } from './permissions';
+
+export const SESSION_COOKIE = 'inventory_session';
+export const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+interface UserAccount {
+  username: string;
+  role: Role;
+  password: string;
+}
+
+// Accounts are configured on the server as
+// INVENTORY_USERS="jane:supervisor:secret,tom:storekeeper:secret2"
+// (username, role and password separated by colons; the password may itself contain colons).
+const loadUsers = () => {
+  const users = new Map<string, UserAccount>();
+
+  (process.env.INVENTORY_USERS || '').split(',').forEach(entry => {
+    const [username, role, ...password] = entry.split(':').map(part => part.trim());
+    if (username && ROLES.includes(role as Role) && password.length > 0) {
+      users.set(username.toLowerCase(), { username, role: role as Role, password: password.join(':') });
+    }
+  });
+
+  return users;
+};
+
+// Hashing both sides first keeps the comparison constant-time regardless of length
+const sameSecret = (a: string, b: string) =>
+  timingSafeEqual(createHash('sha256').update(a).digest(), createHash('sha256').update(b).digest());
+
+export const authenticate = (username: unknown, password: unknown) => {
+  if (typeof username !== 'string' || typeof password !== 'string') return null;
+  const user = loadUsers().get(username.trim().toLowerCase());
+  return user && sameSecret(user.password, password) ? user : null;
+};
+
+const sessionSecret = () => {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) throw new Error('AUTH_SECRET must be set to sign session cookies');
+  return secret;
+};
+
+const sign = (payload: string) => createHmac('sha256', sessionSecret()).update(payload).digest('base64url');
+
+// The cookie value is the base64url JSON session followed by its HMAC
+export const createSessionToken = (user: Pick<UserAccount, 'username' | 'role'>) => {
+  const session: Session = {
+    username: user.username,
+    role: user.role,
+    expires_at: new Date(Date.now() + SESSION_TTL_SECONDS * 1000).toISOString()
+  };
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return { session, token: `${payload}.${sign(payload)}` };
+};
+
+const readSessionToken = (token: string): Session | null => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !sameSecret(sign(payload), signature)) return null;
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Session;
+    // The role is re-checked against the current config so removed users lose access immediately
+    const user = loadUsers().get(session.username.toLowerCase());
+    if (!user || new Date(session.expires_at).getTime() <= Date.now()) return null;
+    return { ...session, role: user.role };
+  } catch {
+    return null;
+  }
+};
+
+const readCookie = (request: Request, name: string) => {
+  const header = request.headers.get('cookie') || '';
+  const match = header.split(';').map(part => part.trim()).find(part => part.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : null;
+};
+
+export const getSession = (request: Request) => {
+  const token = readCookie(request, SESSION_COOKIE);
+  return token ? readSessionToken(token) : null;
+};
+
+export type AuthResult = { ok: true; session: Session } | { ok: false; response: NextResponse };
+
+// Route handlers start with this and return `response` as-is when access is refused
+export const requirePermission = (request: Request, permission: Permission): AuthResult => {
+  const session = getSession(request);
+
+  if (!session) {
+    return { ok: false, response: NextResponse.json({ error: 'Sign in required' }, { status: 401 }) };
+  }
+  if (!can(session.role, permission)) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: `The ${session.role} role is not allowed to do this` }, { status: 403 })
+    };
+  }
+
+  return { ok: true, session };
+};
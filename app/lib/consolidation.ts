@@ -0,0 +1,101 @@
+import { InventoryRecord } from '../types/inventory';
+
+// Location given to records that add up every location
+export const ALL_LOCATIONS = 'All locations';
+
+const compareByDate = (a: InventoryRecord, b: InventoryRecord) =>
+  a.date === b.date ? (a.id || 0) - (b.id || 0) : a.date < b.date ? -1 : 1;
+
+const groupBy = (records: InventoryRecord[], key: (record: InventoryRecord) => string) => {
+  const groups = new Map<string, InventoryRecord[]>();
+  records.forEach(record => {
+    groups.set(key(record), [...(groups.get(key(record)) || []), record]);
+  });
+  return groups;
+};
+
+// Folds the per-location ledgers into one daily series per product. A location
+// without a record on a given day still holds its last closing stock, so that
+// stock is carried into the day's opening and closing totals.
+export const consolidateRecords = (records: InventoryRecord[]) => {
+  const consolidated: InventoryRecord[] = [];
+
+  groupBy(records, record => record.item_name).forEach((productRecords, itemName) => {
+    const held = new Map<string, number>();
+
+    groupBy([...productRecords].sort(compareByDate), record => record.date).forEach((dayRecords, date) => {
+      const recorded = new Map(dayRecords.map(record => [record.location, record]));
+      const locations = new Set([...held.keys(), ...recorded.keys()]);
+      const sum = (
+        field:
+          | 'new_stock'
+          | 'issued_production'
+          | 'returns'
+          | 'rebagging'
+          | 'rebagging_out'
+          | 'damaged'
+          | 'transfer_in'
+          | 'transfer_out'
+          | 'adjustment'
+      ) =>
+        dayRecords.reduce((total, record) => total + record[field], 0);
+
+      let openingStock = 0;
+      let closingStock = 0;
+      locations.forEach(location => {
+        const record = recorded.get(location);
+        openingStock += record ? record.opening_stock : held.get(location)!;
+        closingStock += record ? record.closing_stock : held.get(location)!;
+        if (record) held.set(location, record.closing_stock);
+      });
+
+      consolidated.push({
+        item_name: itemName,
+        location: ALL_LOCATIONS,
+        date,
+        opening_stock: openingStock,
+        new_stock: sum('new_stock'),
+        new_balance: openingStock + sum('new_stock'),
+        issued_production: sum('issued_production'),
+        returns: sum('returns'),
+        rebagging: sum('rebagging'),
+        rebagging_out: sum('rebagging_out'),
+        damaged: sum('damaged'),
+        transfer_in: sum('transfer_in'),
+        transfer_out: sum('transfer_out'),
+        adjustment: sum('adjustment'),
+        closing_stock: closingStock,
+        shortfall_reason: dayRecords.map(record => record.shortfall_reason).filter(Boolean).join('; ') || null,
+        timestamp: dayRecords.map(record => record.timestamp).sort().pop()!
+      });
+    });
+  });
+
+  return consolidated;
+};
+
+export interface LocationStock {
+  item_name: string;
+  by_location: Record<string, number>;
+  total: number;
+  last_date: string;
+}
+
+// Latest closing stock of every product at every location, plus the consolidated total
+export const currentStockByLocation = (records: InventoryRecord[]): LocationStock[] => {
+  const latest = new Map<string, InventoryRecord>();
+  [...records].sort(compareByDate).forEach(record => {
+    latest.set(`${record.item_name}|${record.location}`, record);
+  });
+
+  const rows = new Map<string, LocationStock>();
+  latest.forEach(record => {
+    const row = rows.get(record.item_name) || { item_name: record.item_name, by_location: {}, total: 0, last_date: record.date };
+    row.by_location[record.location] = record.closing_stock;
+    row.total += record.closing_stock;
+    if (record.date > row.last_date) row.last_date = record.date;
+    rows.set(record.item_name, row);
+  });
+
+  return [...rows.values()].sort((a, b) => a.item_name.localeCompare(b.item_name));
+};
@@ -0,0 +1,78 @@
+import { CorrectionRequest, ProposedValues } from '../types/inventory';
+import { InventoryRepository } from './repository';
+import { createRecord, updateRecord, WriteResult } from './records';
+import { WriteContext } from './audit';
+import { FieldError, today, validateInventoryRecord } from './validation';
+import { defaultLocation, findLocation } from './locations';
+import { findReasonCode } from './reasonCodes';
+
+// Returns and rebagging are not proposed: they only change through their own documents
+const PROPOSED_FIELDS = ['opening_stock', 'new_stock', 'issued_production', 'damaged'] as const;
+
+export const corrections = (repository: InventoryRepository) =>
+  repository.collection<CorrectionRequest>('inventory_corrections');
+
+// requested_by is the signed-in user, never taken from the body
+export const validateCorrectionRequest = (input: unknown, requestedBy: string) => {
+  const { record, errors } = validateInventoryRecord(input);
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+
+  if (record.date && record.date >= today()) {
+    errors.push({ field: 'date', message: 'Corrections are only needed for past dates; edit today directly' });
+  }
+  const location = record.location ? findLocation(record.location) : defaultLocation();
+  if (!location) {
+    errors.push({ field: 'location', message: `"${record.location}" is not a configured location` });
+  }
+  if (typeof body.reason !== 'string' || !body.reason.trim()) {
+    errors.push({ field: 'reason', message: 'A reason for the correction is required' });
+  }
+  // Checked now rather than on approval, so the requester learns of an unknown code straight away
+  if (record.damage_reason && !findReasonCode(record.damage_reason)) {
+    errors.push({ field: 'damage_reason', message: `"${record.damage_reason}" is not a configured reason code` });
+  }
+
+  const proposed = Object.fromEntries(PROPOSED_FIELDS.map(field => [field, record[field]])) as ProposedValues;
+
+  return {
+    errors: errors as FieldError[],
+    correction: {
+      item_name: record.item_name!,
+      location: location!,
+      date: record.date!,
+      proposed,
+      reason: String(body.reason || '').trim(),
+      damage_reason: record.damage_reason || null,
+      shortfall_reason: record.shortfall_reason || null,
+      requested_by: requestedBy
+    }
+  };
+};
+
+// Writes the proposed values through the normal ledger path, so the same
+// invariants and re-chaining apply as for any other edit. The reasons given with the
+// request go along, so a correction can write off damage or close a day short.
+export const applyCorrection = async (
+  repository: InventoryRepository,
+  correction: CorrectionRequest,
+  context: WriteContext
+): Promise<WriteResult> => {
+  const existing = await repository.getRecordForDate(correction.item_name, correction.location, correction.date);
+  // Requests filed before a column left the daily entry may still carry it
+  const proposed = Object.fromEntries(PROPOSED_FIELDS.map(field => [field, correction.proposed[field]])) as ProposedValues;
+  const reasons = { damage_reason: correction.damage_reason, shortfall_reason: correction.shortfall_reason };
+
+  if (existing) {
+    return updateRecord(repository, existing.id!, { ...proposed, ...reasons }, context);
+  }
+
+  return createRecord(repository, {
+    item_name: correction.item_name,
+    location: correction.location,
+    date: correction.date,
+    ...proposed,
+    ...reasons,
+    new_balance: 0,
+    closing_stock: 0
+  }, context);
+};
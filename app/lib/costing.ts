@@ -0,0 +1,148 @@
+import { InventoryTransaction, TransactionType } from '../types/inventory';
+
+// Puts money on the ledger's quantities from the unit costs receipts were posted with. Kept free
+// of server imports so the reports can run it in the browser. Each product is costed as one pool
+// across its locations, so transfers neither add nor take value.
+export type CostingMethod = 'fifo' | 'weighted_average';
+
+export const COSTING_METHODS: { value: CostingMethod; label: string }[] = [
+  { value: 'weighted_average', label: 'Weighted average' },
+  { value: 'fifo', label: 'FIFO' }
+];
+
+export interface ProductValuation {
+  quantity: number;
+  value: number; // what the stock on hand cost; stock given out that was not there carries none
+  unit_cost: number; // per unit on hand, or the last known cost when nothing is
+}
+
+export interface Valuation {
+  products: Map<string, ProductValuation>;
+  // What each line added or took out, by transaction id; negative for reversing lines
+  line_costs: Map<number, number>;
+}
+
+// Whether a line of the type adds to stock or takes from it; adjustments carry their own sign
+const DIRECTION: Record<TransactionType, 1 | -1 | 0> = {
+  receipt: 1,
+  issue: -1,
+  return: 1,
+  rebagging: 1,
+  rebagging_out: -1,
+  damage: -1,
+  transfer_in: 0,
+  transfer_out: 0,
+  adjustment: 1
+};
+
+interface CostPool {
+  layers: { quantity: number; unit_cost: number }[]; // oldest first; a single layer under weighted average
+  short: number; // given out while nothing was on hand, made good by the next stock in
+  last_cost: number;
+}
+
+const onHand = (pool: CostPool) => pool.layers.reduce((sum, layer) => sum + layer.quantity, 0);
+
+const poolValue = (pool: CostPool) => pool.layers.reduce((sum, layer) => sum + layer.quantity * layer.unit_cost, 0);
+
+const currentCost = (pool: CostPool) => {
+  const quantity = onHand(pool);
+  return quantity > 0 ? poolValue(pool) / quantity : pool.last_cost;
+};
+
+const addStock = (pool: CostPool, quantity: number, unitCost: number, method: CostingMethod) => {
+  const covered = Math.min(pool.short, quantity);
+  pool.short -= covered;
+  const added = quantity - covered;
+  pool.last_cost = unitCost;
+  if (added <= 0) return;
+
+  if (method === 'fifo' || pool.layers.length === 0) {
+    pool.layers.push({ quantity: added, unit_cost: unitCost });
+  } else {
+    const [layer] = pool.layers;
+    const quantityAfter = layer.quantity + added;
+    pool.layers = [{ quantity: quantityAfter, unit_cost: (layer.quantity * layer.unit_cost + added * unitCost) / quantityAfter }];
+  }
+};
+
+// Takes from the oldest layers first; anything beyond what is on hand is costed at the last known cost
+const takeStock = (pool: CostPool, quantity: number) => {
+  let remaining = quantity;
+  let cost = 0;
+  while (remaining > 0 && pool.layers.length > 0) {
+    const layer = pool.layers[0];
+    const used = Math.min(layer.quantity, remaining);
+    cost += used * layer.unit_cost;
+    layer.quantity -= used;
+    remaining -= used;
+    if (layer.quantity <= 0) pool.layers.shift();
+  }
+  pool.short += remaining;
+  return cost + remaining * pool.last_cost;
+};
+
+// Replays every line up to `asOf` in the order it was posted. Receipts come in at their unit
+// cost, or the current cost when they have none; the bags a rebagging made carry the cost of
+// what went into them; other stock in and all stock out move at the pool's cost.
+export const valueInventory = (lines: InventoryTransaction[], method: CostingMethod, asOf: string): Valuation => {
+  const pools = new Map<string, CostPool>();
+  const lineCosts = new Map<number, number>();
+  const conversionCosts = new Map<string, number>();
+
+  const ordered = lines
+    .filter(line => line.date <= asOf && DIRECTION[line.type] !== 0)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at) || (a.id || 0) - (b.id || 0));
+
+  ordered.forEach(line => {
+    if (!pools.has(line.item_name)) {
+      pools.set(line.item_name, { layers: [], short: 0, last_cost: 0 });
+    }
+    const pool = pools.get(line.item_name)!;
+    const change = DIRECTION[line.type] * line.quantity;
+
+    let cost: number;
+    if (change > 0) {
+      const conversionCost = line.type === 'rebagging' && line.reference ? conversionCosts.get(line.reference) : undefined;
+      const unitCost = conversionCost !== undefined ? conversionCost / change : line.unit_cost ?? currentCost(pool);
+      addStock(pool, change, unitCost, method);
+      cost = change * unitCost;
+    } else {
+      cost = -takeStock(pool, -change);
+    }
+
+    if (line.type === 'rebagging_out' && line.reference) {
+      conversionCosts.set(line.reference, -cost);
+    }
+    if (line.id !== undefined) {
+      lineCosts.set(line.id, DIRECTION[line.type] * cost);
+    }
+  });
+
+  const products = new Map<string, ProductValuation>();
+  pools.forEach((pool, itemName) => {
+    products.set(itemName, { quantity: onHand(pool) - pool.short, value: poolValue(pool), unit_cost: currentCost(pool) });
+  });
+
+  return { products, line_costs: lineCosts };
+};
+
+// What the lines of one type cost per product, e.g. the issues or the damage of a period
+export const costByProduct = (valuation: Valuation, lines: InventoryTransaction[], type: TransactionType) => {
+  const costs = new Map<string, number>();
+  lines
+    .filter(line => line.type === type && line.id !== undefined)
+    .forEach(line => {
+      costs.set(line.item_name, (costs.get(line.item_name) || 0) + (valuation.line_costs.get(line.id!) || 0));
+    });
+  return costs;
+};
+
+export const unitCostOf = (valuation: Valuation, itemName: string) => valuation.products.get(itemName)?.unit_cost ?? 0;
+
+// Stock below zero is worth nothing rather than a negative amount
+export const stockValue = (valuation: Valuation, itemName: string, quantity: number) =>
+  Math.max(quantity, 0) * unitCostOf(valuation, itemName);
+
+export const formatCost = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
@@ -0,0 +1,89 @@
+import { InventoryRecord } from '../types/inventory';
+
+// Usage forecasts built from the issued_production of a product's recent days. Kept free of
+// server imports so the history table and the reports can run them in the browser.
+export type ForecastMethod = 'moving_average' | 'exponential_smoothing';
+
+export const FORECAST_METHODS: { value: ForecastMethod; label: string }[] = [
+  { value: 'moving_average', label: 'Moving average' },
+  { value: 'exponential_smoothing', label: 'Exponential smoothing' }
+];
+
+export interface ForecastOptions {
+  method: ForecastMethod;
+  asOf: string; // YYYY-MM-DD; the last day of usage looked at and the day cover is counted from
+  windowDays?: number; // days of history looked at
+  alpha?: number; // weight of the newest day for exponential smoothing, between 0 and 1
+}
+
+export interface Forecast {
+  daily_usage: number;
+  days_of_cover: number | null; // null when nothing is being used
+  stockout_date: string | null;
+}
+
+export const DEFAULT_WINDOW_DAYS = 28;
+export const DEFAULT_ALPHA = 0.3;
+
+const addDays = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+};
+
+// Issued quantity for every calendar day of the window, oldest first. Days without a record
+// issued nothing, and the series starts no earlier than the product's first record, so a new
+// product is not averaged against days it did not exist. Records of several locations on one
+// day are added together.
+export const dailyUsageSeries = (records: InventoryRecord[], asOf: string, windowDays = DEFAULT_WINDOW_DAYS) => {
+  const issued = new Map<string, number>();
+  records.forEach(record => {
+    if (record.date > asOf) return;
+    issued.set(record.date, (issued.get(record.date) || 0) + (record.issued_production || 0));
+  });
+
+  if (issued.size === 0) return [];
+
+  const firstDate = [...issued.keys()].sort()[0];
+
+  const windowStart = addDays(asOf, 1 - windowDays);
+  const series: number[] = [];
+  for (let date = firstDate > windowStart ? firstDate : windowStart; date <= asOf; date = addDays(date, 1)) {
+    series.push(issued.get(date) || 0);
+  }
+  return series;
+};
+
+export const movingAverage = (series: number[]) =>
+  series.length > 0 ? series.reduce((sum, value) => sum + value, 0) / series.length : 0;
+
+// Starts from the oldest day and lets each newer day pull the level by `alpha`
+export const exponentialSmoothing = (series: number[], alpha = DEFAULT_ALPHA) =>
+  series.length > 0 ? series.slice(1).reduce((level, value) => alpha * value + (1 - alpha) * level, series[0]) : 0;
+
+// Days the stock lasts at a daily usage and the day it runs out, counted from `asOf`
+export const projectStockout = (stock: number, dailyUsage: number, asOf: string): Forecast => {
+  if (dailyUsage <= 0) {
+    return { daily_usage: 0, days_of_cover: null, stockout_date: null };
+  }
+
+  const daysOfCover = Math.max(stock, 0) / dailyUsage;
+  return {
+    daily_usage: dailyUsage,
+    days_of_cover: daysOfCover,
+    stockout_date: addDays(asOf, Math.floor(daysOfCover))
+  };
+};
+
+// One product's forecast from its records (any number of locations) and the stock it holds
+export const forecastProduct = (records: InventoryRecord[], stock: number, options: ForecastOptions): Forecast => {
+  const series = dailyUsageSeries(records, options.asOf, options.windowDays);
+  const dailyUsage = options.method === 'moving_average'
+    ? movingAverage(series)
+    : exponentialSmoothing(series, options.alpha);
+
+  return projectStockout(stock, dailyUsage, options.asOf);
+};
+
+export const formatDaysOfCover = (daysOfCover: number | null) =>
+  daysOfCover === null ? '—' : daysOfCover >= 365 ? '365+' : daysOfCover.toFixed(1);
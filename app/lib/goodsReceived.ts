@@ -0,0 +1,184 @@
+import { GoodsReceivedLine, GoodsReceivedNote, InventoryTransaction, PurchaseOrder } from '../types/inventory';
+import { InventoryRepository } from './repository';
+import { WriteContext } from './audit';
+import { defaultLocation, findLocation } from './locations';
+import { findProductByName } from './products';
+import { outstandingQuantity, purchaseOrders, recordReceived } from './purchaseOrders';
+import { nextReference } from './references';
+import { suppliers } from './suppliers';
+import { isUnitCost, postTransaction } from './transactions';
+import { FieldError, isQuantity, isValidDate, optionalText, refusePastDate, today } from './validation';
+
+export type GoodsReceivedResult =
+  | { ok: true; note: GoodsReceivedNote; receipts: InventoryTransaction[]; purchaseOrder: PurchaseOrder | null }
+  | { ok: false; status: number; error: string; errors?: FieldError[] };
+
+export const goodsReceivedNotes = (repository: InventoryRepository) =>
+  repository.collection<GoodsReceivedNote>('inventory_goods_received');
+
+const invalid = (errors: FieldError[]): GoodsReceivedResult => ({
+  ok: false,
+  status: 400,
+  error: 'Invalid goods received note',
+  errors
+});
+
+// Posts a delivery: one receipt transaction per product on the note's location and day, with
+// the note's reference, so the goods land in that day's new stock. Against an open purchase
+// order the supplier and location come from the order and no line may exceed what is
+// outstanding on it.
+// Body: { supplier_id?, purchase_order_id?, location?, date?, delivery_note, vehicle?, received_by?,
+//         reference?, note?, lines: [{ item_name, quantity, unit_cost?, lot_number?, expiry_date? }] }
+export const postGoodsReceivedNote = async (
+  repository: InventoryRepository,
+  input: unknown,
+  context: WriteContext
+): Promise<GoodsReceivedResult> => {
+  const errors: FieldError[] = [];
+  const body = (input && typeof input === 'object' && !Array.isArray(input) ? input : {}) as Record<string, unknown>;
+
+  let order: PurchaseOrder | null = null;
+  if (body.purchase_order_id !== undefined && body.purchase_order_id !== null) {
+    order = typeof body.purchase_order_id === 'number' ? await purchaseOrders(repository).get(body.purchase_order_id) : null;
+    if (!order) {
+      errors.push({ field: 'purchase_order_id', message: 'purchase_order_id is not a purchase order' });
+    } else if (order.status !== 'open') {
+      return { ok: false, status: 409, error: `Purchase order ${order.reference} is already ${order.status}` };
+    }
+  }
+
+  const supplierId = body.supplier_id ?? order?.supplier_id;
+  const supplier = typeof supplierId === 'number' ? await suppliers(repository).get(supplierId) : null;
+  if (!supplier || (!supplier.active && !order)) {
+    errors.push({ field: 'supplier_id', message: 'supplier_id must be an active supplier' });
+  } else if (order && supplier.id !== order.supplier_id) {
+    errors.push({ field: 'supplier_id', message: `${order.reference} was ordered from ${order.supplier_name}` });
+  }
+
+  let location: string | null = order ? order.location : defaultLocation();
+  if (body.location !== undefined) {
+    location = typeof body.location === 'string' ? findLocation(body.location) : null;
+    if (!location) {
+      errors.push({ field: 'location', message: `"${body.location}" is not a configured location` });
+    } else if (order && location !== order.location) {
+      errors.push({ field: 'location', message: `${order.reference} is to be delivered to ${order.location}` });
+    }
+  }
+
+  const date = body.date === undefined ? today() : body.date;
+  if (!isValidDate(date)) {
+    errors.push({ field: 'date', message: 'date must be a valid YYYY-MM-DD date' });
+  } else if (date > today()) {
+    errors.push({ field: 'date', message: 'Goods cannot be received on a future date' });
+  } else if (order && date < order.order_date) {
+    errors.push({ field: 'date', message: `Goods cannot be received before the order date ${order.order_date}` });
+  }
+
+  const deliveryNote = optionalText(body.delivery_note);
+  if (!deliveryNote) {
+    errors.push({ field: 'delivery_note', message: "delivery_note is required: the supplier's delivery note number" });
+  }
+
+  const lines: GoodsReceivedLine[] = [];
+  if (!Array.isArray(body.lines) || body.lines.length === 0) {
+    errors.push({ field: 'lines', message: 'lines must list at least one { item_name, quantity }' });
+  } else {
+    for (const entry of body.lines) {
+      const product = typeof entry?.item_name === 'string' ? await findProductByName(repository, entry.item_name.trim()) : null;
+      if (!product || !product.active) {
+        errors.push({ field: 'lines', message: `"${entry?.item_name}" is not an active product in the catalog` });
+      } else if (!isQuantity(entry.quantity)) {
+        errors.push({ field: 'lines', message: `The quantity of "${product.name}" must be a positive number` });
+      } else if (entry.unit_cost !== undefined && entry.unit_cost !== null && !isUnitCost(entry.unit_cost)) {
+        errors.push({ field: 'lines', message: `The unit cost of "${product.name}" must be a number of zero or more` });
+      } else if (entry.lot_number !== undefined && entry.lot_number !== null && !optionalText(entry.lot_number)) {
+        errors.push({ field: 'lines', message: `The lot number of "${product.name}" must be non-empty text` });
+      } else if (entry.expiry_date !== undefined && entry.expiry_date !== null && !optionalText(entry.lot_number)) {
+        errors.push({ field: 'lines', message: `The expiry date of "${product.name}" needs a lot number` });
+      } else if (entry.expiry_date !== undefined && entry.expiry_date !== null && !isValidDate(entry.expiry_date)) {
+        errors.push({ field: 'lines', message: `The expiry date of "${product.name}" must be a valid YYYY-MM-DD date` });
+      } else if (isValidDate(entry.expiry_date) && isValidDate(date) && entry.expiry_date < date) {
+        errors.push({ field: 'lines', message: `The expiry date of "${product.name}" cannot be before the delivery` });
+      } else if (order && !order.lines.some(line => line.item_name === product.name)) {
+        errors.push({ field: 'lines', message: `"${product.name}" is not on ${order.reference}` });
+      } else if (lines.some(line => line.item_name === product.name)) {
+        errors.push({ field: 'lines', message: `"${product.name}" is listed more than once` });
+      } else {
+        lines.push({
+          item_name: product.name,
+          quantity: entry.quantity,
+          unit_cost: entry.unit_cost ?? null,
+          lot_number: optionalText(entry.lot_number),
+          expiry_date: entry.expiry_date ?? null
+        });
+      }
+    }
+  }
+
+  if (errors.length > 0) return invalid(errors);
+  const refused = refusePastDate(date as string);
+  if (refused) return refused;
+
+  if (order) {
+    const overReceived: FieldError[] = lines
+      .map(line => ({ line, outstanding: outstandingQuantity(order!.lines.find(ordered => ordered.item_name === line.item_name)!) }))
+      .filter(({ line, outstanding }) => line.quantity > outstanding)
+      .map(({ line, outstanding }) => ({
+        field: 'lines',
+        message: `Only ${outstanding} of "${line.item_name}" are outstanding on ${order!.reference}`
+      }));
+    if (overReceived.length > 0) {
+      return { ok: false, status: 422, error: 'Receipt exceeds the order', errors: overReceived };
+    }
+  }
+
+  const store = goodsReceivedNotes(repository);
+  const reference = optionalText(body.reference) || (await nextReference(store, 'GRN', date as string, { date: date as string }));
+  if ((await store.list({ reference })).length > 0) {
+    return { ok: false, status: 409, error: `A goods received note with reference "${reference}" already exists` };
+  }
+
+  const receipts: InventoryTransaction[] = [];
+  for (const line of lines) {
+    const result = await postTransaction(repository, {
+      item_name: line.item_name,
+      location: location!,
+      date: date as string,
+      type: 'receipt',
+      quantity: line.quantity,
+      reference,
+      reason_code: null,
+      unit_cost: line.unit_cost,
+      lots: line.lot_number ? [{ lot_number: line.lot_number, expiry_date: line.expiry_date, quantity: line.quantity }] : null,
+      note: `${supplier!.name}, delivery note ${deliveryNote}${order ? `, against ${order.reference}` : ''}`
+    }, context);
+
+    if (!result.ok) {
+      return { ok: false, status: result.status, error: result.error, errors: result.errors };
+    }
+    receipts.push(result.transaction);
+  }
+
+  const note = await store.insert({
+    reference,
+    supplier_id: supplier!.id!,
+    supplier_name: supplier!.name,
+    purchase_order_id: order?.id ?? null,
+    purchase_order_reference: order?.reference ?? null,
+    location: location!,
+    date: date as string,
+    delivery_note: deliveryNote!,
+    vehicle: optionalText(body.vehicle),
+    received_by: optionalText(body.received_by) || context.actor,
+    lines,
+    note: optionalText(body.note),
+    created_by: context.actor,
+    created_at: new Date().toISOString()
+  });
+
+  const purchaseOrder = order
+    ? await recordReceived(repository, order, new Map(lines.map(line => [line.item_name, line.quantity])))
+    : null;
+
+  return { ok: true, note, receipts, purchaseOrder };
+};
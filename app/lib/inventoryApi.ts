@@ -0,0 +1,609 @@
+import {
+  AuditEntry,
+  BillOfMaterials,
+  CorrectionRequest,
+  CorrectionStatus,
+  GoodsReceivedNote,
+  InventoryRecord,
+  InventoryTransaction,
+  Product,
+  ProductionOrder,
+  ProductionOrderStatus,
+  ProductionReturn,
+  ProposedValues,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  ReasonCode,
+  RebaggingConversion,
+  Session,
+  StockTake,
+  StockTakeStatus,
+  StockTransfer,
+  Supplier
+} from '../types/inventory';
+import type { FieldError } from './validation';
+
+// Carries the field-level errors the API returns alongside its message
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public errors: FieldError[] = []) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface RecordFilters {
+  item_name?: string;
+  location?: string;
+  search?: string;
+  from?: string;
+  to?: string;
+  sort?: 'asc' | 'desc';
+  limit?: number;
+}
+
+interface RecordPage {
+  records: InventoryRecord[];
+  nextCursor: string | null;
+}
+
+export const fetchRecordPage = async (filters: RecordFilters = {}, cursor?: string | null): Promise<RecordPage> => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  if (cursor) params.set('cursor', cursor);
+
+  const response = await fetch(`/api/inventory/records?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load records: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return { records: data.records || [], nextCursor: data.nextCursor || null };
+};
+
+// Follows nextCursor until the whole ledger matching the filters has been read
+export const fetchAllRecords = async (filters: RecordFilters = {}) => {
+  const records: InventoryRecord[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page = await fetchRecordPage({ limit: 1000, ...filters }, cursor);
+    records.push(...page.records);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return records;
+};
+
+const dayBefore = (date: string) => {
+  const previous = new Date(`${date}T00:00:00Z`);
+  previous.setUTCDate(previous.getUTCDate() - 1);
+  return previous.toISOString().split('T')[0];
+};
+
+// Latest record of the product at a location, optionally only among days before `beforeDate`
+export const getLatestRecord = async (itemName: string, location: string, beforeDate?: string) => {
+  const { records } = await fetchRecordPage({
+    item_name: itemName,
+    location,
+    to: beforeDate ? dayBefore(beforeDate) : undefined,
+    sort: 'desc',
+    limit: 1
+  });
+  return records[0] || null;
+};
+
+export const getRecordForDate = async (itemName: string, location: string, date: string) => {
+  const { records } = await fetchRecordPage({ item_name: itemName, location, from: date, to: date, limit: 1 });
+  return records[0] || null;
+};
+
+const sendJson = async (url: string, method: string, body: unknown) => {
+  const response = await fetch(url, {
+    method,
+    // Marks the write as coming from the app so the audit log can tell it apart from API clients
+    headers: { 'Content-Type': 'application/json', 'X-Inventory-Source': 'ui' },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new ApiError(data.error || `Request failed: ${response.status}`, response.status, data.errors);
+  }
+
+  return data;
+};
+
+// Creates the record, or replaces the existing one when an id is given
+// Transfer, rebagging-out and adjustment quantities are left out: only transfers, rebagging
+// conversions and stock-takes post them, and an edit keeps what is stored
+// damage_reason is stored on the day's damage transaction line, not on the record;
+// shortfall_reason lets the day close below zero
+export const saveRecord = async (
+  record: Omit<InventoryRecord, 'returns' | 'rebagging' | 'rebagging_out' | 'transfer_in' | 'transfer_out' | 'adjustment' | 'shortfall_reason'> & {
+    damage_reason?: string;
+    shortfall_reason?: string;
+  },
+  id?: number
+) => {
+  const data = await sendJson(id ? `/api/inventory/records/${id}` : '/api/inventory/records', id ? 'PUT' : 'POST', record);
+  return data.record as InventoryRecord;
+};
+
+// Sends only the fields that changed, so movements posted to the day since it was loaded are kept
+export const patchRecord = async (
+  id: number,
+  changes: Partial<Pick<InventoryRecord, 'opening_stock' | 'new_stock' | 'issued_production' | 'damaged'>> & {
+    damage_reason?: string;
+    shortfall_reason?: string;
+  }
+) => {
+  const data = await sendJson(`/api/inventory/records/${id}`, 'PATCH', changes);
+  return data.record as InventoryRecord;
+};
+
+export const fetchCorrections = async (status?: CorrectionStatus) => {
+  const response = await fetch(`/api/inventory/corrections${status ? `?status=${status}` : ''}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load corrections: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.corrections || []) as CorrectionRequest[];
+};
+
+export const requestCorrection = async (
+  request: ProposedValues & {
+    item_name: string;
+    location: string;
+    date: string;
+    reason: string;
+    damage_reason?: string;
+    shortfall_reason?: string;
+  }
+) => {
+  const data = await sendJson('/api/inventory/corrections', 'POST', request);
+  return data.correction as CorrectionRequest;
+};
+
+export const reviewCorrection = async (
+  id: number,
+  review: { action: 'approve' | 'reject'; note?: string }
+) => {
+  const data = await sendJson(`/api/inventory/corrections/${id}`, 'PATCH', review);
+  return data.correction as CorrectionRequest;
+};
+
+export const fetchStockTakes = async (status?: StockTakeStatus) => {
+  const response = await fetch(`/api/inventory/stock-takes${status ? `?status=${status}` : ''}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load stock-takes: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.stock_takes || []) as StockTake[];
+};
+
+// Open sessions come back with the current computed balance on every line
+export const fetchStockTake = async (id: number) => {
+  const response = await fetch(`/api/inventory/stock-takes/${id}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load stock-take: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.stock_take as StockTake;
+};
+
+export const openStockTake = async (session: { location: string; date: string; item_names?: string[]; note?: string }) => {
+  const data = await sendJson('/api/inventory/stock-takes', 'POST', session);
+  return data.stock_take as StockTake;
+};
+
+export const recordStockTakeCounts = async (id: number, counts: { item_name: string; counted: number | null }[]) => {
+  const data = await sendJson(`/api/inventory/stock-takes/${id}`, 'PUT', { counts });
+  return data.stock_take as StockTake;
+};
+
+export const reviewStockTake = async (
+  id: number,
+  review: { action: 'post'; approvals: { item_name: string; reason_code: string }[] } | { action: 'cancel' }
+) => {
+  const data = await sendJson(`/api/inventory/stock-takes/${id}`, 'PATCH', review);
+  return data.stock_take as StockTake;
+};
+
+export const fetchAuditLog = async (itemName: string) => {
+  const response = await fetch(`/api/inventory/audit?item_name=${encodeURIComponent(itemName)}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load audit log: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.entries || []) as AuditEntry[];
+};
+
+export interface LocationList {
+  locations: string[];
+  default: string;
+}
+
+export const fetchLocations = async (): Promise<LocationList> => {
+  const response = await fetch('/api/inventory/locations');
+  if (!response.ok) {
+    throw new Error(`Failed to load locations: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+export const fetchReasonCodes = async () => {
+  const response = await fetch('/api/inventory/reason-codes');
+  if (!response.ok) {
+    throw new Error(`Failed to load reason codes: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.reason_codes || []) as ReasonCode[];
+};
+
+export const fetchTransfers = async (filters: { item_name?: string; location?: string } = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+
+  const response = await fetch(`/api/inventory/transfers?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load transfers: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.transfers || []) as StockTransfer[];
+};
+
+export type TransferInput = Pick<StockTransfer, 'item_name' | 'from_location' | 'to_location' | 'quantity' | 'date'> & {
+  reference?: string;
+  note?: string;
+};
+
+// Posts both sides of the transfer; the server rejects it when the source does not hold enough stock
+export const postTransfer = async (transfer: TransferInput) => {
+  const data = await sendJson('/api/inventory/transfers', 'POST', transfer);
+  return data.transfer as StockTransfer;
+};
+
+export type SupplierInput = Omit<Supplier, 'id' | 'created_at' | 'updated_at'>;
+
+export const fetchSuppliers = async ({ activeOnly = false } = {}) => {
+  const response = await fetch(`/api/inventory/suppliers${activeOnly ? '?active=true' : ''}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load suppliers: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.suppliers || []) as Supplier[];
+};
+
+export const createSupplier = async (supplier: SupplierInput) => {
+  const data = await sendJson('/api/inventory/suppliers', 'POST', supplier);
+  return data.supplier as Supplier;
+};
+
+export const updateSupplier = async (id: number, changes: Partial<SupplierInput>) => {
+  const data = await sendJson(`/api/inventory/suppliers/${id}`, 'PATCH', changes);
+  return data.supplier as Supplier;
+};
+
+export const fetchPurchaseOrders = async (filters: { status?: PurchaseOrderStatus; supplier_id?: number; location?: string } = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+
+  const response = await fetch(`/api/inventory/purchase-orders?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load purchase orders: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.purchase_orders || []) as PurchaseOrder[];
+};
+
+export interface PurchaseOrderInput {
+  supplier_id: number;
+  location: string;
+  order_date?: string;
+  expected_date?: string;
+  reference?: string;
+  note?: string;
+  lines: { item_name: string; quantity: number }[];
+}
+
+export const createPurchaseOrder = async (order: PurchaseOrderInput) => {
+  const data = await sendJson('/api/inventory/purchase-orders', 'POST', order);
+  return data.purchase_order as PurchaseOrder;
+};
+
+export const cancelPurchaseOrder = async (id: number) => {
+  const data = await sendJson(`/api/inventory/purchase-orders/${id}`, 'PATCH', { action: 'cancel' });
+  return data.purchase_order as PurchaseOrder;
+};
+
+export const fetchGoodsReceivedNotes = async (
+  filters: { item_name?: string; location?: string; purchase_order_id?: number } = {}
+) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+
+  const response = await fetch(`/api/inventory/goods-received?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load goods received notes: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.goods_received || []) as GoodsReceivedNote[];
+};
+
+export interface GoodsReceivedInput {
+  supplier_id?: number;
+  purchase_order_id?: number;
+  location?: string;
+  date: string;
+  delivery_note: string;
+  vehicle?: string;
+  received_by?: string;
+  note?: string;
+  lines: { item_name: string; quantity: number; unit_cost?: number; lot_number?: string; expiry_date?: string }[];
+}
+
+// Posts every line as new stock for the day; against an order nothing may exceed what is outstanding
+export const postGoodsReceivedNote = async (note: GoodsReceivedInput) => {
+  const data = await sendJson('/api/inventory/goods-received', 'POST', note);
+  return data as { goods_received: GoodsReceivedNote; receipts: InventoryTransaction[]; purchase_order: PurchaseOrder | null };
+};
+
+export type BillOfMaterialsInput = Omit<BillOfMaterials, 'id' | 'created_at' | 'updated_at'>;
+
+export const fetchBillsOfMaterials = async ({ activeOnly = false } = {}) => {
+  const response = await fetch(`/api/inventory/boms${activeOnly ? '?active=true' : ''}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load bills of materials: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.boms || []) as BillOfMaterials[];
+};
+
+export const createBillOfMaterials = async (bom: BillOfMaterialsInput) => {
+  const data = await sendJson('/api/inventory/boms', 'POST', bom);
+  return data.bom as BillOfMaterials;
+};
+
+export const updateBillOfMaterials = async (id: number, changes: Partial<BillOfMaterialsInput>) => {
+  const data = await sendJson(`/api/inventory/boms/${id}`, 'PATCH', changes);
+  return data.bom as BillOfMaterials;
+};
+
+export const fetchProductionOrders = async (
+  filters: { status?: ProductionOrderStatus; location?: string; finished_product?: string } = {}
+) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+
+  const response = await fetch(`/api/inventory/production-orders?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load production orders: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.production_orders || []) as ProductionOrder[];
+};
+
+export interface ProductionOrderInput {
+  bom_id: number;
+  planned_quantity: number;
+  location: string;
+  order_date?: string;
+  reference?: string;
+  note?: string;
+}
+
+export const createProductionOrder = async (order: ProductionOrderInput) => {
+  const data = await sendJson('/api/inventory/production-orders', 'POST', order);
+  return data.production_order as ProductionOrder;
+};
+
+export const completeProductionOrder = async (id: number, producedQuantity: number) => {
+  const data = await sendJson(`/api/inventory/production-orders/${id}`, 'PATCH', {
+    action: 'complete',
+    produced_quantity: producedQuantity
+  });
+  return data.production_order as ProductionOrder;
+};
+
+export const cancelProductionOrder = async (id: number) => {
+  const data = await sendJson(`/api/inventory/production-orders/${id}`, 'PATCH', { action: 'cancel' });
+  return data.production_order as ProductionOrder;
+};
+
+export interface ProductionIssueInput {
+  date: string;
+  note?: string;
+  shortfall_reason?: string;
+  lines: { item_name: string; quantity: number }[];
+}
+
+// Posts every line as an issue to production with the order's reference
+export const issueToProductionOrder = async (id: number, issue: ProductionIssueInput) => {
+  const data = await sendJson(`/api/inventory/production-orders/${id}/issues`, 'POST', issue);
+  return data as { production_order: ProductionOrder; issues: InventoryTransaction[] };
+};
+
+export const fetchProductionReturns = async (
+  filters: { item_name?: string; location?: string; production_order_id?: number; issue_id?: number } = {}
+) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+
+  const response = await fetch(`/api/inventory/returns?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load returns: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.returns || []) as ProductionReturn[];
+};
+
+export interface ProductionReturnInput {
+  issue_id?: number;
+  production_order_id?: number;
+  item_name?: string;
+  quantity: number;
+  date: string;
+  reference?: string;
+  note?: string;
+}
+
+// Posts the return into the day's records; it may not exceed what is still out on the issue or order
+export const postProductionReturn = async (productionReturn: ProductionReturnInput) => {
+  const data = await sendJson('/api/inventory/returns', 'POST', productionReturn);
+  return data as {
+    return: ProductionReturn;
+    transaction: InventoryTransaction;
+    record: InventoryRecord;
+    production_order: ProductionOrder | null;
+  };
+};
+
+export const fetchRebagging = async (filters: { item_name?: string; location?: string } = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+
+  const response = await fetch(`/api/inventory/rebagging?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load rebagging: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.rebagging || []) as RebaggingConversion[];
+};
+
+export type RebaggingInput = Pick<
+  RebaggingConversion,
+  'source_product' | 'target_product' | 'location' | 'date' | 'input_quantity' | 'output_quantity'
+> & {
+  reference?: string;
+  note?: string;
+};
+
+// Posts the input off the source product and the output onto the target product; the server
+// rejects it when the source does not hold the input
+export const postRebagging = async (rebagging: RebaggingInput) => {
+  const data = await sendJson('/api/inventory/rebagging', 'POST', rebagging);
+  return data.rebagging as RebaggingConversion;
+};
+
+export const fetchTransactions = async (filters: { item_name?: string; location?: string; date?: string } = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+
+  const response = await fetch(`/api/inventory/transactions?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load transactions: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.transactions || []) as InventoryTransaction[];
+};
+
+export type TransactionInput = Pick<InventoryTransaction, 'item_name' | 'location' | 'date' | 'type' | 'quantity'> & {
+  reference?: string;
+  reason_code?: string;
+  unit_cost?: number;
+  lot_number?: string;
+  expiry_date?: string;
+  shortfall_reason?: string;
+  note?: string;
+};
+
+// Rolls one movement into the day's record and returns the updated record
+export const postTransaction = async (transaction: TransactionInput) => {
+  const data = await sendJson('/api/inventory/transactions', 'POST', transaction);
+  return data as { transaction: InventoryTransaction; record: InventoryRecord };
+};
+
+export type ProductInput = Omit<Product, 'id' | 'created_at' | 'updated_at'>;
+
+export const fetchProducts = async ({ activeOnly = false } = {}) => {
+  const response = await fetch(`/api/inventory/products${activeOnly ? '?active=true' : ''}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load products: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.products || []) as Product[];
+};
+
+export const createProduct = async (product: ProductInput) => {
+  const data = await sendJson('/api/inventory/products', 'POST', product);
+  return data.product as Product;
+};
+
+export const updateProduct = async (id: number, changes: Partial<ProductInput>) => {
+  const data = await sendJson(`/api/inventory/products/${id}`, 'PATCH', changes);
+  return data.product as Product;
+};
+
+export interface ProductRewriteSummary {
+  product: string;
+  records_updated: number;
+  records_merged: number;
+}
+
+// Renames a product, or merges its history into another one, across every record
+export const rewriteProduct = async (action: 'rename' | 'merge', source: string, target: string) => {
+  const data = await sendJson(`/api/inventory/products/${action}`, 'POST', { source, target });
+  return data as ProductRewriteSummary;
+};
+
+// Resolves to null when nobody is signed in
+export const fetchSession = async () => {
+  const response = await fetch('/api/auth/session');
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to load session: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.session as Session;
+};
+
+export const signIn = async (username: string, password: string) => {
+  const data = await sendJson('/api/auth/session', 'POST', { username, password });
+  return data.session as Session;
+};
+
+export const signOut = async () => {
+  await fetch('/api/auth/session', { method: 'DELETE' });
+};
+
+export const downloadExport = async () => {
+  const response = await fetch('/api/inventory/export');
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(data.error || `Export failed: ${response.status}`, response.status);
+  }
+  return response.blob();
+};
@@ -0,0 +1,224 @@
+import { InventoryRecord } from '../types/inventory';
+import { InventoryRepository } from './repository';
+import { FieldError } from './validation';
+
+export interface LedgerError extends FieldError {
+  code: 'opening_stock_mismatch' | 'stock_shortfall';
+  expected: number;
+  received: number;
+}
+
+type StockMovements = Pick<
+  InventoryRecord,
+  | 'opening_stock'
+  | 'new_stock'
+  | 'issued_production'
+  | 'returns'
+  | 'rebagging'
+  | 'rebagging_out'
+  | 'damaged'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'adjustment'
+>;
+
+// Same rule the entry form applies. Closing stock is not clamped: a day that issues more than
+// it holds closes below zero, and the shortfall checks below decide whether that may be saved.
+export const calculateBalances = (record: StockMovements) => {
+  const newBalance = record.opening_stock + record.new_stock;
+  const closingStock =
+    newBalance - record.issued_production + record.returns + record.rebagging - record.rebagging_out - record.damaged +
+    record.transfer_in - record.transfer_out + record.adjustment;
+
+  return { new_balance: newBalance, closing_stock: closingStock };
+};
+
+// What the day had to give out, what it gave out, and how much of that it did not have.
+// A day that opens below zero after an earlier shortfall is only short by what it gives
+// out itself, so the shortfall stays with the day that caused it.
+export const stockFlows = (record: StockMovements & Pick<InventoryRecord, 'closing_stock'>) => {
+  const available = record.opening_stock + record.new_stock + record.returns + record.rebagging + record.transfer_in +
+    Math.max(record.adjustment, 0);
+  const outflows = record.issued_production + record.rebagging_out + record.damaged + record.transfer_out +
+    Math.max(-record.adjustment, 0);
+
+  return {
+    available: Math.max(available, 0),
+    outflows,
+    shortfall: record.closing_stock < 0 ? Math.min(outflows, -record.closing_stock) : 0
+  };
+};
+
+const shortfallError = (record: InventoryRecord): LedgerError => {
+  const { available, outflows, shortfall } = stockFlows(record);
+  return {
+    field: 'closing_stock',
+    code: 'stock_shortfall',
+    message: `"${record.item_name}" at ${record.location} on ${record.date} is short by ${shortfall}: ` +
+      `${outflows} went out but only ${available} was available`,
+    expected: available,
+    received: outflows
+  };
+};
+
+
+// Overwrites whatever derived values the client sent with the server's own calculation
+export const applyBalances = <T extends StockMovements>(record: T) => ({
+  ...record,
+  ...calculateBalances(record)
+});
+
+// A day's opening stock has to carry over the product's previous closing stock at the
+// same location. The first record of a product there has nothing to chain from and is accepted as-is.
+export const checkLedgerInvariants = async (
+  repository: InventoryRepository,
+  record: Pick<InventoryRecord, 'item_name' | 'location' | 'date' | 'opening_stock'>
+) => {
+  const errors: LedgerError[] = [];
+  const previousClosing = await repository.getLatestClosingStock(record.item_name, record.location, record.date);
+
+  if (previousClosing !== null && previousClosing !== record.opening_stock) {
+    errors.push({
+      field: 'opening_stock',
+      code: 'opening_stock_mismatch',
+      message: `opening_stock must equal the previous closing stock of ${previousClosing}`,
+      expected: previousClosing,
+      received: record.opening_stock
+    });
+  }
+
+  return errors;
+};
+
+const compareByDate = (a: InventoryRecord, b: InventoryRecord) =>
+  a.date === b.date ? (a.id || 0) - (b.id || 0) : a.date < b.date ? -1 : 1;
+
+// Recomputes a complete product history at one location: the earliest record keeps its
+// opening stock and every later one opens with the closing stock of the day before
+export const chainRecords = (records: InventoryRecord[]) => {
+  let previousClosing: number | null = null;
+
+  return [...records].sort(compareByDate).map(record => {
+    const chained = applyBalances({ ...record, opening_stock: previousClosing ?? record.opening_stock });
+    previousClosing = chained.closing_stock;
+    return chained;
+  });
+};
+
+export interface RechainedRecord {
+  id: number;
+  item_name: string;
+  location: string;
+  date: string;
+  previous_opening_stock: number;
+  previous_closing_stock: number;
+  opening_stock: number;
+  closing_stock: number;
+}
+
+// Every record of the product in date order, optionally only at one location
+// and only from `fromDate` onwards
+export const loadProductRecords = async (
+  repository: InventoryRepository,
+  itemName: string,
+  { location, fromDate }: { location?: string; fromDate?: string } = {}
+) => {
+  const records: InventoryRecord[] = [];
+  let cursor: InventoryRecord | undefined;
+
+  do {
+    const page = await repository.listRecords({
+      item_name: itemName,
+      location,
+      from: fromDate,
+      sort: 'asc',
+      limit: 1000,
+      cursor: cursor ? { date: cursor.date, id: cursor.id! } : undefined
+    });
+    records.push(...page.records);
+    cursor = page.hasMore ? page.records[page.records.length - 1] : undefined;
+  } while (cursor);
+
+  return records;
+};
+
+// Walks every record of a product at a location from `fromDate` onwards and carries each closing
+// stock into the next day's opening stock. `pending` holds edits that are about to
+// be saved (they take the place of the stored rows) and `removedIds` rows about to
+// be deleted. Returns only the stored records whose values changed; nothing is written.
+export const rechainProduct = async (
+  repository: InventoryRepository,
+  itemName: string,
+  location: string,
+  fromDate: string,
+  { pending = [], removedIds = [] }: { pending?: InventoryRecord[]; removedIds?: number[] } = {}
+) => {
+  const pendingIds = new Set(pending.map(record => record.id));
+  const stored = await loadProductRecords(repository, itemName, { location, fromDate });
+
+  const chain = [
+    ...stored.filter(record => !pendingIds.has(record.id) && !removedIds.includes(record.id!)),
+    ...pending.filter(record => record.item_name === itemName && record.location === location && record.date >= fromDate)
+  ].sort(compareByDate);
+
+  const changes: { record: InventoryRecord; previous: InventoryRecord; change: RechainedRecord }[] = [];
+  let previousClosing = await repository.getLatestClosingStock(itemName, location, fromDate);
+
+  chain.forEach(record => {
+    if (pendingIds.has(record.id)) {
+      previousClosing = record.closing_stock;
+      return;
+    }
+
+    const openingStock = previousClosing ?? record.opening_stock;
+    const rechained = applyBalances({ ...record, opening_stock: openingStock });
+
+    if (rechained.opening_stock !== record.opening_stock || rechained.closing_stock !== record.closing_stock ||
+        rechained.new_balance !== record.new_balance) {
+      changes.push({
+        record: { ...rechained, timestamp: new Date().toISOString() },
+        previous: record,
+        change: {
+          id: record.id!,
+          item_name: record.item_name,
+          location: record.location,
+          date: record.date,
+          previous_opening_stock: record.opening_stock,
+          previous_closing_stock: record.closing_stock,
+          opening_stock: rechained.opening_stock,
+          closing_stock: rechained.closing_stock
+        }
+      });
+    }
+
+    previousClosing = rechained.closing_stock;
+  });
+
+  return changes;
+};
+
+// Records about to be saved may only be short with a reason: the override given for this
+// write, or the one the day was accepted with before. A day no longer short drops its
+// reason. Covers the edited records and the later days re-chained from them, and
+// returns both ready to save together with the shortfalls that are still refused.
+export const settleShortfalls = (
+  pending: InventoryRecord[],
+  changes: Awaited<ReturnType<typeof rechainProduct>>,
+  override: string | null = null
+) => {
+  const settle = (record: InventoryRecord) => ({
+    ...record,
+    shortfall_reason: stockFlows(record).shortfall > 0 ? override || record.shortfall_reason || null : null
+  });
+  const settled = {
+    pending: pending.map(settle),
+    changes: changes.map(change => ({ ...change, record: settle(change.record) }))
+  };
+
+  return {
+    ...settled,
+    errors: [...settled.pending, ...settled.changes.map(({ record }) => record)]
+      .filter(record => stockFlows(record).shortfall > 0 && !record.shortfall_reason)
+      .map(shortfallError)
+  };
+};
@@ -0,0 +1,19 @@
+// Stock is held at several places, configured on the server as
+// INVENTORY_LOCATIONS="Main Store,Second Store,Production Floor".
+// The first entry is the default for records that do not name a location.
+const FALLBACK_LOCATION = 'Main Store';
+
+export const getLocations = () => {
+  const configured = (process.env.INVENTORY_LOCATIONS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  return configured.length > 0 ? [...new Set(configured)] : [FALLBACK_LOCATION];
+};
+
+export const defaultLocation = () => getLocations()[0];
+
+// Case-insensitive, returning the configured spelling
+export const findLocation = (name: string) =>
+  getLocations().find(location => location.toLowerCase() === name.trim().toLowerCase()) || null;
@@ -0,0 +1,115 @@
+import { InventoryTransaction, LotQuantity } from '../types/inventory';
+
+// Follows the lots receipts brought in through the ledger of each product at each location.
+// Kept free of server imports so the product history and the reports can run it in the browser.
+// Transfers and rebagging carry their lots to where the stock goes; stock that arrived without
+// a lot is simply not in one.
+export interface LotBalance {
+  item_name: string;
+  location: string;
+  lot_number: string;
+  expiry_date: string | null;
+  received_on: string; // the day the lot came to this location
+  received: number; // including what transfers and rebagging brought in
+  issued: number; // what issues drew from the lot by name
+  balance: number; // what is left after everything that went out
+}
+
+// First to expire first; lots without an expiry date go last, oldest received first among equals
+export const byExpiry = (a: Pick<LotBalance, 'expiry_date' | 'received_on' | 'lot_number'>, b: typeof a) =>
+  (a.expiry_date || '9999-12-31').localeCompare(b.expiry_date || '9999-12-31') ||
+  a.received_on.localeCompare(b.received_on) ||
+  a.lot_number.localeCompare(b.lot_number);
+
+// Takes the quantity from the lots on hand, first to expire first. What no lot covers is left
+// out of the allocation and goes out unlotted.
+export const allocateLots = (lots: LotBalance[], quantity: number): LotQuantity[] => {
+  const allocation: LotQuantity[] = [];
+  let remaining = quantity;
+  lots
+    .filter(lot => lot.balance > 0)
+    .sort(byExpiry)
+    .forEach(lot => {
+      if (remaining <= 0) return;
+      const taken = Math.min(lot.balance, remaining);
+      allocation.push({ lot_number: lot.lot_number, expiry_date: lot.expiry_date, quantity: taken });
+      remaining -= taken;
+    });
+  return allocation;
+};
+
+// Lines that name their lots: what comes in with them adds to those lots at the line's location,
+// what goes out with them draws on them there
+const INFLOWS_WITH_LOTS: readonly string[] = ['receipt', 'transfer_in', 'rebagging'];
+const OUTFLOWS_WITH_LOTS: readonly string[] = ['issue', 'transfer_out', 'rebagging_out'];
+
+// Stock out that names no lots, e.g. damage or a day edited in the daily form, is taken from
+// the lots first to expire first, so they never add up to more than could be on hand
+const outflowOf = (line: InventoryTransaction) => {
+  switch (line.type) {
+    case 'issue':
+    case 'damage':
+    case 'transfer_out':
+    case 'rebagging_out':
+      return line.quantity;
+    case 'adjustment':
+      return -line.quantity;
+    default:
+      return 0;
+  }
+};
+
+// Replays every line up to `asOf`, when given, in the order it was posted
+export const lotBalances = (lines: InventoryTransaction[], asOf?: string): LotBalance[] => {
+  const held = new Map<string, LotBalance[]>();
+
+  lines
+    .filter(line => !asOf || line.date <= asOf)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at) || (a.id || 0) - (b.id || 0))
+    .forEach(line => {
+      const key = `${line.item_name}|${line.location}`;
+      if (!held.has(key)) held.set(key, []);
+      const lots = held.get(key)!;
+
+      if (INFLOWS_WITH_LOTS.includes(line.type) && line.lots) {
+        line.lots.forEach(entry => {
+          let lot = lots.find(candidate => candidate.lot_number === entry.lot_number);
+          if (!lot) {
+            lot = {
+              item_name: line.item_name,
+              location: line.location,
+              lot_number: entry.lot_number,
+              expiry_date: entry.expiry_date,
+              received_on: line.date,
+              received: 0,
+              issued: 0,
+              balance: 0
+            };
+            lots.push(lot);
+          }
+          lot.received += entry.quantity;
+          lot.balance += entry.quantity;
+        });
+      } else if (OUTFLOWS_WITH_LOTS.includes(line.type) && line.lots) {
+        line.lots.forEach(entry => {
+          const lot = lots.find(candidate => candidate.lot_number === entry.lot_number);
+          if (!lot) return;
+          if (line.type === 'issue') lot.issued += entry.quantity;
+          lot.balance = Math.max(lot.balance - entry.quantity, 0);
+        });
+      } else if (outflowOf(line) > 0) {
+        allocateLots(lots, outflowOf(line)).forEach(entry => {
+          lots.find(lot => lot.lot_number === entry.lot_number)!.balance -= entry.quantity;
+        });
+      }
+    });
+
+  return [...held.values()].flat();
+};
+
+// Whole days from `from` to the expiry date; negative once it has passed
+export const daysToExpiry = (expiryDate: string, from: string) =>
+  Math.round((new Date(expiryDate).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24));
+
+export const formatLots = (lots: LotQuantity[]) =>
+  lots.map(lot => `${lot.lot_number} (${lot.quantity})`).join(', ');
@@ -0,0 +1,83 @@
+import { FieldError, isValidDate } from './validation';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface RecordQuery {
+  item_name?: string;
+  location?: string;
+  search?: string;
+  from?: string;
+  to?: string;
+  sort: SortDirection;
+  limit: number;
+  cursor?: RecordCursor;
+}
+
+// Position of the last row on a page; records are ordered by (date, id)
+export interface RecordCursor {
+  date: string;
+  id: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+export const encodeCursor = (cursor: RecordCursor) =>
+  Buffer.from(JSON.stringify([cursor.date, cursor.id])).toString('base64url');
+
+export const decodeCursor = (value: string): RecordCursor | null => {
+  try {
+    const [date, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!isValidDate(date) || !Number.isInteger(id)) return null;
+    return { date, id };
+  } catch {
+    return null;
+  }
+};
+
+export const parseRecordQuery = (params: URLSearchParams) => {
+  const errors: FieldError[] = [];
+  const query: RecordQuery = { sort: 'desc', limit: DEFAULT_PAGE_SIZE };
+
+  const itemName = params.get('item_name');
+  if (itemName && itemName.trim()) query.item_name = itemName.trim();
+
+  const location = params.get('location');
+  if (location && location.trim()) query.location = location.trim();
+
+  const search = params.get('search');
+  if (search && search.trim()) query.search = search.trim();
+
+  (['from', 'to'] as const).forEach(field => {
+    const value = params.get(field);
+    if (!value) return;
+    if (isValidDate(value)) query[field] = value;
+    else errors.push({ field, message: `${field} must be a valid YYYY-MM-DD date` });
+  });
+
+  if (query.from && query.to && query.from > query.to) {
+    errors.push({ field: 'from', message: 'from must not be after to' });
+  }
+
+  const sort = params.get('sort');
+  if (sort) {
+    if (sort === 'asc' || sort === 'desc') query.sort = sort;
+    else errors.push({ field: 'sort', message: 'sort must be "asc" or "desc"' });
+  }
+
+  const limit = params.get('limit');
+  if (limit) {
+    const parsed = Number(limit);
+    if (Number.isInteger(parsed) && parsed > 0 && parsed <= MAX_PAGE_SIZE) query.limit = parsed;
+    else errors.push({ field: 'limit', message: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` });
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (decoded) query.cursor = decoded;
+    else errors.push({ field: 'cursor', message: 'cursor is invalid' });
+  }
+
+  return { query, errors };
+};
@@ -0,0 +1,29 @@
+import { Role } from '../types/inventory';
+
+export const ROLES: Role[] = ['viewer', 'storekeeper', 'supervisor', 'admin'];
+
+// Shared by the route handlers and the UI, so a hidden tab and a refused
+// request always come from the same rule
+const PERMISSIONS = {
+  'records:read': ['viewer', 'storekeeper', 'supervisor', 'admin'],
+  'records:write': ['storekeeper'],
+  'records:delete': ['admin'],
+  'records:export': ['admin'],
+  'transfers:post': ['storekeeper'],
+  'stocktakes:count': ['storekeeper', 'supervisor'],
+  'stocktakes:post': ['supervisor', 'admin'],
+  'corrections:request': ['storekeeper'],
+  'corrections:review': ['supervisor', 'admin'],
+  'products:manage': ['supervisor', 'admin'],
+  'products:merge': ['admin'],
+  'suppliers:manage': ['supervisor', 'admin'],
+  'purchases:order': ['supervisor', 'admin'],
+  'purchases:receive': ['storekeeper'],
+  'production:plan': ['supervisor', 'admin'],
+  'production:issue': ['storekeeper']
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const can = (role: Role | null | undefined, permission: Permission) =>
+  !!role && (PERMISSIONS[permission] as Role[]).includes(role);
@@ -0,0 +1,331 @@
+import { InventoryRecord } from '../types/inventory';
+import { InventoryRepository } from './repository';
+import { appendAudit, AuditChange, WriteContext } from './audit';
+import { corrections } from './corrections';
+import { transfers } from './transfers';
+import { rebaggings } from './rebagging';
+import { stockTakes } from './stockTakes';
+import { purchaseOrders } from './purchaseOrders';
+import { goodsReceivedNotes } from './goodsReceived';
+import { billsOfMaterials, productionOrders, productionReturns } from './production';
+import { recordTransactions, transactions } from './transactions';
+import { chainRecords, loadProductRecords } from './ledger';
+import { findProductByName, products } from './products';
+import { FieldError } from './validation';
+
+const MOVEMENT_FIELDS = [
+  'new_stock', 'issued_production', 'returns', 'rebagging', 'rebagging_out', 'damaged', 'transfer_in', 'transfer_out',
+  'adjustment'
+] as const;
+
+export type RewriteResult =
+  | { ok: true; product: string; records_updated: number; records_merged: number }
+  | { ok: false; status: number; error: string; errors?: FieldError[] };
+
+const invalid = (field: string, message: string): RewriteResult => ({
+  ok: false,
+  status: 400,
+  error: 'Invalid request',
+  errors: [{ field, message }]
+});
+
+// A name is in use when the catalog or any record carries it
+const nameInUse = async (repository: InventoryRepository, name: string) =>
+  !!(await findProductByName(repository, name)) ||
+  (await repository.listRecords({ item_name: name, sort: 'asc', limit: 1 })).records.length > 0;
+
+// Renames `source` in a document's lines, or returns null when it is not on them. When a
+// merge leaves both names on one document, `combine` folds the two lines into one; without
+// it both lines are kept.
+const renameLines = <T extends { item_name: string }>(
+  lines: T[],
+  source: string,
+  target: string,
+  combine?: (kept: T, folded: T) => T
+) => {
+  if (!lines.some(line => line.item_name === source)) return null;
+
+  const renamed = lines.map(line => (line.item_name === source ? { ...line, item_name: target } : line));
+  if (!combine) return renamed;
+  return renamed.reduce<T[]>((result, line) => {
+    const index = result.findIndex(kept => kept.item_name === line.item_name);
+    if (index < 0) return [...result, line];
+    result[index] = combine(result[index], line);
+    return result;
+  }, []);
+};
+
+// Pending corrections, posted transfers, rebagging conversions, transaction lines, the lines of
+// open stock-takes, open purchase orders and goods received notes, bills of materials, production
+// orders and production returns follow the records they belong to
+const moveDocuments = async (repository: InventoryRepository, source: string, target: string) => {
+  const store = corrections(repository);
+  const pending = await store.list({ item_name: source, status: 'pending' });
+  for (const correction of pending) {
+    await store.update(correction.id!, { item_name: target });
+  }
+
+  const transferStore = transfers(repository);
+  for (const transfer of await transferStore.list({ item_name: source })) {
+    await transferStore.update(transfer.id!, { item_name: target });
+  }
+
+  const rebaggingStore = rebaggings(repository);
+  for (const rebagging of await rebaggingStore.list({ source_product: source })) {
+    await rebaggingStore.update(rebagging.id!, { source_product: target });
+  }
+  for (const rebagging of await rebaggingStore.list({ target_product: source })) {
+    await rebaggingStore.update(rebagging.id!, { target_product: target });
+  }
+
+  const transactionStore = transactions(repository);
+  for (const transaction of await transactionStore.list({ item_name: source })) {
+    await transactionStore.update(transaction.id!, { item_name: target });
+  }
+
+  // Posted stock-takes keep the names they were counted under; a count of both is only
+  // complete once both were counted
+  const stockTakeStore = stockTakes(repository);
+  for (const stockTake of await stockTakeStore.list({ status: 'counting' })) {
+    const lines = renameLines(stockTake.lines, source, target, (kept, folded) => ({
+      ...kept,
+      counted: kept.counted !== null && folded.counted !== null ? kept.counted + folded.counted : null
+    }));
+    if (lines) await stockTakeStore.update(stockTake.id!, { lines });
+  }
+
+  // Goods still to come in are received under the new name; closed orders stay as they were placed
+  const orderStore = purchaseOrders(repository);
+  for (const order of await orderStore.list({ status: 'open' })) {
+    const lines = renameLines(order.lines, source, target, (kept, folded) => ({
+      ...kept,
+      quantity: kept.quantity + folded.quantity,
+      received: kept.received + folded.received
+    }));
+    if (lines) await orderStore.update(order.id!, { lines });
+  }
+
+  // Each line of a note was posted as its own receipt with its own cost and lots, so none are folded
+  const noteStore = goodsReceivedNotes(repository);
+  for (const note of await noteStore.list()) {
+    const lines = renameLines(note.lines, source, target);
+    if (lines) await noteStore.update(note.id!, { lines });
+  }
+
+  // A merge can leave two bills for the target; the target's own stays the one in use
+  const bomStore = billsOfMaterials(repository);
+  const boms = await bomStore.list();
+  const targetHasBom = boms.some(bom => bom.finished_product === target);
+  for (const bom of boms) {
+    const lines = renameLines(bom.lines, source, target, (kept, folded) => ({
+      ...kept,
+      quantity_per_unit: kept.quantity_per_unit + folded.quantity_per_unit
+    }));
+    if (bom.finished_product === source) {
+      await bomStore.update(bom.id!, {
+        finished_product: target,
+        active: bom.active && !targetHasBom,
+        ...(lines ? { lines } : {}),
+        updated_at: new Date().toISOString()
+      });
+    } else if (lines) {
+      await bomStore.update(bom.id!, { lines, updated_at: new Date().toISOString() });
+    }
+  }
+
+  const productionOrderStore = productionOrders(repository);
+  for (const order of await productionOrderStore.list()) {
+    const lines = renameLines(order.lines, source, target, (kept, folded) => ({
+      ...kept,
+      quantity_per_unit: kept.quantity_per_unit + folded.quantity_per_unit,
+      issued: kept.issued + folded.issued,
+      returned: kept.returned + folded.returned
+    }));
+    if (order.finished_product === source || lines) {
+      await productionOrderStore.update(order.id!, {
+        ...(order.finished_product === source ? { finished_product: target } : {}),
+        ...(lines ? { lines } : {})
+      });
+    }
+  }
+
+  const returnStore = productionReturns(repository);
+  for (const productionReturn of await returnStore.list({ item_name: source })) {
+    await returnStore.update(productionReturn.id!, { item_name: target });
+  }
+};
+
+// Saves the rewritten history in one batch and logs one audit entry per touched record
+const saveHistory = async (
+  repository: InventoryRepository,
+  context: WriteContext,
+  original: InventoryRecord[],
+  history: InventoryRecord[],
+  note: string
+) => {
+  const byId = new Map(original.map(record => [record.id, record]));
+  const timestamp = new Date().toISOString();
+
+  const changed = history.filter(record => {
+    const before = byId.get(record.id)!;
+    return before.item_name !== record.item_name ||
+      before.opening_stock !== record.opening_stock ||
+      before.new_balance !== record.new_balance ||
+      before.closing_stock !== record.closing_stock ||
+      MOVEMENT_FIELDS.some(field => before[field] !== record[field]);
+  }).map(record => ({ ...record, timestamp }));
+
+  await repository.saveRecords(changed);
+  await appendAudit(repository, context, changed.map(record => ({
+    action: 'update' as const,
+    before: byId.get(record.id)!,
+    after: record,
+    note
+  })));
+
+  return changed.length;
+};
+
+// Gives every record of `source` the new name. The stock chain itself is unchanged.
+export const renameProduct = async (
+  repository: InventoryRepository,
+  source: string,
+  target: string,
+  context: WriteContext
+): Promise<RewriteResult> => {
+  const product = await findProductByName(repository, source);
+  // Records carry the catalog's spelling, which may differ in case from what was typed
+  const sourceName = product?.name || source;
+  if (sourceName === target) return invalid('target', 'The new name is the same as the current one');
+
+  const records = await loadProductRecords(repository, sourceName);
+  if (records.length === 0 && !product) {
+    return { ok: false, status: 404, error: `No product named "${source}"` };
+  }
+
+  // A change of letter case only is a rename of the same product, not a clash
+  if (source.toLowerCase() !== target.toLowerCase() && await nameInUse(repository, target)) {
+    return {
+      ok: false,
+      status: 409,
+      error: `"${target}" is already in use; merge the products instead`
+    };
+  }
+
+  const renamed = records.map(record => ({ ...record, item_name: target }));
+  const updated = await saveHistory(repository, context, records, renamed, `Renamed from "${sourceName}"`);
+
+  if (product) {
+    await products(repository).update(product.id!, { name: target, updated_at: new Date().toISOString() });
+  }
+  await moveDocuments(repository, sourceName, target);
+
+  return { ok: true, product: target, records_updated: updated, records_merged: 0 };
+};
+
+// Moves the history of `source` onto `target`. Days both products recorded at the same
+// location are folded into the target's record, and the combined history at each
+// location is re-chained from its first day. Where both products were already stocked at
+// a location, the one that started there later brings its opening stock in as an
+// adjustment on its first day, so neither product's starting stock is lost.
+export const mergeProducts = async (
+  repository: InventoryRepository,
+  source: string,
+  target: string,
+  context: WriteContext
+): Promise<RewriteResult> => {
+  if (source.toLowerCase() === target.toLowerCase()) {
+    return invalid('target', 'A product cannot be merged into itself');
+  }
+
+  const [sourceProduct, targetProduct] = await Promise.all([
+    findProductByName(repository, source),
+    findProductByName(repository, target)
+  ]);
+  // Records carry the catalog's spelling, which may differ in case from what was typed
+  const targetName = targetProduct?.name || target;
+  const [sourceRecords, targetRecords] = await Promise.all([
+    loadProductRecords(repository, sourceProduct?.name || source),
+    loadProductRecords(repository, targetName)
+  ]);
+
+  if (sourceRecords.length === 0 && !sourceProduct) {
+    return { ok: false, status: 404, error: `No product named "${source}"` };
+  }
+  if (targetRecords.length === 0 && !targetProduct) {
+    return { ok: false, status: 404, error: `No product named "${target}"` };
+  }
+
+  const dayKey = (record: InventoryRecord) => `${record.location}|${record.date}`;
+  const targetByDay = new Map(targetRecords.map(record => [dayKey(record), { ...record }]));
+  const absorbed: InventoryRecord[] = [];
+  const moved: InventoryRecord[] = [];
+
+  sourceRecords.forEach(record => {
+    const sameDay = targetByDay.get(dayKey(record));
+    if (sameDay) {
+      MOVEMENT_FIELDS.forEach(field => {
+        sameDay[field] += record[field];
+      });
+      absorbed.push(record);
+    } else {
+      moved.push({ ...record, item_name: targetName });
+    }
+  });
+
+  // Records load in date order, so the first one found at a location is the product's first day there
+  const carried: { record: InventoryRecord; quantity: number; from: string }[] = [];
+  new Set(sourceRecords.map(record => record.location)).forEach(location => {
+    const firstSource = sourceRecords.find(record => record.location === location)!;
+    const firstTarget = targetRecords.find(record => record.location === location);
+    if (!firstTarget) return;
+
+    // On the same first day the target's opening is the one the chain keeps
+    const later = firstSource.date >= firstTarget.date ? firstSource : firstTarget;
+    if (later.opening_stock === 0) return;
+    const record = targetByDay.get(dayKey(later)) || moved.find(candidate => candidate.id === later.id)!;
+    record.adjustment += later.opening_stock;
+    carried.push({ record, quantity: later.opening_stock, from: later.item_name });
+  });
+
+  const byLocation = new Map<string, InventoryRecord[]>();
+  [...targetByDay.values(), ...moved].forEach(record => {
+    byLocation.set(record.location, [...(byLocation.get(record.location) || []), record]);
+  });
+  const history = [...byLocation.values()].flatMap(chainRecords);
+  const note = `Merged from "${source}"`;
+
+  const updated = await saveHistory(
+    repository,
+    context,
+    [...targetRecords, ...sourceRecords.filter(record => !absorbed.includes(record))],
+    history,
+    note
+  );
+
+  const deletions: AuditChange[] = [];
+  for (const record of absorbed) {
+    if (await repository.deleteRecord(record.id!)) {
+      deletions.push({ action: 'delete', before: record, after: null, note: `Folded into the "${targetName}" record of the same day` });
+    }
+  }
+  await appendAudit(repository, context, deletions);
+
+  // The carried opening stock gets its line, so the day's lines still add up to its record
+  for (const { record, quantity, from } of carried) {
+    await recordTransactions(repository, record, [{
+      type: 'adjustment',
+      quantity,
+      note: `Opening stock of "${from}" carried over by the merge`
+    }], context);
+  }
+
+  // Nothing refers to the source name any more, so its catalog entry goes too
+  if (sourceProduct) {
+    await products(repository).delete(sourceProduct.id!);
+  }
+  // Documents carry the catalog's spelling too, not what was typed
+  await moveDocuments(repository, sourceProduct?.name || source, targetName);
+
+  return { ok: true, product: targetName, records_updated: updated, records_merged: deletions.length };
+};
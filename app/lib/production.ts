@@ -0,0 +1,393 @@
+import {
+  BillOfMaterials, BomLine, InventoryRecord, InventoryTransaction, ProductionOrder, ProductionOrderLine, ProductionReturn
+} from '../types/inventory';
+import { InventoryRepository } from './repository';
+import { WriteContext } from './audit';
+import { defaultLocation, findLocation } from './locations';
+import { findProductByName } from './products';
+import { nextReference } from './references';
+import { postTransaction, transactions } from './transactions';
+import { FieldError, isQuantity, isValidDate, optionalText, refusePastDate, today } from './validation';
+
+export type BillOfMaterialsInput = Omit<BillOfMaterials, 'id' | 'created_at' | 'updated_at'>;
+
+export type ProductionOrderResult =
+  | { ok: true; order: ProductionOrder }
+  | { ok: false; status: number; error: string; errors?: FieldError[] };
+
+export type ProductionIssueResult =
+  | { ok: true; order: ProductionOrder; issues: InventoryTransaction[] }
+  | { ok: false; status: number; error: string; errors?: FieldError[] };
+
+export type ProductionReturnResult =
+  | {
+    ok: true;
+    productionReturn: ProductionReturn;
+    transaction: InventoryTransaction;
+    record: InventoryRecord;
+    order: ProductionOrder | null;
+  }
+  | { ok: false; status: number; error: string; errors?: FieldError[] };
+
+export const billsOfMaterials = (repository: InventoryRepository) =>
+  repository.collection<BillOfMaterials>('inventory_boms');
+
+export const productionOrders = (repository: InventoryRepository) =>
+  repository.collection<ProductionOrder>('inventory_production_orders');
+
+export const productionReturns = (repository: InventoryRepository) =>
+  repository.collection<ProductionReturn>('inventory_returns');
+
+// Same shape as validateSupplier, but the lines are checked against the catalog
+export const validateBillOfMaterials = async (
+  repository: InventoryRepository,
+  input: unknown,
+  { partial = false } = {}
+) => {
+  const errors: FieldError[] = [];
+  const bom: Partial<BillOfMaterialsInput> = {};
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { bom, errors: [{ field: 'body', message: 'Request body must be a JSON object' }] };
+  }
+
+  const body = input as Record<string, unknown>;
+
+  if (body.finished_product !== undefined || !partial) {
+    if (typeof body.finished_product !== 'string' || !body.finished_product.trim()) {
+      errors.push({ field: 'finished_product', message: 'finished_product is required' });
+    } else {
+      bom.finished_product = body.finished_product.trim();
+    }
+  }
+
+  if (body.lines !== undefined || !partial) {
+    if (!Array.isArray(body.lines) || body.lines.length === 0) {
+      errors.push({ field: 'lines', message: 'lines must list at least one { item_name, quantity_per_unit }' });
+    } else {
+      const lines: BomLine[] = [];
+      for (const entry of body.lines) {
+        const product = typeof entry?.item_name === 'string' ? await findProductByName(repository, entry.item_name.trim()) : null;
+        if (!product || !product.active) {
+          errors.push({ field: 'lines', message: `"${entry?.item_name}" is not an active product in the catalog` });
+        } else if (!isQuantity(entry.quantity_per_unit)) {
+          errors.push({ field: 'lines', message: `The quantity per unit of "${product.name}" must be a positive number` });
+        } else if (lines.some(line => line.item_name === product.name)) {
+          errors.push({ field: 'lines', message: `"${product.name}" is listed more than once` });
+        } else {
+          lines.push({ item_name: product.name, quantity_per_unit: entry.quantity_per_unit });
+        }
+      }
+      bom.lines = lines;
+    }
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      errors.push({ field: 'active', message: 'active must be true or false' });
+    } else {
+      bom.active = body.active;
+    }
+  } else if (!partial) {
+    bom.active = true;
+  }
+
+  return { bom, errors };
+};
+
+// One bill of materials per finished product, ignoring case
+export const findBillOfMaterialsConflicts = async (
+  repository: InventoryRepository,
+  bom: Partial<BillOfMaterialsInput>,
+  excludeId?: number
+) => {
+  const others = (await billsOfMaterials(repository).list()).filter(existing => existing.id !== excludeId);
+
+  return bom.finished_product && others.some(existing => existing.finished_product.toLowerCase() === bom.finished_product!.toLowerCase())
+    ? [{ field: 'finished_product', message: `"${bom.finished_product}" already has a bill of materials` }]
+    : [];
+};
+
+// Body: { bom_id, planned_quantity, location?, order_date?, reference?, note? }
+export const createProductionOrder = async (
+  repository: InventoryRepository,
+  input: unknown,
+  context: WriteContext
+): Promise<ProductionOrderResult> => {
+  const errors: FieldError[] = [];
+  const body = (input && typeof input === 'object' && !Array.isArray(input) ? input : {}) as Record<string, unknown>;
+
+  const bom = typeof body.bom_id === 'number' ? await billsOfMaterials(repository).get(body.bom_id) : null;
+  if (!bom || !bom.active) {
+    errors.push({ field: 'bom_id', message: 'bom_id must be an active bill of materials' });
+  }
+
+  if (!isQuantity(body.planned_quantity)) {
+    errors.push({ field: 'planned_quantity', message: 'planned_quantity must be a positive number' });
+  }
+
+  const location = body.location === undefined
+    ? defaultLocation()
+    : typeof body.location === 'string' ? findLocation(body.location) : null;
+  if (!location) {
+    errors.push({ field: 'location', message: `"${body.location}" is not a configured location` });
+  }
+
+  const orderDate = body.order_date === undefined ? today() : body.order_date;
+  if (!isValidDate(orderDate)) {
+    errors.push({ field: 'order_date', message: 'order_date must be a valid YYYY-MM-DD date' });
+  } else if (orderDate > today()) {
+    errors.push({ field: 'order_date', message: 'Orders cannot be dated in the future' });
+  }
+
+  if (errors.length > 0) return { ok: false, status: 400, error: 'Invalid production order', errors };
+
+  const store = productionOrders(repository);
+  const reference =
+    optionalText(body.reference) || (await nextReference(store, 'PRD', orderDate as string, { order_date: orderDate as string }));
+  if ((await store.list({ reference })).length > 0) {
+    return { ok: false, status: 409, error: `A production order with reference "${reference}" already exists` };
+  }
+
+  const order = await store.insert({
+    reference,
+    bom_id: bom!.id!,
+    finished_product: bom!.finished_product,
+    location: location!,
+    order_date: orderDate as string,
+    planned_quantity: body.planned_quantity as number,
+    produced_quantity: null,
+    status: 'open',
+    lines: bom!.lines.map(line => ({ ...line, issued: 0, returned: 0 })),
+    note: optionalText(body.note),
+    created_by: context.actor,
+    created_at: new Date().toISOString(),
+    closed_at: null
+  });
+
+  return { ok: true, order };
+};
+
+// Posts each line as an issue to production on the order's location with the order's
+// reference, so the day's issued_production can be traced back to what was made. More than
+// the bill of materials allows may be issued; the difference shows up as a variance.
+// Body: { date?, note?, shortfall_reason?, lines: [{ item_name, quantity }] }
+export const issueToProductionOrder = async (
+  repository: InventoryRepository,
+  order: ProductionOrder,
+  input: unknown,
+  context: WriteContext
+): Promise<ProductionIssueResult> => {
+  if (order.status !== 'open') {
+    return { ok: false, status: 409, error: `Production order ${order.reference} is already ${order.status}` };
+  }
+
+  const errors: FieldError[] = [];
+  const body = (input && typeof input === 'object' && !Array.isArray(input) ? input : {}) as Record<string, unknown>;
+
+  const date = body.date === undefined ? today() : body.date;
+  if (!isValidDate(date)) {
+    errors.push({ field: 'date', message: 'date must be a valid YYYY-MM-DD date' });
+  } else if (date > today()) {
+    errors.push({ field: 'date', message: 'Materials cannot be issued on a future date' });
+  } else if (date < order.order_date) {
+    errors.push({ field: 'date', message: `Materials cannot be issued before the order date ${order.order_date}` });
+  }
+
+  const lines: { item_name: string; quantity: number }[] = [];
+  if (!Array.isArray(body.lines) || body.lines.length === 0) {
+    errors.push({ field: 'lines', message: 'lines must list at least one { item_name, quantity }' });
+  } else {
+    for (const entry of body.lines) {
+      const material = order.lines.find(line => line.item_name === (typeof entry?.item_name === 'string' ? entry.item_name.trim() : ''));
+      if (!material) {
+        errors.push({ field: 'lines', message: `"${entry?.item_name}" is not in the bill of materials of ${order.reference}` });
+      } else if (!isQuantity(entry.quantity)) {
+        errors.push({ field: 'lines', message: `The quantity of "${material.item_name}" must be a positive number` });
+      } else if (lines.some(line => line.item_name === material.item_name)) {
+        errors.push({ field: 'lines', message: `"${material.item_name}" is listed more than once` });
+      } else {
+        lines.push({ item_name: material.item_name, quantity: entry.quantity });
+      }
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, status: 400, error: 'Invalid production issue', errors };
+  const refused = refusePastDate(date as string);
+  if (refused) return refused;
+
+  // Lines posted before a later one is refused stay on the order, so it always matches the ledger
+  const issues: InventoryTransaction[] = [];
+  let failure: ProductionIssueResult | null = null;
+  for (const line of lines) {
+    const result = await postTransaction(repository, {
+      item_name: line.item_name,
+      location: order.location,
+      date: date as string,
+      type: 'issue',
+      quantity: line.quantity,
+      reference: order.reference,
+      reason_code: null,
+      unit_cost: null,
+      lots: null,
+      note: optionalText(body.note) || `For ${order.finished_product}`,
+      shortfall_reason: optionalText(body.shortfall_reason)
+    }, context);
+
+    if (!result.ok) {
+      failure = { ok: false, status: result.status, error: result.error, errors: result.errors };
+      break;
+    }
+    issues.push(result.transaction);
+  }
+
+  if (issues.length === 0) return failure!;
+
+  const issued = new Map(issues.map(issue => [issue.item_name, issue.quantity]));
+  const updated = await productionOrders(repository).update(order.id!, {
+    lines: order.lines.map((line): ProductionOrderLine => ({ ...line, issued: line.issued + (issued.get(line.item_name) || 0) }))
+  });
+
+  if (failure) return failure;
+  return { ok: true, order: updated!, issues };
+};
+
+// Brings material back from production against the issue it went out on, or against a
+// production order. An issue posted with an order's reference counts against that order
+// too, so neither can get back more than was issued to it.
+// Body: { issue_id?, production_order_id?, item_name?, quantity, date?, reference?, note? }
+export const postProductionReturn = async (
+  repository: InventoryRepository,
+  input: unknown,
+  context: WriteContext
+): Promise<ProductionReturnResult> => {
+  const errors: FieldError[] = [];
+  const body = (input && typeof input === 'object' && !Array.isArray(input) ? input : {}) as Record<string, unknown>;
+
+  if ((body.issue_id === undefined || body.issue_id === null) &&
+    (body.production_order_id === undefined || body.production_order_id === null)) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Invalid production return',
+      errors: [{ field: 'issue_id', message: 'A return must name the issue (issue_id) or production order (production_order_id) it comes back from' }]
+    };
+  }
+
+  let issue: InventoryTransaction | null = null;
+  if (body.issue_id !== undefined && body.issue_id !== null) {
+    issue = typeof body.issue_id === 'number' ? await transactions(repository).get(body.issue_id) : null;
+    if (!issue || issue.type !== 'issue' || issue.quantity <= 0) {
+      errors.push({ field: 'issue_id', message: 'issue_id is not an issue to production' });
+      issue = null;
+    }
+  }
+
+  const orders = productionOrders(repository);
+  let order: ProductionOrder | null = null;
+  if (body.production_order_id !== undefined && body.production_order_id !== null) {
+    order = typeof body.production_order_id === 'number' ? await orders.get(body.production_order_id) : null;
+    if (!order) {
+      errors.push({ field: 'production_order_id', message: 'production_order_id is not a production order' });
+    } else if (issue && issue.reference !== order.reference) {
+      errors.push({ field: 'production_order_id', message: `The issue was not posted against ${order.reference}` });
+    }
+  } else if (issue?.reference) {
+    order = (await orders.list({ reference: issue.reference }))[0] || null;
+  }
+
+  const itemName = issue
+    ? issue.item_name
+    : typeof body.item_name === 'string' ? body.item_name.trim() : '';
+  const orderLine = order?.lines.find(line => line.item_name === itemName) || null;
+  if (issue && typeof body.item_name === 'string' && body.item_name.trim() !== issue.item_name) {
+    errors.push({ field: 'item_name', message: `The issue was of "${issue.item_name}"` });
+  } else if (!issue && order && !orderLine) {
+    errors.push({ field: 'item_name', message: `"${body.item_name}" was not issued to ${order.reference}` });
+  }
+
+  if (!isQuantity(body.quantity)) {
+    errors.push({ field: 'quantity', message: 'quantity must be a positive number' });
+  }
+
+  const earliest = issue?.date || order?.order_date || '';
+  const date = body.date === undefined ? today() : body.date;
+  if (!isValidDate(date)) {
+    errors.push({ field: 'date', message: 'date must be a valid YYYY-MM-DD date' });
+  } else if (date > today()) {
+    errors.push({ field: 'date', message: 'Returns cannot be posted for future dates' });
+  } else if (date < earliest) {
+    errors.push({ field: 'date', message: `Material cannot come back before it was issued on ${earliest}` });
+  }
+
+  if (errors.length > 0) return { ok: false, status: 400, error: 'Invalid production return', errors };
+  const refused = refusePastDate(date as string);
+  if (refused) return refused;
+
+  const store = productionReturns(repository);
+  const quantity = body.quantity as number;
+  const limits: { label: string; outstanding: number }[] = [];
+  if (issue) {
+    const returned = (await store.list({ issue_id: issue.id! })).reduce((sum, entry) => sum + entry.quantity, 0);
+    limits.push({ label: `issue #${issue.id} of ${issue.date}`, outstanding: issue.quantity - returned });
+  }
+  if (orderLine) {
+    limits.push({ label: order!.reference, outstanding: orderLine.issued - orderLine.returned });
+  }
+
+  const exceeded = limits
+    .filter(limit => quantity > limit.outstanding)
+    .map(limit => ({
+      field: 'quantity',
+      message: `Only ${Math.max(limit.outstanding, 0)} of "${itemName}" is still out on ${limit.label}`
+    }));
+  if (exceeded.length > 0) {
+    return { ok: false, status: 422, error: 'Return exceeds what was issued', errors: exceeded };
+  }
+
+  const reference = optionalText(body.reference) || (await nextReference(store, 'RET', date as string, { date: date as string }));
+  if ((await store.list({ reference })).length > 0) {
+    return { ok: false, status: 409, error: `A return with reference "${reference}" already exists` };
+  }
+
+  const source = orderLine ? order!.reference : issue!.reference || `issue #${issue!.id}`;
+  const result = await postTransaction(repository, {
+    item_name: itemName,
+    location: issue ? issue.location : order!.location,
+    date: date as string,
+    type: 'return',
+    quantity,
+    reference,
+    reason_code: null,
+    unit_cost: null,
+    lots: null,
+    note: optionalText(body.note) || `Returned from ${source}`
+  }, context);
+
+  if (!result.ok) {
+    return { ok: false, status: result.status, error: result.error, errors: result.errors };
+  }
+
+  const productionReturn = await store.insert({
+    reference,
+    item_name: itemName,
+    location: result.transaction.location,
+    date: date as string,
+    quantity,
+    issue_id: issue?.id ?? null,
+    production_order_id: orderLine ? order!.id! : null,
+    production_order_reference: orderLine ? order!.reference : null,
+    note: optionalText(body.note),
+    created_by: context.actor,
+    created_at: new Date().toISOString()
+  });
+
+  const updatedOrder = orderLine
+    ? await orders.update(order!.id!, {
+      lines: order!.lines.map((line): ProductionOrderLine =>
+        line.item_name === itemName ? { ...line, returned: line.returned + quantity } : line)
+    })
+    : null;
+
+  return { ok: true, productionReturn, transaction: result.transaction, record: result.record, order: updatedOrder };
+};
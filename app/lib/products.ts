@@ -0,0 +1,121 @@
+import { Product } from '../types/inventory';
+import { InventoryRepository } from './repository';
+import { FieldError, optionalText } from './validation';
+
+export type ProductInput = Omit<Product, 'id' | 'created_at' | 'updated_at'>;
+
+const CODE_PATTERN = /^[A-Z0-9][A-Z0-9_-]{0,31}$/;
+
+export const products = (repository: InventoryRepository) => repository.collection<Product>('inventory_products');
+
+// A partial update is checked again against the levels it leaves in place
+export const levelErrors = (levels: Partial<Pick<Product, 'min_stock' | 'reorder_point'>>): FieldError[] =>
+  typeof levels.min_stock === 'number' && typeof levels.reorder_point === 'number' && levels.reorder_point < levels.min_stock
+    ? [{ field: 'reorder_point', message: 'reorder_point cannot be below min_stock' }]
+    : [];
+
+// Same shape as validateInventoryRecord: with `partial` set only the fields present are checked
+export const validateProduct = (input: unknown, { partial = false } = {}) => {
+  const errors: FieldError[] = [];
+  const product: Partial<ProductInput> = {};
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { product, errors: [{ field: 'body', message: 'Request body must be a JSON object' }] };
+  }
+
+  const body = input as Record<string, unknown>;
+
+  if (body.code !== undefined || !partial) {
+    const code = typeof body.code === 'string' ? body.code.trim().toUpperCase() : '';
+    if (!CODE_PATTERN.test(code)) {
+      errors.push({ field: 'code', message: 'code must be 1-32 letters, digits, "-" or "_"' });
+    } else {
+      product.code = code;
+    }
+  }
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      errors.push({ field: 'name', message: 'name is required' });
+    } else {
+      product.name = body.name.trim();
+    }
+  }
+
+  if (body.unit !== undefined || !partial) {
+    if (typeof body.unit !== 'string' || !body.unit.trim()) {
+      errors.push({ field: 'unit', message: 'unit is required' });
+    } else {
+      product.unit = body.unit.trim();
+    }
+  }
+
+  if (body.category !== undefined) {
+    product.category = optionalText(body.category);
+  } else if (!partial) {
+    product.category = null;
+  }
+
+  if (body.bag_size !== undefined && body.bag_size !== null) {
+    if (typeof body.bag_size !== 'number' || !Number.isFinite(body.bag_size) || body.bag_size <= 0) {
+      errors.push({ field: 'bag_size', message: 'bag_size must be a positive number' });
+    } else {
+      product.bag_size = body.bag_size;
+    }
+  } else if (body.bag_size === null || !partial) {
+    product.bag_size = null;
+  }
+
+  // Stock levels are optional; a product without them is only ever in or out of stock
+  (['min_stock', 'reorder_point'] as const).forEach(field => {
+    const value = body[field];
+    if (value !== undefined && value !== null) {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        errors.push({ field, message: `${field} must be zero or more` });
+      } else {
+        product[field] = value;
+      }
+    } else if (value === null || !partial) {
+      product[field] = null;
+    }
+  });
+
+  errors.push(...levelErrors(product));
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      errors.push({ field: 'active', message: 'active must be true or false' });
+    } else {
+      product.active = body.active;
+    }
+  } else if (!partial) {
+    product.active = true;
+  }
+
+  return { product, errors };
+};
+
+// Codes and names are both unique, ignoring case
+export const findConflicts = async (
+  repository: InventoryRepository,
+  product: Partial<ProductInput>,
+  excludeId?: number
+) => {
+  const errors: FieldError[] = [];
+  const catalog = await products(repository).list();
+  const others = catalog.filter(existing => existing.id !== excludeId);
+
+  if (product.code && others.some(existing => existing.code.toUpperCase() === product.code)) {
+    errors.push({ field: 'code', message: `A product with code ${product.code} already exists` });
+  }
+  if (product.name && others.some(existing => existing.name.toLowerCase() === product.name!.toLowerCase())) {
+    errors.push({ field: 'name', message: `A product named "${product.name}" already exists` });
+  }
+
+  return errors;
+};
+
+export const findProductByName = async (repository: InventoryRepository, name: string) => {
+  const catalog = await products(repository).list();
+  return catalog.find(product => product.name.toLowerCase() === name.toLowerCase()) || null;
+};
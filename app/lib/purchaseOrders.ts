@@ -0,0 +1,121 @@
+import { PurchaseOrder, PurchaseOrderLine } from '../types/inventory';
+import { InventoryRepository } from './repository';
+import { WriteContext } from './audit';
+import { defaultLocation, findLocation } from './locations';
+import { findProductByName } from './products';
+import { nextReference } from './references';
+import { suppliers } from './suppliers';
+import { FieldError, isQuantity, isValidDate, optionalText, today } from './validation';
+
+export type PurchaseOrderResult =
+  | { ok: true; order: PurchaseOrder }
+  | { ok: false; status: number; error: string; errors?: FieldError[] };
+
+export const purchaseOrders = (repository: InventoryRepository) =>
+  repository.collection<PurchaseOrder>('inventory_purchase_orders');
+
+// Still to come on a line
+export const outstandingQuantity = (line: PurchaseOrderLine) => Math.max(line.quantity - line.received, 0);
+
+const invalid = (errors: FieldError[]): PurchaseOrderResult => ({
+  ok: false,
+  status: 400,
+  error: 'Invalid purchase order',
+  errors
+});
+
+// Body: { supplier_id, location?, order_date?, expected_date?, reference?, note?, lines: [{ item_name, quantity }] }
+export const createPurchaseOrder = async (
+  repository: InventoryRepository,
+  input: unknown,
+  context: WriteContext
+): Promise<PurchaseOrderResult> => {
+  const errors: FieldError[] = [];
+  const body = (input && typeof input === 'object' && !Array.isArray(input) ? input : {}) as Record<string, unknown>;
+
+  const supplier = typeof body.supplier_id === 'number' ? await suppliers(repository).get(body.supplier_id) : null;
+  if (!supplier || !supplier.active) {
+    errors.push({ field: 'supplier_id', message: 'supplier_id must be an active supplier' });
+  }
+
+  const location = body.location === undefined
+    ? defaultLocation()
+    : typeof body.location === 'string' ? findLocation(body.location) : null;
+  if (!location) {
+    errors.push({ field: 'location', message: `"${body.location}" is not a configured location` });
+  }
+
+  const orderDate = body.order_date === undefined ? today() : body.order_date;
+  if (!isValidDate(orderDate)) {
+    errors.push({ field: 'order_date', message: 'order_date must be a valid YYYY-MM-DD date' });
+  } else if (orderDate > today()) {
+    errors.push({ field: 'order_date', message: 'Orders cannot be dated in the future' });
+  }
+
+  const expectedDate = body.expected_date === undefined || body.expected_date === null ? null : body.expected_date;
+  if (expectedDate !== null && !isValidDate(expectedDate)) {
+    errors.push({ field: 'expected_date', message: 'expected_date must be a valid YYYY-MM-DD date' });
+  } else if (expectedDate !== null && isValidDate(orderDate) && expectedDate < orderDate) {
+    errors.push({ field: 'expected_date', message: 'expected_date cannot be before the order date' });
+  }
+
+  const lines: PurchaseOrderLine[] = [];
+  if (!Array.isArray(body.lines) || body.lines.length === 0) {
+    errors.push({ field: 'lines', message: 'lines must list at least one { item_name, quantity }' });
+  } else {
+    for (const entry of body.lines) {
+      const product = typeof entry?.item_name === 'string' ? await findProductByName(repository, entry.item_name.trim()) : null;
+      if (!product || !product.active) {
+        errors.push({ field: 'lines', message: `"${entry?.item_name}" is not an active product in the catalog` });
+      } else if (!isQuantity(entry.quantity)) {
+        errors.push({ field: 'lines', message: `The quantity of "${product.name}" must be a positive number` });
+      } else if (lines.some(line => line.item_name === product.name)) {
+        errors.push({ field: 'lines', message: `"${product.name}" is ordered more than once` });
+      } else {
+        lines.push({ item_name: product.name, quantity: entry.quantity, received: 0 });
+      }
+    }
+  }
+
+  if (errors.length > 0) return invalid(errors);
+
+  const store = purchaseOrders(repository);
+  const reference =
+    optionalText(body.reference) || (await nextReference(store, 'PO', orderDate as string, { order_date: orderDate as string }));
+  if ((await store.list({ reference })).length > 0) {
+    return { ok: false, status: 409, error: `A purchase order with reference "${reference}" already exists` };
+  }
+
+  const order = await store.insert({
+    reference,
+    supplier_id: supplier!.id!,
+    supplier_name: supplier!.name,
+    location: location!,
+    order_date: orderDate as string,
+    expected_date: expectedDate as string | null,
+    status: 'open',
+    lines,
+    note: optionalText(body.note),
+    created_by: context.actor,
+    created_at: new Date().toISOString(),
+    closed_at: null
+  });
+
+  return { ok: true, order };
+};
+
+// Adds what a goods-received note brought in onto the order's lines and closes the order
+// once nothing is outstanding
+export const recordReceived = async (
+  repository: InventoryRepository,
+  order: PurchaseOrder,
+  received: Map<string, number>
+) => {
+  const lines = order.lines.map(line => ({ ...line, received: line.received + (received.get(line.item_name) || 0) }));
+  const complete = lines.every(line => outstandingQuantity(line) === 0);
+
+  return purchaseOrders(repository).update(order.id!, {
+    lines,
+    ...(complete ? { status: 'received' as const, closed_at: new Date().toISOString() } : {})
+  });
+};
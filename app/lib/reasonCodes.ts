@@ -0,0 +1,29 @@
+import { ReasonCode } from '../types/inventory';
+
+// Why stock was written off or adjusted, configured on the server as
+// INVENTORY_REASON_CODES="torn_bag:Torn bag,water_damage:Water damage,theft:Theft".
+// A code given without a label is shown as written.
+const DEFAULT_REASON_CODES: ReasonCode[] = [
+  { code: 'torn_bag', label: 'Torn bag' },
+  { code: 'water_damage', label: 'Water damage' },
+  { code: 'pest', label: 'Pest' },
+  { code: 'count_error', label: 'Count error' },
+  { code: 'theft', label: 'Theft' }
+];
+
+export const getReasonCodes = (): ReasonCode[] => {
+  const configured = (process.env.INVENTORY_REASON_CODES || '')
+    .split(',')
+    .map(entry => {
+      const [code, ...label] = entry.split(':');
+      return { code: code.trim().toLowerCase(), label: label.join(':').trim() || code.trim() };
+    })
+    .filter(reason => reason.code);
+
+  if (configured.length === 0) return DEFAULT_REASON_CODES;
+  return configured.filter((reason, index) => configured.findIndex(other => other.code === reason.code) === index);
+};
+
+// Case-insensitive, returning the configured code
+export const findReasonCode = (code: string) =>
+  getReasonCodes().find(reason => reason.code === code.trim().toLowerCase()) || null;
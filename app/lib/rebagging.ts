@@ -0,0 +1,213 @@
+import { InventoryRecord, RebaggingConversion } from '../types/inventory';
+import { InventoryRepository } from './repository';
+import { appendAudit, AuditChange, WriteContext } from './audit';
+import { rechainProduct, RechainedRecord, settleShortfalls } from './ledger';
+import { defaultLocation, findLocation } from './locations';
+import { findProductByName } from './products';
+import { nextReference } from './references';
+import { allocateLotsOnHand, openDay, recordTransactions, rollUpTransactions } from './transactions';
+import { FieldError, isQuantity, isValidDate, optionalText, refusePastDate, today } from './validation';
+
+export type RebaggingInput = Pick<
+  RebaggingConversion,
+  'source_product' | 'target_product' | 'location' | 'date' | 'input_quantity' | 'output_quantity'
+> & {
+  reference: string | null;
+  note: string | null;
+};
+
+export type RebaggingResult =
+  | { ok: true; rebagging: RebaggingConversion; records: InventoryRecord[]; rechained: RechainedRecord[] }
+  | { ok: false; status: number; error: string; errors?: FieldError[] };
+
+export const rebaggings = (repository: InventoryRepository) =>
+  repository.collection<RebaggingConversion>('inventory_rebagging');
+
+// Body: { source_product, target_product, location?, date, input_quantity, output_quantity, reference?, note? }
+export const validateRebagging = (input: unknown) => {
+  const errors: FieldError[] = [];
+  const body = (input && typeof input === 'object' && !Array.isArray(input) ? input : {}) as Record<string, unknown>;
+
+  (['source_product', 'target_product'] as const).forEach(field => {
+    const value = body[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push({ field, message: `${field} is required` });
+    }
+  });
+
+  const source = optionalText(body.source_product);
+  const target = optionalText(body.target_product);
+  if (source && target && source.toLowerCase() === target.toLowerCase()) {
+    errors.push({ field: 'target_product', message: 'Stock has to be rebagged into a different product' });
+  }
+
+  // Conversions that do not name a location happen at the default one
+  const location = body.location === undefined ? defaultLocation() :
+    typeof body.location === 'string' ? findLocation(body.location) : null;
+  if (!location) {
+    errors.push({ field: 'location', message: `"${body.location}" is not a configured location` });
+  }
+
+  if (!isQuantity(body.input_quantity)) {
+    errors.push({ field: 'input_quantity', message: 'input_quantity must be a positive number' });
+  }
+  if (!isQuantity(body.output_quantity)) {
+    errors.push({ field: 'output_quantity', message: 'output_quantity must be a positive number' });
+  } else if (isQuantity(body.input_quantity) && body.output_quantity > body.input_quantity) {
+    errors.push({ field: 'output_quantity', message: 'output_quantity cannot be more than input_quantity' });
+  }
+
+  if (!isValidDate(body.date)) {
+    errors.push({ field: 'date', message: 'date must be a valid YYYY-MM-DD date' });
+  } else if (body.date > today()) {
+    errors.push({ field: 'date', message: 'Rebagging cannot be posted for future dates' });
+  }
+
+  return {
+    errors,
+    rebagging: {
+      source_product: source || '',
+      target_product: target || '',
+      location: location!,
+      date: body.date as string,
+      input_quantity: body.input_quantity as number,
+      output_quantity: body.output_quantity as number,
+      reference: optionalText(body.reference),
+      note: optionalText(body.note)
+    } as RebaggingInput
+  };
+};
+
+// Takes the input off the source product and puts the output on the target product in one
+// batch, together with the later days of both that re-chain from them. What goes in and does
+// not come out is the yield loss, kept on the conversion.
+export const postRebagging = async (
+  repository: InventoryRepository,
+  input: RebaggingInput,
+  context: WriteContext
+): Promise<RebaggingResult> => {
+  const refused = refusePastDate(input.date);
+  if (refused) return refused;
+
+  const [sourceProduct, targetProduct] = await Promise.all([
+    findProductByName(repository, input.source_product),
+    findProductByName(repository, input.target_product)
+  ]);
+  const errors: FieldError[] = [];
+  if (!sourceProduct || !sourceProduct.active) {
+    errors.push({ field: 'source_product', message: `"${input.source_product}" is not an active product in the catalog` });
+  }
+  if (!targetProduct || !targetProduct.active) {
+    errors.push({ field: 'target_product', message: `"${input.target_product}" is not an active product in the catalog` });
+  }
+  if (errors.length > 0) {
+    return { ok: false, status: 400, error: 'Invalid rebagging', errors };
+  }
+
+  const store = rebaggings(repository);
+  const reference = input.reference || (await nextReference(store, 'RBG', input.date, { date: input.date }));
+  if ((await store.list({ reference })).length > 0) {
+    return { ok: false, status: 409, error: `A rebagging with reference "${reference}" already exists` };
+  }
+
+  const source = await openDay(repository, sourceProduct!.name, input.location, input.date);
+
+  // What the source holds at the end of the day before the input is taken out
+  const available = source.existing ? source.existing.closing_stock : source.record.opening_stock;
+  if (input.input_quantity > available) {
+    return {
+      ok: false,
+      status: 422,
+      error: 'Ledger validation failed',
+      errors: [{
+        field: 'input_quantity',
+        message: `Only ${available} ${sourceProduct!.unit} of "${sourceProduct!.name}" are at ${input.location} on ${input.date}`
+      }]
+    };
+  }
+
+  const target = await openDay(repository, targetProduct!.name, input.location, input.date);
+  const timestamp = new Date().toISOString();
+  const outflow = {
+    ...rollUpTransactions(source.record, [{ type: 'rebagging_out', quantity: input.input_quantity }]),
+    timestamp
+  };
+  const inflow = {
+    ...rollUpTransactions(target.record, [{ type: 'rebagging', quantity: input.output_quantity }]),
+    timestamp
+  };
+
+  const [sourceChanges, targetChanges] = await Promise.all([
+    rechainProduct(repository, sourceProduct!.name, input.location, input.date, { pending: [outflow] }),
+    rechainProduct(repository, targetProduct!.name, input.location, input.date, { pending: [inflow] })
+  ]);
+
+  // Later days of the source that already gave out the stock cannot be left short by it
+  const { changes, errors: shortfalls } = settleShortfalls([], [...sourceChanges, ...targetChanges]);
+  if (shortfalls.length > 0) {
+    return { ok: false, status: 422, error: 'Ledger validation failed', errors: shortfalls };
+  }
+
+  const saved = await repository.saveRecords([outflow, inflow, ...changes.map(({ record }) => record)]);
+
+  const rebagging = await store.insert({
+    reference,
+    location: input.location,
+    date: input.date,
+    source_product: sourceProduct!.name,
+    target_product: targetProduct!.name,
+    input_quantity: input.input_quantity,
+    output_quantity: input.output_quantity,
+    yield_loss: input.input_quantity - input.output_quantity,
+    note: input.note,
+    created_by: context.actor,
+    created_at: new Date().toISOString()
+  });
+
+  const note = `Rebagging ${reference}: ${input.input_quantity} of ${sourceProduct!.name} into ` +
+    `${input.output_quantity} of ${targetProduct!.name}`;
+  // The input is taken from the lots that expire first, and the output is packed into the same
+  // lots in proportion to what came out of each
+  const inputLots = await allocateLotsOnHand(repository, sourceProduct!.name, input.location, input.date, input.input_quantity);
+  const outputLots = inputLots && inputLots.map(lot => ({
+    ...lot,
+    quantity: (lot.quantity * input.output_quantity) / input.input_quantity
+  }));
+  await recordTransactions(repository, saved[0], [{
+    type: 'rebagging_out',
+    quantity: input.input_quantity,
+    reference,
+    lots: inputLots,
+    note: `Rebagged into ${targetProduct!.name}`
+  }], context);
+  await recordTransactions(repository, saved[1], [{
+    type: 'rebagging',
+    quantity: input.output_quantity,
+    reference,
+    lots: outputLots,
+    note: `Rebagged from ${sourceProduct!.name}`
+  }], context);
+
+  const posted: AuditChange[] = [source, target].map(({ existing }, i) => ({
+    action: existing ? 'update' : 'insert',
+    before: existing,
+    after: saved[i],
+    note
+  }));
+  await appendAudit(repository, context, [
+    ...posted,
+    ...changes.map(({ record, previous }) => ({
+      action: 'update' as const,
+      before: previous,
+      after: record,
+      note: `Re-chained after rebagging ${reference}`
+    }))
+  ]);
+
+  return {
+    ok: true,
+    rebagging,
+    records: saved.slice(0, 2),
+    rechained: changes.map(({ change }) => change)
+  };
+};
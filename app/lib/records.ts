@@ -0,0 +1,287 @@
+import { NextResponse } from 'next/server';
+import { InventoryRecord } from '../types/inventory';
+import { InventoryRepository } from './repository';
+import { applyBalances, checkLedgerInvariants, rechainProduct, RechainedRecord, settleShortfalls } from './ledger';
+import { appendAudit, AuditChange, WriteContext } from './audit';
+import { findProductByName } from './products';
+import { defaultLocation, findLocation } from './locations';
+import { findReasonCode } from './reasonCodes';
+import { DAILY_ENTRY_NOTES, postedLines, recordSnapshotChange } from './transactions';
+import { FieldError, refusePastDate } from './validation';
+
+// shortfall_reason overrides the shortfall check for this write and is kept on every day it lets close below zero.
+// returns and rebagging may be sent back unchanged but never changed; see DOCUMENT_FIELDS.
+export type RecordInput = Omit<
+  InventoryRecord,
+  'id' | 'timestamp' | 'location' | 'returns' | 'rebagging' | 'rebagging_out' | 'transfer_in' | 'transfer_out' | 'adjustment' | 'shortfall_reason'
+> & {
+  location?: string;
+  returns?: number;
+  rebagging?: number;
+  damage_reason?: string | null;
+  shortfall_reason?: string | null;
+};
+
+// Outcome of a ledger write, shared by the records API and the correction queue
+export type WriteResult =
+  | { ok: true; record: InventoryRecord; rechained: RechainedRecord[] }
+  | { ok: false; status: number; error: string; errors?: FieldError[]; id?: number };
+
+export const toResponse = (result: WriteResult, successStatus = 200) => {
+  if (!result.ok) {
+    const { status, error, errors, id } = result;
+    return NextResponse.json({ error, errors, id }, { status });
+  }
+  return NextResponse.json({ record: result.record, rechained: result.rechained }, { status: successStatus });
+};
+
+type Rechain = Awaited<ReturnType<typeof rechainProduct>>;
+
+// Every later day rewritten by a re-chain gets its own audit entry pointing back at the edit
+const rechainAudit = (changes: Rechain, cause: InventoryRecord): AuditChange[] =>
+  changes.map(({ record, previous }) => ({
+    action: 'update',
+    before: previous,
+    after: record,
+    note: `Re-chained after the ${cause.date} record changed`
+  }));
+
+// The configured code for a damage reason given with a daily entry; unknown codes are refused
+const resolveDamageReason = (reason: string | null | undefined) => {
+  if (!reason) return { reasonCode: null };
+  const found = findReasonCode(reason);
+  return found
+    ? { reasonCode: found.code }
+    : {
+        reasonCode: null,
+        invalid: {
+          ok: false,
+          status: 400,
+          error: 'Invalid record',
+          errors: [{ field: 'damage_reason', message: `"${reason}" is not a configured reason code` }]
+        } as WriteResult
+      };
+};
+
+// Columns that are only written by posting their own document, which records what each quantity was for
+const DOCUMENT_FIELDS = {
+  returns: '/api/inventory/returns',
+  rebagging: '/api/inventory/rebagging'
+} as const;
+
+// A daily entry may repeat what the documents posted but not change it
+const postedThroughDocuments = (
+  input: Partial<RecordInput>,
+  current: Pick<InventoryRecord, keyof typeof DOCUMENT_FIELDS>
+): WriteResult | null => {
+  const changed = (Object.keys(DOCUMENT_FIELDS) as (keyof typeof DOCUMENT_FIELDS)[])
+    .filter(field => input[field] !== undefined && input[field] !== current[field]);
+  if (changed.length === 0) return null;
+  return {
+    ok: false,
+    status: 400,
+    error: 'Invalid record',
+    errors: changed.map(field => ({ field, message: `${field} can only be changed through ${DOCUMENT_FIELDS[field]}` }))
+  };
+};
+
+const shortfall = (errors: FieldError[]): WriteResult => ({
+  ok: false,
+  status: 422,
+  error: 'Ledger validation failed',
+  errors
+});
+
+const duplicateRecord = (record: Pick<InventoryRecord, 'item_name' | 'location' | 'date' | 'id'>): WriteResult => ({
+  ok: false,
+  status: 409,
+  error: `A record for "${record.item_name}" at ${record.location} on ${record.date} already exists`,
+  id: record.id
+});
+
+export const createRecord = async (
+  repository: InventoryRepository,
+  { damage_reason, shortfall_reason, ...input }: RecordInput,
+  context: WriteContext
+): Promise<WriteResult> => {
+  const { reasonCode, invalid } = resolveDamageReason(damage_reason);
+  if (invalid) return invalid;
+  const refused = postedThroughDocuments(input, { returns: 0, rebagging: 0 });
+  if (refused) return refused;
+
+  // New records have to name an active catalog product, spelled the way the catalog spells it
+  const product = await findProductByName(repository, input.item_name);
+  if (!product || !product.active) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Invalid record',
+      errors: [{ field: 'item_name', message: `"${input.item_name}" is not an active product in the catalog` }]
+    };
+  }
+
+  // Records that do not name a location belong to the default one
+  const location = input.location ? findLocation(input.location) : defaultLocation();
+  if (!location) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Invalid record',
+      errors: [{ field: 'location', message: `"${input.location}" is not a configured location` }]
+    };
+  }
+  // Transfer quantities are only ever posted by a transfer, rebagging in and out by a rebagging
+  // conversion, returns by a production return and adjustments by a stock-take
+  const record = {
+    ...input,
+    item_name: product.name,
+    location,
+    returns: 0,
+    rebagging: 0,
+    rebagging_out: 0,
+    transfer_in: 0,
+    transfer_out: 0,
+    adjustment: 0,
+    shortfall_reason: null
+  };
+
+  // Only one record per product per location per day
+  const existing = await repository.getRecordForDate(record.item_name, record.location, record.date);
+  if (existing) return duplicateRecord(existing);
+
+  const ledgerErrors = await checkLedgerInvariants(repository, record);
+  if (ledgerErrors.length > 0) {
+    return { ok: false, status: 422, error: 'Ledger validation failed', errors: ledgerErrors };
+  }
+
+  // A back-dated record slots in front of later days, which now chain from it
+  const balanced = { ...applyBalances(record), timestamp: new Date().toISOString() };
+  const rechained = await rechainProduct(repository, balanced.item_name, balanced.location, balanced.date, { pending: [balanced] });
+  const { pending: [settled], changes, errors } = settleShortfalls([balanced], rechained, shortfall_reason);
+  if (errors.length > 0) return shortfall(errors);
+
+  // The new day and the later days it re-chains are written together or not at all
+  const [created] = await repository.saveRecords([settled, ...changes.map(({ record }) => record)]);
+
+  await recordSnapshotChange(repository, null, created, context, DAILY_ENTRY_NOTES.created, reasonCode);
+  await appendAudit(repository, context, [
+    { action: 'insert', before: null, after: created },
+    ...rechainAudit(changes, created)
+  ]);
+
+  return { ok: true, record: created, rechained: changes.map(({ change }) => change) };
+};
+
+export const updateRecord = async (
+  repository: InventoryRepository,
+  id: number,
+  { damage_reason, shortfall_reason, ...input }: Partial<RecordInput>,
+  context: WriteContext
+): Promise<WriteResult> => {
+  const { reasonCode, invalid } = resolveDamageReason(damage_reason);
+  if (invalid) return invalid;
+
+  const existing = await repository.getRecord(id);
+  if (!existing) return { ok: false, status: 404, error: 'Record not found' };
+
+  // Later days chain off this record, so it cannot be moved to another product, location or date
+  const moved = (['item_name', 'location', 'date'] as const).filter(field => input[field] !== undefined && input[field] !== existing[field]);
+  if (moved.length > 0) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Invalid record',
+      errors: moved.map(field => ({ field, message: `${field} cannot be changed; delete the record and create a new one instead` }))
+    };
+  }
+  const refused = postedThroughDocuments(input, existing);
+  if (refused) return refused;
+
+  const merged = { ...existing, ...input };
+  const ledgerErrors = await checkLedgerInvariants(repository, merged);
+  if (ledgerErrors.length > 0) {
+    return { ok: false, status: 422, error: 'Ledger validation failed', errors: ledgerErrors };
+  }
+
+  // Correcting a record shifts every later day of the product, so all of them are saved together
+  const balanced = { ...applyBalances(merged), timestamp: new Date().toISOString() };
+  const rechained = await rechainProduct(repository, balanced.item_name, balanced.location, balanced.date, { pending: [balanced] });
+  const { pending: [corrected], changes, errors } = settleShortfalls([balanced], rechained, shortfall_reason);
+  if (errors.length > 0) return shortfall(errors);
+
+  const saved = await repository.saveRecords([corrected, ...changes.map(({ record }) => record)]);
+  const record = saved.find(row => row.id === id) || corrected;
+
+  await recordSnapshotChange(repository, existing, record, context, DAILY_ENTRY_NOTES.edited, reasonCode);
+  await appendAudit(repository, context, [
+    { action: 'update', before: existing, after: record },
+    ...rechainAudit(changes, record)
+  ]);
+
+  return {
+    ok: true,
+    record,
+    rechained: changes.map(({ change }) => change)
+  };
+};
+
+// The daily form and the records API only write today's day; past days change through an
+// approved correction, which calls createRecord and updateRecord directly
+export const createDailyRecord = async (
+  repository: InventoryRepository,
+  input: RecordInput,
+  context: WriteContext
+): Promise<WriteResult> => refusePastDate(input.date) || createRecord(repository, input, context);
+
+// A full overwrite (PUT) would replace what receipts, issues and transfers posted to the day
+// with whatever the client last saw, so once the day has such lines only the changed fields
+// may be sent (PATCH)
+export const updateDailyRecord = async (
+  repository: InventoryRepository,
+  id: number,
+  input: Partial<RecordInput>,
+  context: WriteContext,
+  { partial = false } = {}
+): Promise<WriteResult> => {
+  const existing = await repository.getRecord(id);
+  if (!existing) return { ok: false, status: 404, error: 'Record not found' };
+
+  const refused = refusePastDate(existing.date);
+  if (refused) return refused;
+
+  if (!partial && (await postedLines(repository, existing)).length > 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: `The ${existing.date} record of "${existing.item_name}" at ${existing.location} holds posted movements; send only the changed fields with PATCH`
+    };
+  }
+
+  return updateRecord(repository, id, input, context);
+};
+
+export const deleteRecord = async (
+  repository: InventoryRepository,
+  id: number,
+  context: WriteContext
+): Promise<WriteResult> => {
+  const existing = await repository.getRecord(id);
+  if (!existing) return { ok: false, status: 404, error: 'Record not found' };
+
+  // The following days now chain from whatever preceded the deleted record, and may not be left short
+  const rechained = await rechainProduct(repository, existing.item_name, existing.location, existing.date, { removedIds: [id] });
+  const { changes, errors } = settleShortfalls([], rechained);
+  if (errors.length > 0) return shortfall(errors);
+
+  // The removal and the re-chained days go in one batch, so later days never chain from a deleted record
+  await repository.saveRecords(changes.map(({ record }) => record), [id]);
+
+  // The day's lines are reversed rather than removed, so the ledger keeps its history
+  await recordSnapshotChange(repository, existing, null, context, DAILY_ENTRY_NOTES.deleted);
+  await appendAudit(repository, context, [
+    { action: 'delete', before: existing, after: null },
+    ...rechainAudit(changes, existing)
+  ]);
+
+  return { ok: true, record: existing, rechained: changes.map(({ change }) => change) };
+};
@@ -0,0 +1,15 @@
+import { Collection } from './repository/types';
+
+// Default document reference PREFIX-YYYYMMDD-n, numbered after the documents already filed on the
+// day and moved on past any number a typed-in reference has taken, so the default never collides
+export const nextReference = async <T extends { id?: number; reference: string | null }>(
+  store: Collection<T>,
+  prefix: string,
+  date: string,
+  sameDay: Partial<T>
+) => {
+  let n = (await store.list(sameDay)).length + 1;
+  const stamp = `${prefix}-${date.replace(/-/g, '')}`;
+  while ((await store.list({ reference: `${stamp}-${n}` } as Partial<T>)).length > 0) n += 1;
+  return `${stamp}-${n}`;
+};
@@ -0,0 +1,43 @@
+import path from 'path';
+import { getSupabase } from '../supabase';
+import { defaultLocation } from '../locations';
+import { createLocalRepository } from './localRepository';
+import { createSupabaseRepository } from './supabaseRepository';
+import { InventoryRepository } from './types';
+
+export type { InventoryRepository, RecordPage } from './types';
+
+// Kept on globalThis because Next.js bundles each route separately; a module-level
+// variable would give every route its own in-memory store.
+const globalStore = globalThis as { inventoryRepository?: InventoryRepository };
+
+// INVENTORY_STORAGE selects the backend:
+//   supabase (default) - the hosted Supabase project
+//   file               - JSON file at INVENTORY_DATA_FILE (defaults to data/inventory.json)
+//   memory             - in-process only, reset on every restart
+export const getRepository = (): InventoryRepository => {
+  if (globalStore.inventoryRepository) return globalStore.inventoryRepository;
+
+  let repository: InventoryRepository;
+  const storage = process.env.INVENTORY_STORAGE || 'supabase';
+
+  switch (storage) {
+    case 'supabase':
+      repository = createSupabaseRepository(getSupabase());
+      break;
+    case 'file':
+      repository = createLocalRepository({
+        filePath: process.env.INVENTORY_DATA_FILE || path.join(process.cwd(), 'data', 'inventory.json'),
+        defaultLocation: defaultLocation()
+      });
+      break;
+    case 'memory':
+      repository = createLocalRepository();
+      break;
+    default:
+      throw new Error(`Unknown INVENTORY_STORAGE "${storage}"`);
+  }
+
+  globalStore.inventoryRepository = repository;
+  return repository;
+};
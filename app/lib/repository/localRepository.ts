@@ -0,0 +1,216 @@
+import fs from 'fs';
+import path from 'path';
+import { InventoryRecord } from '../../types/inventory';
+import { RecordQuery } from '../pagination';
+import { Collection, CollectionName, InventoryRepository, toRecordPage } from './types';
+
+interface LocalData {
+  tables: Record<string, Array<{ id?: number }>>;
+  sequences: Record<string, number>;
+}
+
+interface LocalRepositoryOptions {
+  // JSON file the data is persisted to; omit to keep everything in memory
+  filePath?: string;
+  // Given to records saved before stock was tracked per location
+  defaultLocation?: string;
+}
+
+const TABLE = 'inventory_records';
+
+const compareRecords = (a: InventoryRecord, b: InventoryRecord) =>
+  a.date === b.date ? (a.id || 0) - (b.id || 0) : a.date < b.date ? -1 : 1;
+
+export const createLocalRepository = ({ filePath, defaultLocation }: LocalRepositoryOptions = {}): InventoryRepository => {
+  let data: LocalData | null = null;
+  let loadedAt = 0;
+
+  // Re-reads the file when another process has written it since we last loaded
+  const load = (): LocalData => {
+    const modifiedAt = filePath && fs.existsSync(filePath) ? fs.statSync(filePath).mtimeMs : 0;
+    if (data && modifiedAt <= loadedAt) return data;
+
+    data = { tables: {}, sequences: {} };
+    if (modifiedAt) {
+      data = { ...data, ...JSON.parse(fs.readFileSync(filePath!, 'utf8')) };
+      (data!.tables[TABLE] as InventoryRecord[] | undefined)?.forEach(record => {
+        if (!record.location && defaultLocation) record.location = defaultLocation;
+        record.rebagging_out ??= 0;
+        record.transfer_in ??= 0;
+        record.transfer_out ??= 0;
+        record.adjustment ??= 0;
+        record.shortfall_reason ??= null;
+      });
+    }
+    loadedAt = modifiedAt;
+    return data!;
+  };
+
+  // Write to a temp file first so a crash never leaves a half-written store behind
+  const persist = () => {
+    if (!filePath || !data) return;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, filePath);
+    loadedAt = fs.statSync(filePath).mtimeMs;
+  };
+
+  const table = <T extends { id?: number }>(name: string) => {
+    const store = load();
+    if (!store.tables[name]) store.tables[name] = [];
+    return store.tables[name] as T[];
+  };
+
+  const nextId = (name: string) => {
+    const store = load();
+    store.sequences[name] = (store.sequences[name] || 0) + 1;
+    return store.sequences[name];
+  };
+
+  const records = () => table<InventoryRecord>(TABLE);
+
+  const createCollection = <T extends { id?: number }>(name: CollectionName): Collection<T> => ({
+    async list(filter = {}) {
+      const entries = Object.entries(filter) as [keyof T, unknown][];
+      return table<T>(name)
+        .filter(row => entries.every(([key, value]) => row[key] === value))
+        .map(row => ({ ...row }));
+    },
+
+    async get(id: number) {
+      const row = table<T>(name).find(item => item.id === id);
+      return row ? { ...row } : null;
+    },
+
+    async insert(row: T) {
+      const saved = { ...row, id: nextId(name) };
+      table<T>(name).push(saved);
+      persist();
+      return { ...saved };
+    },
+
+    async update(id: number, changes: Partial<T>) {
+      const rows = table<T>(name);
+      const index = rows.findIndex(item => item.id === id);
+      if (index === -1) return null;
+
+      rows[index] = { ...rows[index], ...changes, id };
+      persist();
+      return { ...rows[index] };
+    },
+
+    async delete(id: number) {
+      const rows = table<T>(name);
+      const index = rows.findIndex(item => item.id === id);
+      if (index === -1) return false;
+
+      rows.splice(index, 1);
+      persist();
+      return true;
+    }
+  });
+
+  return {
+    async listRecords(query: RecordQuery) {
+      const direction = query.sort === 'asc' ? 1 : -1;
+      const search = query.search?.toLowerCase();
+
+      const rows = records()
+        .filter(record =>
+          (!query.item_name || record.item_name === query.item_name) &&
+          (!query.location || record.location === query.location) &&
+          (!search || record.item_name.toLowerCase().includes(search)) &&
+          (!query.from || record.date >= query.from) &&
+          (!query.to || record.date <= query.to) &&
+          (!query.cursor || compareRecords(record, query.cursor as InventoryRecord) * direction > 0)
+        )
+        .sort((a, b) => compareRecords(a, b) * direction)
+        .slice(0, query.limit + 1);
+
+      return toRecordPage(rows.map(row => ({ ...row })), query.limit);
+    },
+
+    async getRecord(id: number) {
+      const record = records().find(row => row.id === id);
+      return record ? { ...record } : null;
+    },
+
+    async getRecordForDate(itemName: string, location: string, date: string) {
+      const record = records().find(row => row.item_name === itemName && row.location === location && row.date === date);
+      return record ? { ...record } : null;
+    },
+
+    async upsertRecord(record: InventoryRecord) {
+      const rows = records();
+      const index = record.id ? rows.findIndex(row => row.id === record.id) : -1;
+
+      if (record.id && index === -1) {
+        throw new Error(`Record ${record.id} not found`);
+      }
+
+      const saved = index >= 0 ? { ...rows[index], ...record } : { ...record, id: nextId(TABLE) };
+      if (index >= 0) rows[index] = saved;
+      else rows.push(saved);
+
+      persist();
+      return { ...saved };
+    },
+
+    async saveRecords(batch: InventoryRecord[], removedIds: number[] = []) {
+      const rows = records();
+      const indexes = batch.map(record => record.id ? rows.findIndex(row => row.id === record.id) : null);
+
+      // Check the whole batch before touching anything so a bad id leaves the store unchanged
+      const missing = batch.find((record, i) => indexes[i] === -1);
+      if (missing) {
+        throw new Error(`Record ${missing.id} not found`);
+      }
+      const missingRemoval = removedIds.find(id => !rows.some(row => row.id === id));
+      if (missingRemoval !== undefined) {
+        throw new Error(`Record ${missingRemoval} not found`);
+      }
+
+      const saved = batch.map((record, i) => {
+        const index = indexes[i];
+        if (index === null) {
+          rows.push({ ...record, id: nextId(TABLE) });
+          return rows.length - 1;
+        }
+        rows[index] = { ...rows[index], ...record };
+        return index;
+      });
+
+      const result = saved.map(index => ({ ...rows[index] }));
+      removedIds.forEach(id => {
+        rows.splice(rows.findIndex(row => row.id === id), 1);
+      });
+
+      persist();
+      return result;
+    },
+
+    async deleteRecord(id: number) {
+      const rows = records();
+      const index = rows.findIndex(row => row.id === id);
+      if (index === -1) return false;
+
+      rows.splice(index, 1);
+      persist();
+      return true;
+    },
+
+    async getLatestClosingStock(itemName: string, location: string, beforeDate?: string) {
+      const latest = records()
+        .filter(row => row.item_name === itemName && row.location === location && (!beforeDate || row.date < beforeDate))
+        .sort(compareRecords)
+        .pop();
+
+      return latest ? latest.closing_stock : null;
+    },
+
+    collection<T extends { id?: number }>(name: CollectionName) {
+      return createCollection<T>(name);
+    }
+  };
+};
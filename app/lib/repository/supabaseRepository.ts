@@ -0,0 +1,159 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { InventoryRecord } from '../../types/inventory';
+import { RecordQuery } from '../pagination';
+import { Collection, CollectionName, InventoryRepository, toRecordPage } from './types';
+
+const TABLE = 'inventory_records';
+
+const createCollection = <T extends { id?: number }>(client: SupabaseClient, name: CollectionName): Collection<T> => ({
+  async list(filter = {}) {
+    const { data, error } = await client
+      .from(name)
+      .select('*')
+      .match(filter)
+      .order('id', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as T[];
+  },
+
+  async get(id: number) {
+    const { data, error } = await client.from(name).select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data as T | null;
+  },
+
+  async insert(row: T) {
+    const { data, error } = await client.from(name).insert([row]).select().single();
+    if (error) throw error;
+    return data as T;
+  },
+
+  async update(id: number, changes: Partial<T>) {
+    const { data, error } = await client.from(name).update(changes).eq('id', id).select().maybeSingle();
+    if (error) throw error;
+    return data as T | null;
+  },
+
+  async delete(id: number) {
+    const { data, error } = await client.from(name).delete().eq('id', id).select('id');
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+});
+
+export const createSupabaseRepository = (client: SupabaseClient): InventoryRepository => ({
+  async listRecords(query: RecordQuery) {
+    const ascending = query.sort === 'asc';
+    let builder = client
+      .from(TABLE)
+      .select('*')
+      .order('date', { ascending })
+      .order('id', { ascending })
+      .limit(query.limit + 1); // One extra row tells us whether another page exists
+
+    if (query.item_name) builder = builder.eq('item_name', query.item_name);
+    if (query.location) builder = builder.eq('location', query.location);
+    if (query.search) builder = builder.ilike('item_name', `%${query.search}%`);
+    if (query.from) builder = builder.gte('date', query.from);
+    if (query.to) builder = builder.lte('date', query.to);
+
+    if (query.cursor) {
+      const { date, id } = query.cursor;
+      const op = ascending ? 'gt' : 'lt';
+      builder = builder.or(`date.${op}.${date},and(date.eq.${date},id.${op}.${id})`);
+    }
+
+    const { data, error } = await builder;
+    if (error) throw error;
+    return toRecordPage((data || []) as InventoryRecord[], query.limit);
+  },
+
+  async getRecord(id: number) {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as InventoryRecord | null;
+  },
+
+  async getRecordForDate(itemName: string, location: string, date: string) {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('item_name', itemName)
+      .eq('location', location)
+      .eq('date', date)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as InventoryRecord | null;
+  },
+
+  async upsertRecord(record: InventoryRecord) {
+    const { id, ...fields } = record;
+    const request = id
+      ? client.from(TABLE).update(fields).eq('id', id)
+      : client.from(TABLE).insert([fields]);
+
+    const { data, error } = await request.select().single();
+    if (error) throw error;
+    return data as InventoryRecord;
+  },
+
+  async saveRecords(records: InventoryRecord[], removedIds: number[] = []) {
+    // Removing rows as well takes two statements, so the save_inventory_records function
+    // runs both in one transaction
+    if (removedIds.length > 0) {
+      const { data, error } = await client.rpc('save_inventory_records', { records, removed_ids: removedIds });
+      if (error) throw error;
+      return (data || []) as InventoryRecord[];
+    }
+
+    if (records.length === 0) return [];
+
+    // A single upsert statement runs in one transaction on the database side.
+    // Rows without an id take the column default, so new records are inserted.
+    const { data, error } = await client
+      .from(TABLE)
+      .upsert(records, { onConflict: 'id', defaultToNull: false })
+      .select();
+
+    if (error) throw error;
+    return (data || []) as InventoryRecord[];
+  },
+
+  async deleteRecord(id: number) {
+    const { data, error } = await client
+      .from(TABLE)
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  },
+
+  async getLatestClosingStock(itemName: string, location: string, beforeDate?: string) {
+    let builder = client
+      .from(TABLE)
+      .select('closing_stock')
+      .eq('item_name', itemName)
+      .eq('location', location)
+      .order('date', { ascending: false })
+      .limit(1);
+
+    if (beforeDate) builder = builder.lt('date', beforeDate);
+
+    const { data, error } = await builder;
+    if (error) throw error;
+    return data && data.length > 0 ? data[0].closing_stock : null;
+  },
+
+  collection<T extends { id?: number }>(name: CollectionName) {
+    return createCollection<T>(client, name);
+  }
+});
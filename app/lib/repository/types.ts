@@ -0,0 +1,54 @@
+import { InventoryRecord } from '../../types/inventory';
+import { RecordQuery } from '../pagination';
+
+// Tables other than inventory_records, stored through the generic collection API
+export type CollectionName =
+  | 'inventory_corrections'
+  | 'inventory_audit'
+  | 'inventory_products'
+  | 'inventory_transfers'
+  | 'inventory_transactions'
+  | 'inventory_stock_takes'
+  | 'inventory_suppliers'
+  | 'inventory_purchase_orders'
+  | 'inventory_goods_received'
+  | 'inventory_boms'
+  | 'inventory_production_orders'
+  | 'inventory_returns'
+  | 'inventory_rebagging';
+
+// Plain row storage for the supporting tables; ids are assigned by the backend
+export interface Collection<T extends { id?: number }> {
+  list(filter?: Partial<T>): Promise<T[]>;
+  get(id: number): Promise<T | null>;
+  insert(row: T): Promise<T>;
+  update(id: number, changes: Partial<T>): Promise<T | null>;
+  delete(id: number): Promise<boolean>;
+}
+
+export interface RecordPage {
+  records: InventoryRecord[];
+  hasMore: boolean;
+}
+
+// Storage-agnostic access to inventory_records. Route handlers talk to this
+// interface only, so the Supabase and local backends stay interchangeable.
+export interface InventoryRepository {
+  listRecords(query: RecordQuery): Promise<RecordPage>;
+  getRecord(id: number): Promise<InventoryRecord | null>;
+  getRecordForDate(itemName: string, location: string, date: string): Promise<InventoryRecord | null>;
+  // Updates the row with the record's id, or inserts a new row when it has none
+  upsertRecord(record: InventoryRecord): Promise<InventoryRecord>;
+  // Writes every record in the batch and removes the records with `removedIds`, or does none of
+  // it; records without an id are inserted
+  saveRecords(records: InventoryRecord[], removedIds?: number[]): Promise<InventoryRecord[]>;
+  deleteRecord(id: number): Promise<boolean>;
+  // Closing stock of the product's latest record at the location, optionally only looking at dates before `beforeDate`
+  getLatestClosingStock(itemName: string, location: string, beforeDate?: string): Promise<number | null>;
+  collection<T extends { id?: number }>(name: CollectionName): Collection<T>;
+}
+
+export const toRecordPage = (rows: InventoryRecord[], limit: number): RecordPage => ({
+  records: rows.slice(0, limit),
+  hasMore: rows.length > limit
+});
@@ -0,0 +1,31 @@
+import { Product } from '../types/inventory';
+
+// Stock measured against the catalog's levels; shared by the product list, the history
+// table and the low-stock report
+export type StockStatus = 'out_of_stock' | 'below_minimum' | 'below_reorder_point' | 'in_stock';
+
+type StockLevels = Partial<Pick<Product, 'min_stock' | 'reorder_point'>>;
+
+// Where a product's stock stands against its catalog levels. Products without levels
+// only tell in stock from out of stock.
+export const stockStatus = (stock: number, levels?: StockLevels | null): StockStatus => {
+  if (stock <= 0) return 'out_of_stock';
+  if (typeof levels?.min_stock === 'number' && stock < levels.min_stock) return 'below_minimum';
+  if (typeof levels?.reorder_point === 'number' && stock <= levels.reorder_point) return 'below_reorder_point';
+  return 'in_stock';
+};
+
+export const STOCK_STATUS_BADGES: Record<StockStatus, { label: string; className: string }> = {
+  out_of_stock: { label: '🔴 Out of Stock', className: 'bg-red-100 text-red-800' },
+  below_minimum: { label: '🟠 Below Minimum', className: 'bg-orange-100 text-orange-800' },
+  below_reorder_point: { label: '🟡 Below Reorder Point', className: 'bg-yellow-100 text-yellow-800' },
+  in_stock: { label: '🟢 In Stock', className: 'bg-green-100 text-green-800' }
+};
+
+// The level a product is reordered at: its reorder point, or its minimum when only that is set
+export const reorderLevel = (levels?: StockLevels | null) =>
+  levels?.reorder_point ?? levels?.min_stock ?? null;
+
+// Enough to bring the stock back up to the reorder level with `coverDays` of usage on top
+export const suggestedOrderQuantity = (stock: number, level: number, avgDailyUsage: number, coverDays: number) =>
+  Math.max(0, Math.ceil(level + avgDailyUsage * coverDays - stock));
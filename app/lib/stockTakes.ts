@@ -0,0 +1,231 @@
+import { InventoryTransaction, StockTake, StockTakeLine } from '../types/inventory';
+import { InventoryRepository } from './repository';
+import { WriteContext } from './audit';
+import { defaultLocation, findLocation } from './locations';
+import { products } from './products';
+import { findReasonCode } from './reasonCodes';
+import { nextReference } from './references';
+import { postTransaction } from './transactions';
+import { FieldError, isValidDate, optionalText, today } from './validation';
+
+export type StockTakeResult =
+  | { ok: true; stockTake: StockTake; adjustments?: InventoryTransaction[] }
+  | { ok: false; status: number; error: string; errors?: FieldError[] };
+
+export const stockTakes = (repository: InventoryRepository) =>
+  repository.collection<StockTake>('inventory_stock_takes');
+
+const invalid = (errors: FieldError[]): StockTakeResult => ({
+  ok: false,
+  status: 400,
+  error: 'Invalid stock-take',
+  errors
+});
+
+// What the ledger says the location held at the end of the day
+const systemQuantity = async (repository: InventoryRepository, itemName: string, location: string, date: string) => {
+  const record = await repository.getRecordForDate(itemName, location, date);
+  if (record) return record.closing_stock;
+  return (await repository.getLatestClosingStock(itemName, location, date)) ?? 0;
+};
+
+// Counted minus computed; null until both are known
+export const lineVariance = (line: StockTakeLine) =>
+  line.counted === null || line.system_quantity === null ? null : line.counted - line.system_quantity;
+
+// Open sessions show the balance as it stands now, so a late entry for the day is picked up
+export const withBalances = async (repository: InventoryRepository, stockTake: StockTake): Promise<StockTake> => {
+  if (stockTake.status !== 'counting') return stockTake;
+
+  const lines = await Promise.all(stockTake.lines.map(async line => ({
+    ...line,
+    system_quantity: await systemQuantity(repository, line.item_name, stockTake.location, stockTake.date)
+  })));
+
+  return { ...stockTake, lines };
+};
+
+// Opens a session for the listed products, or for the whole active catalog when none are listed
+export const openStockTake = async (
+  repository: InventoryRepository,
+  input: unknown,
+  context: WriteContext
+): Promise<StockTakeResult> => {
+  const errors: FieldError[] = [];
+  const body = (input && typeof input === 'object' && !Array.isArray(input) ? input : {}) as Record<string, unknown>;
+
+  const location = body.location === undefined
+    ? defaultLocation()
+    : typeof body.location === 'string' ? findLocation(body.location) : null;
+  if (!location) {
+    errors.push({ field: 'location', message: `"${body.location}" is not a configured location` });
+  }
+
+  const date = body.date === undefined ? today() : body.date;
+  if (!isValidDate(date)) {
+    errors.push({ field: 'date', message: 'date must be a valid YYYY-MM-DD date' });
+  } else if (date > today()) {
+    errors.push({ field: 'date', message: 'Stock cannot be counted for a future date' });
+  }
+
+  const catalog = (await products(repository).list()).filter(product => product.active);
+  let itemNames = catalog.map(product => product.name);
+
+  if (body.item_names !== undefined) {
+    if (!Array.isArray(body.item_names) || body.item_names.some(name => typeof name !== 'string')) {
+      errors.push({ field: 'item_names', message: 'item_names must be a list of product names' });
+    } else {
+      itemNames = [];
+      (body.item_names as string[]).forEach(name => {
+        const product = catalog.find(entry => entry.name.toLowerCase() === name.trim().toLowerCase());
+        if (!product) {
+          errors.push({ field: 'item_names', message: `"${name}" is not an active product in the catalog` });
+        } else if (!itemNames.includes(product.name)) {
+          itemNames.push(product.name);
+        }
+      });
+    }
+  }
+
+  if (errors.length === 0 && itemNames.length === 0) {
+    errors.push({ field: 'item_names', message: 'A stock-take needs at least one product to count' });
+  }
+  if (errors.length > 0) return invalid(errors);
+
+  const store = stockTakes(repository);
+  const stockTake = await store.insert({
+    reference: await nextReference(store, 'ST', date as string, { date: date as string }),
+    location: location!,
+    date: date as string,
+    status: 'counting',
+    lines: [...itemNames].sort((a, b) => a.localeCompare(b)).map(itemName => ({
+      item_name: itemName,
+      counted: null,
+      system_quantity: null,
+      reason_code: null,
+      posted: false
+    })),
+    note: optionalText(body.note),
+    created_by: context.actor,
+    created_at: new Date().toISOString(),
+    posted_by: null,
+    posted_at: null
+  });
+
+  return { ok: true, stockTake };
+};
+
+// Body: { counts: [{ item_name, counted }] }; a null count clears an earlier entry
+export const recordCounts = async (
+  repository: InventoryRepository,
+  stockTake: StockTake,
+  input: unknown
+): Promise<StockTakeResult> => {
+  if (stockTake.status !== 'counting') {
+    return { ok: false, status: 409, error: `Stock-take is already ${stockTake.status}` };
+  }
+
+  const counts = (input as { counts?: unknown } | null)?.counts;
+  if (!Array.isArray(counts)) {
+    return invalid([{ field: 'counts', message: 'counts must be a list of { item_name, counted }' }]);
+  }
+
+  const errors: FieldError[] = [];
+  const lines = stockTake.lines.map(line => ({ ...line }));
+
+  counts.forEach(entry => {
+    const line = lines.find(candidate => candidate.item_name === entry?.item_name);
+    if (!line) {
+      errors.push({ field: 'counts', message: `"${entry?.item_name}" is not part of this stock-take` });
+    } else if (entry.counted !== null && (typeof entry.counted !== 'number' || !Number.isFinite(entry.counted) || entry.counted < 0)) {
+      errors.push({ field: 'counts', message: `The count for "${line.item_name}" must be zero or more` });
+    } else {
+      line.counted = entry.counted;
+    }
+  });
+
+  if (errors.length > 0) return invalid(errors);
+
+  const updated = await stockTakes(repository).update(stockTake.id!, { lines });
+  return { ok: true, stockTake: updated! };
+};
+
+// Posts the approved variances as adjustment transactions on the count date and closes the
+// session. Body: { approvals: [{ item_name, reason_code }] }; lines left out are not posted.
+export const postStockTake = async (
+  repository: InventoryRepository,
+  stockTake: StockTake,
+  input: unknown,
+  context: WriteContext
+): Promise<StockTakeResult> => {
+  if (stockTake.status !== 'counting') {
+    return { ok: false, status: 409, error: `Stock-take is already ${stockTake.status}` };
+  }
+
+  const approvals = (input as { approvals?: unknown } | null)?.approvals;
+  if (!Array.isArray(approvals)) {
+    return invalid([{ field: 'approvals', message: 'approvals must be a list of { item_name, reason_code }' }]);
+  }
+
+  // Balances are frozen before anything is posted, so the stored variance is the one approved
+  const counted = await withBalances(repository, stockTake);
+  const errors: FieldError[] = [];
+  const approved = new Map<string, string>();
+
+  approvals.forEach(approval => {
+    const line = counted.lines.find(candidate => candidate.item_name === approval?.item_name);
+    const reason = typeof approval?.reason_code === 'string' ? findReasonCode(approval.reason_code) : null;
+    if (!line) {
+      errors.push({ field: 'approvals', message: `"${approval?.item_name}" is not part of this stock-take` });
+    } else if (line.counted === null) {
+      errors.push({ field: 'approvals', message: `"${line.item_name}" has not been counted` });
+    } else if (!reason) {
+      errors.push({ field: 'approvals', message: `A configured reason code is required for "${line.item_name}"` });
+    } else {
+      approved.set(line.item_name, reason.code);
+    }
+  });
+
+  if (errors.length > 0) return invalid(errors);
+
+  const adjustments: InventoryTransaction[] = [];
+  const lines: StockTakeLine[] = [];
+
+  for (const line of counted.lines) {
+    const variance = lineVariance(line);
+    const reasonCode = approved.get(line.item_name) ?? null;
+
+    if (reasonCode && variance) {
+      const result = await postTransaction(repository, {
+        item_name: line.item_name,
+        location: stockTake.location,
+        date: stockTake.date,
+        type: 'adjustment',
+        quantity: variance,
+        reference: stockTake.reference,
+        reason_code: reasonCode,
+        unit_cost: null,
+        lots: null,
+        note: `Stock-take ${stockTake.reference}: counted ${line.counted}, system ${line.system_quantity}`,
+        // The count is what was on hand, so later days that issued more than that are reported rather than refused
+        shortfall_reason: `Counted in stock-take ${stockTake.reference}`
+      }, context);
+
+      if (!result.ok) {
+        return { ok: false, status: result.status, error: result.error, errors: result.errors };
+      }
+      adjustments.push(result.transaction);
+    }
+
+    lines.push({ ...line, reason_code: reasonCode, posted: !!(reasonCode && variance) });
+  }
+
+  const posted = await stockTakes(repository).update(stockTake.id!, {
+    lines,
+    status: 'posted',
+    posted_by: context.actor,
+    posted_at: new Date().toISOString()
+  });
+
+  return { ok: true, stockTake: posted!, adjustments };
+};
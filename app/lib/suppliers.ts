@@ -0,0 +1,89 @@
+import { Supplier } from '../types/inventory';
+import { InventoryRepository } from './repository';
+import { FieldError, optionalText } from './validation';
+
+export type SupplierInput = Omit<Supplier, 'id' | 'created_at' | 'updated_at'>;
+
+const CODE_PATTERN = /^[A-Z0-9][A-Z0-9_-]{0,31}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const suppliers = (repository: InventoryRepository) => repository.collection<Supplier>('inventory_suppliers');
+
+// Same shape as validateProduct: with `partial` set only the fields present are checked
+export const validateSupplier = (input: unknown, { partial = false } = {}) => {
+  const errors: FieldError[] = [];
+  const supplier: Partial<SupplierInput> = {};
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { supplier, errors: [{ field: 'body', message: 'Request body must be a JSON object' }] };
+  }
+
+  const body = input as Record<string, unknown>;
+
+  if (body.code !== undefined || !partial) {
+    const code = typeof body.code === 'string' ? body.code.trim().toUpperCase() : '';
+    if (!CODE_PATTERN.test(code)) {
+      errors.push({ field: 'code', message: 'code must be 1-32 letters, digits, "-" or "_"' });
+    } else {
+      supplier.code = code;
+    }
+  }
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      errors.push({ field: 'name', message: 'name is required' });
+    } else {
+      supplier.name = body.name.trim();
+    }
+  }
+
+  (['contact', 'phone'] as const).forEach(field => {
+    if (body[field] !== undefined) {
+      supplier[field] = optionalText(body[field]);
+    } else if (!partial) {
+      supplier[field] = null;
+    }
+  });
+
+  if (body.email !== undefined) {
+    const email = optionalText(body.email);
+    if (email && !EMAIL_PATTERN.test(email)) {
+      errors.push({ field: 'email', message: 'email must be a valid address' });
+    } else {
+      supplier.email = email;
+    }
+  } else if (!partial) {
+    supplier.email = null;
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      errors.push({ field: 'active', message: 'active must be true or false' });
+    } else {
+      supplier.active = body.active;
+    }
+  } else if (!partial) {
+    supplier.active = true;
+  }
+
+  return { supplier, errors };
+};
+
+// Codes and names are both unique, ignoring case
+export const findSupplierConflicts = async (
+  repository: InventoryRepository,
+  supplier: Partial<SupplierInput>,
+  excludeId?: number
+) => {
+  const errors: FieldError[] = [];
+  const others = (await suppliers(repository).list()).filter(existing => existing.id !== excludeId);
+
+  if (supplier.code && others.some(existing => existing.code.toUpperCase() === supplier.code)) {
+    errors.push({ field: 'code', message: `A supplier with code ${supplier.code} already exists` });
+  }
+  if (supplier.name && others.some(existing => existing.name.toLowerCase() === supplier.name!.toLowerCase())) {
+    errors.push({ field: 'name', message: `A supplier named "${supplier.name}" already exists` });
+  }
+
+  return errors;
+};
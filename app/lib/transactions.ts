@@ -0,0 +1,331 @@
+import { InventoryRecord, InventoryTransaction, LotQuantity, TransactionType } from '../types/inventory';
+import { InventoryRepository } from './repository';
+import { appendAudit, WriteContext } from './audit';
+import { applyBalances, rechainProduct, RechainedRecord, settleShortfalls } from './ledger';
+import { defaultLocation, findLocation } from './locations';
+import { allocateLots, lotBalances } from './lots';
+import { findProductByName } from './products';
+import { findReasonCode } from './reasonCodes';
+import { FieldError, isValidDate, optionalText, today } from './validation';
+
+type MovementField =
+  | 'new_stock'
+  | 'issued_production'
+  | 'returns'
+  | 'rebagging'
+  | 'rebagging_out'
+  | 'damaged'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'adjustment';
+
+// The snapshot column each transaction type rolls up into
+export const TRANSACTION_FIELDS: Record<TransactionType, MovementField> = {
+  receipt: 'new_stock',
+  issue: 'issued_production',
+  return: 'returns',
+  rebagging: 'rebagging',
+  rebagging_out: 'rebagging_out',
+  damage: 'damaged',
+  transfer_in: 'transfer_in',
+  transfer_out: 'transfer_out',
+  adjustment: 'adjustment'
+};
+
+// Transfer and rebagging lines are only written by the document that posts both sides,
+// adjustments only by a posted stock-take and returns only by a production return
+export const DIRECT_TRANSACTION_TYPES: TransactionType[] = ['receipt', 'issue', 'damage'];
+
+export type TransactionLine = Pick<InventoryTransaction, 'type' | 'quantity'> &
+  Partial<Pick<InventoryTransaction, 'reference' | 'reason_code' | 'unit_cost' | 'lots' | 'note'>>;
+
+// shortfall_reason lets the posting take the day, or a later one, below zero. The lots of an
+// issue are allocated when it is posted, so only receipts bring their own.
+export type TransactionInput = Pick<
+  InventoryTransaction,
+  'item_name' | 'location' | 'date' | 'type' | 'quantity' | 'reference' | 'reason_code' | 'unit_cost' | 'lots' | 'note'
+> & { shortfall_reason?: string | null };
+
+export type TransactionResult =
+  | { ok: true; transaction: InventoryTransaction; record: InventoryRecord; rechained: RechainedRecord[] }
+  | { ok: false; status: number; error: string; errors?: FieldError[] };
+
+export const transactions = (repository: InventoryRepository) =>
+  repository.collection<InventoryTransaction>('inventory_transactions');
+
+// Adds transaction lines onto a day's snapshot and recalculates its balances
+export const rollUpTransactions = (record: InventoryRecord, lines: Pick<InventoryTransaction, 'type' | 'quantity'>[]) => {
+  const rolled = { ...record };
+  lines.forEach(({ type, quantity }) => {
+    rolled[TRANSACTION_FIELDS[type]] += quantity;
+  });
+  return applyBalances(rolled);
+};
+
+// The day's record at a location, or a new one opened from the previous closing stock
+export const openDay = async (repository: InventoryRepository, itemName: string, location: string, date: string) => {
+  const existing = await repository.getRecordForDate(itemName, location, date);
+  const record: InventoryRecord = existing || {
+    item_name: itemName,
+    location,
+    date,
+    opening_stock: (await repository.getLatestClosingStock(itemName, location, date)) ?? 0,
+    new_stock: 0,
+    new_balance: 0,
+    issued_production: 0,
+    returns: 0,
+    rebagging: 0,
+    rebagging_out: 0,
+    damaged: 0,
+    transfer_in: 0,
+    transfer_out: 0,
+    adjustment: 0,
+    closing_stock: 0,
+    shortfall_reason: null,
+    timestamp: ''
+  };
+
+  return { existing, record };
+};
+
+// Stores the lines behind one write of a day's record
+export const recordTransactions = async (
+  repository: InventoryRepository,
+  day: Pick<InventoryRecord, 'item_name' | 'location' | 'date'>,
+  lines: TransactionLine[],
+  context: WriteContext
+) => {
+  const store = transactions(repository);
+  const createdAt = new Date().toISOString();
+  const saved: InventoryTransaction[] = [];
+
+  for (const line of lines) {
+    saved.push(await store.insert({
+      item_name: day.item_name,
+      location: day.location,
+      date: day.date,
+      type: line.type,
+      quantity: line.quantity,
+      reference: line.reference ?? null,
+      reason_code: line.reason_code ?? null,
+      unit_cost: line.unit_cost ?? null,
+      lots: line.lots ?? null,
+      note: line.note ?? null,
+      created_by: context.actor,
+      created_at: createdAt
+    }));
+  }
+
+  return saved;
+};
+
+// Notes on the lines a direct edit of a record writes; every other line came from a document
+// or a posted movement
+export const DAILY_ENTRY_NOTES = {
+  created: 'Daily entry',
+  edited: 'Daily entry edited',
+  deleted: 'Record deleted'
+} as const;
+
+const isDailyEntryLine = (line: InventoryTransaction) =>
+  (Object.values(DAILY_ENTRY_NOTES) as (string | null)[]).includes(line.note);
+
+// The day's lines posted by receipts, issues, transfers, rebagging, stock-takes and the like
+export const postedLines = async (repository: InventoryRepository, day: Pick<InventoryRecord, 'item_name' | 'location' | 'date'>) =>
+  (await transactions(repository).list({ item_name: day.item_name, location: day.location, date: day.date }))
+    .filter(line => !isDailyEntryLine(line));
+
+// Direct edits of a record's columns are written to the ledger as the difference they
+// make, so the day's transactions keep adding up to its snapshot. A damage reason, when
+// given, is carried by the damage line.
+export const recordSnapshotChange = (
+  repository: InventoryRepository,
+  before: InventoryRecord | null,
+  after: InventoryRecord | null,
+  context: WriteContext,
+  note: string,
+  damageReason: string | null = null
+) => {
+  const lines = (Object.keys(TRANSACTION_FIELDS) as TransactionType[])
+    .map(type => ({
+      type,
+      quantity: (after?.[TRANSACTION_FIELDS[type]] || 0) - (before?.[TRANSACTION_FIELDS[type]] || 0),
+      reason_code: type === 'damage' ? damageReason : null,
+      note
+    }))
+    .filter(line => line.quantity !== 0);
+
+  return recordTransactions(repository, (after || before)!, lines, context);
+};
+
+export const isUnitCost = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+export const validateTransaction = (input: unknown) => {
+  const errors: FieldError[] = [];
+  const body = (input && typeof input === 'object' && !Array.isArray(input) ? input : {}) as Record<string, unknown>;
+
+  if (typeof body.item_name !== 'string' || !body.item_name.trim()) {
+    errors.push({ field: 'item_name', message: 'item_name is required' });
+  }
+
+  // Transactions that do not name a location belong to the default one
+  let location: string | null = defaultLocation();
+  if (body.location !== undefined) {
+    location = typeof body.location === 'string' ? findLocation(body.location) : null;
+    if (!location) {
+      errors.push({ field: 'location', message: `"${body.location}" is not a configured location` });
+    }
+  }
+
+  if (!DIRECT_TRANSACTION_TYPES.includes(body.type as TransactionType)) {
+    errors.push({ field: 'type', message: `type must be one of ${DIRECT_TRANSACTION_TYPES.join(', ')}` });
+  }
+
+  if (typeof body.quantity !== 'number' || !Number.isFinite(body.quantity) || body.quantity <= 0) {
+    errors.push({ field: 'quantity', message: 'quantity must be a positive number' });
+  }
+
+  // Every write-off says why; other movements do not carry a reason
+  let reasonCode: string | null = null;
+  if (body.type === 'damage') {
+    reasonCode = typeof body.reason_code === 'string' ? findReasonCode(body.reason_code)?.code ?? null : null;
+    if (!reasonCode) {
+      errors.push({ field: 'reason_code', message: 'A configured reason_code is required for damage' });
+    }
+  } else if (body.reason_code !== undefined && body.reason_code !== null) {
+    errors.push({ field: 'reason_code', message: 'reason_code only applies to damage' });
+  }
+
+  // What a receipt cost is optional; without it the stock comes in at the product's current cost
+  let unitCost: number | null = null;
+  if (body.unit_cost !== undefined && body.unit_cost !== null) {
+    if (body.type !== 'receipt') {
+      errors.push({ field: 'unit_cost', message: 'unit_cost only applies to receipts' });
+    } else if (!isUnitCost(body.unit_cost)) {
+      errors.push({ field: 'unit_cost', message: 'unit_cost must be a number of zero or more' });
+    } else {
+      unitCost = body.unit_cost;
+    }
+  }
+
+  if (!isValidDate(body.date)) {
+    errors.push({ field: 'date', message: 'date must be a valid YYYY-MM-DD date' });
+  } else if (body.date > today()) {
+    errors.push({ field: 'date', message: 'Transactions cannot be posted for future dates' });
+  }
+
+  // A receipt may bring its stock in as a lot, optionally with an expiry date
+  let lots: LotQuantity[] | null = null;
+  const lotNumber = optionalText(body.lot_number);
+  if (body.lot_number !== undefined && body.lot_number !== null) {
+    if (body.type !== 'receipt') {
+      errors.push({ field: 'lot_number', message: 'lot_number only applies to receipts; issues are given the lots that expire first' });
+    } else if (!lotNumber) {
+      errors.push({ field: 'lot_number', message: 'lot_number must be non-empty text' });
+    }
+  }
+  let expiryDate: string | null = null;
+  if (body.expiry_date !== undefined && body.expiry_date !== null) {
+    if (body.type !== 'receipt') {
+      errors.push({ field: 'expiry_date', message: 'expiry_date only applies to receipts' });
+    } else if (!lotNumber) {
+      errors.push({ field: 'expiry_date', message: 'expiry_date needs a lot_number' });
+    } else if (!isValidDate(body.expiry_date)) {
+      errors.push({ field: 'expiry_date', message: 'expiry_date must be a valid YYYY-MM-DD date' });
+    } else if (isValidDate(body.date) && body.expiry_date < body.date) {
+      errors.push({ field: 'expiry_date', message: 'expiry_date cannot be before the day the lot is received' });
+    } else {
+      expiryDate = body.expiry_date;
+    }
+  }
+  if (body.type === 'receipt' && lotNumber) {
+    lots = [{ lot_number: lotNumber, expiry_date: expiryDate, quantity: body.quantity as number }];
+  }
+
+  return {
+    errors,
+    transaction: {
+      item_name: String(body.item_name || '').trim(),
+      location: location!,
+      date: body.date as string,
+      type: body.type as TransactionType,
+      quantity: body.quantity as number,
+      reference: optionalText(body.reference),
+      reason_code: reasonCode,
+      unit_cost: unitCost,
+      lots,
+      note: optionalText(body.note),
+      shortfall_reason: optionalText(body.shortfall_reason)
+    } as TransactionInput
+  };
+};
+
+// The lots on hand for the product at the location on the day that expire first, for stock
+// going out by name: issues, and transfers and rebagging that carry their lots along. Null when none are.
+export const allocateLotsOnHand = async (
+  repository: InventoryRepository,
+  itemName: string,
+  location: string,
+  date: string,
+  quantity: number
+) => {
+  const lines = await transactions(repository).list({ item_name: itemName, location });
+  const allocation = allocateLots(lotBalances(lines, date), quantity);
+  return allocation.length > 0 ? allocation : null;
+};
+
+// Rolls one transaction into its day's record, opening the day if nothing was recorded
+// yet, and re-chains the later days of the product at that location
+export const postTransaction = async (
+  repository: InventoryRepository,
+  input: TransactionInput,
+  context: WriteContext
+): Promise<TransactionResult> => {
+  const product = await findProductByName(repository, input.item_name);
+  if (!product || !product.active) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Invalid transaction',
+      errors: [{ field: 'item_name', message: `"${input.item_name}" is not an active product in the catalog` }]
+    };
+  }
+
+  const day = await openDay(repository, product.name, input.location, input.date);
+  const rolled = { ...rollUpTransactions(day.record, [input]), timestamp: new Date().toISOString() };
+  const rechained = await rechainProduct(repository, product.name, input.location, input.date, { pending: [rolled] });
+  const { pending: [record], changes, errors } = settleShortfalls([rolled], rechained, input.shortfall_reason);
+  if (errors.length > 0) {
+    return { ok: false, status: 422, error: 'Ledger validation failed', errors };
+  }
+
+  const [saved] = await repository.saveRecords([record, ...changes.map(({ record }) => record)]);
+
+  const lots = input.type === 'issue'
+    ? await allocateLotsOnHand(repository, product.name, input.location, input.date, input.quantity)
+    : input.lots;
+  const [transaction] = await recordTransactions(repository, saved, [{ ...input, lots }], context);
+
+  const note = `${input.type} of ${input.quantity}${input.reference ? ` (${input.reference})` : ''}`;
+  await appendAudit(repository, context, [
+    { action: day.existing ? 'update' : 'insert', before: day.existing, after: saved, note },
+    ...changes.map(({ record, previous }) => ({
+      action: 'update' as const,
+      before: previous,
+      after: record,
+      note: `Re-chained after ${note} on ${input.date}`
+    }))
+  ]);
+
+  return { ok: true, transaction, record: saved, rechained: changes.map(({ change }) => change) };
+};
+
+// Newest first
+export const listTransactions = async (
+  repository: InventoryRepository,
+  filter: Partial<Pick<InventoryTransaction, 'item_name' | 'location' | 'date'>> = {}
+) => {
+  const rows = await transactions(repository).list(filter);
+  return rows.sort((a, b) => b.date.localeCompare(a.date) || b.created_at.localeCompare(a.created_at) || (b.id || 0) - (a.id || 0));
+};
@@ -0,0 +1,170 @@
+import { InventoryRecord, StockTransfer } from '../types/inventory';
+import { InventoryRepository } from './repository';
+import { appendAudit, AuditChange, WriteContext } from './audit';
+import { rechainProduct, RechainedRecord, settleShortfalls } from './ledger';
+import { findLocation } from './locations';
+import { findProductByName } from './products';
+import { nextReference } from './references';
+import { allocateLotsOnHand, openDay, recordTransactions, rollUpTransactions } from './transactions';
+import { FieldError, isValidDate, optionalText, refusePastDate, today } from './validation';
+
+export type TransferInput = Pick<StockTransfer, 'item_name' | 'from_location' | 'to_location' | 'quantity' | 'date'> & {
+  reference: string | null;
+  note: string | null;
+};
+
+export type TransferResult =
+  | { ok: true; transfer: StockTransfer; records: InventoryRecord[]; rechained: RechainedRecord[] }
+  | { ok: false; status: number; error: string; errors?: FieldError[] };
+
+export const transfers = (repository: InventoryRepository) =>
+  repository.collection<StockTransfer>('inventory_transfers');
+
+export const validateTransfer = (input: unknown) => {
+  const errors: FieldError[] = [];
+  const body = (input && typeof input === 'object' && !Array.isArray(input) ? input : {}) as Record<string, unknown>;
+
+  if (typeof body.item_name !== 'string' || !body.item_name.trim()) {
+    errors.push({ field: 'item_name', message: 'item_name is required' });
+  }
+
+  (['from_location', 'to_location'] as const).forEach(field => {
+    const value = body[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push({ field, message: `${field} is required` });
+    } else if (!findLocation(value)) {
+      errors.push({ field, message: `"${value}" is not a configured location` });
+    }
+  });
+
+  const from = typeof body.from_location === 'string' ? findLocation(body.from_location) : null;
+  const to = typeof body.to_location === 'string' ? findLocation(body.to_location) : null;
+  if (from && from === to) {
+    errors.push({ field: 'to_location', message: 'Stock has to move to a different location' });
+  }
+
+  if (typeof body.quantity !== 'number' || !Number.isFinite(body.quantity) || body.quantity <= 0) {
+    errors.push({ field: 'quantity', message: 'quantity must be a positive number' });
+  }
+
+  if (!isValidDate(body.date)) {
+    errors.push({ field: 'date', message: 'date must be a valid YYYY-MM-DD date' });
+  } else if (body.date > today()) {
+    errors.push({ field: 'date', message: 'Transfers cannot be posted for future dates' });
+  }
+
+  return {
+    errors,
+    transfer: {
+      item_name: String(body.item_name || '').trim(),
+      from_location: from!,
+      to_location: to!,
+      quantity: body.quantity as number,
+      date: body.date as string,
+      reference: optionalText(body.reference),
+      note: optionalText(body.note)
+    } as TransferInput
+  };
+};
+
+// Posts the outflow at the source and the inflow at the destination in one batch,
+// together with the later days of both locations that re-chain from them
+export const postTransfer = async (
+  repository: InventoryRepository,
+  input: TransferInput,
+  context: WriteContext
+): Promise<TransferResult> => {
+  const refused = refusePastDate(input.date);
+  if (refused) return refused;
+
+  const product = await findProductByName(repository, input.item_name);
+  if (!product || !product.active) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Invalid transfer',
+      errors: [{ field: 'item_name', message: `"${input.item_name}" is not an active product in the catalog` }]
+    };
+  }
+
+  const store = transfers(repository);
+  const reference = input.reference || (await nextReference(store, 'TRF', input.date, { date: input.date }));
+  if ((await store.list({ reference })).length > 0) {
+    return { ok: false, status: 409, error: `A transfer with reference "${reference}" already exists` };
+  }
+
+  const source = await openDay(repository, product.name, input.from_location, input.date);
+
+  // What the source holds at the end of the day before this transfer is taken out
+  const available = source.existing ? source.existing.closing_stock : source.record.opening_stock;
+  if (input.quantity > available) {
+    return {
+      ok: false,
+      status: 422,
+      error: 'Ledger validation failed',
+      errors: [{
+        field: 'quantity',
+        message: `Only ${available} ${product.unit} of "${product.name}" are at ${input.from_location} on ${input.date}`
+      }]
+    };
+  }
+
+  const destination = await openDay(repository, product.name, input.to_location, input.date);
+  const timestamp = new Date().toISOString();
+  const outflow = { ...rollUpTransactions(source.record, [{ type: 'transfer_out', quantity: input.quantity }]), timestamp };
+  const inflow = { ...rollUpTransactions(destination.record, [{ type: 'transfer_in', quantity: input.quantity }]), timestamp };
+
+  const [sourceChanges, destinationChanges] = await Promise.all([
+    rechainProduct(repository, product.name, input.from_location, input.date, { pending: [outflow] }),
+    rechainProduct(repository, product.name, input.to_location, input.date, { pending: [inflow] })
+  ]);
+
+  // Later days at the source that already issued the stock cannot be left short by it
+  const { changes, errors } = settleShortfalls([], [...sourceChanges, ...destinationChanges]);
+  if (errors.length > 0) {
+    return { ok: false, status: 422, error: 'Ledger validation failed', errors };
+  }
+
+  const saved = await repository.saveRecords([outflow, inflow, ...changes.map(({ record }) => record)]);
+
+  const transfer = await store.insert({
+    reference,
+    item_name: product.name,
+    from_location: input.from_location,
+    to_location: input.to_location,
+    quantity: input.quantity,
+    date: input.date,
+    note: input.note,
+    created_by: context.actor,
+    created_at: new Date().toISOString()
+  });
+
+  // The stock leaves in the lots that expire first and arrives at the destination in the same lots
+  const lots = await allocateLotsOnHand(repository, product.name, input.from_location, input.date, input.quantity);
+  const note = `Transfer ${reference}: ${input.quantity} from ${input.from_location} to ${input.to_location}`;
+  await recordTransactions(repository, saved[0], [{ type: 'transfer_out', quantity: input.quantity, reference, lots, note: input.note }], context);
+  await recordTransactions(repository, saved[1], [{ type: 'transfer_in', quantity: input.quantity, reference, lots, note: input.note }], context);
+
+  const posted: AuditChange[] = [source, destination].map(({ existing }, i) => ({
+    action: existing ? 'update' : 'insert',
+    before: existing,
+    after: saved[i],
+    note
+  }));
+  await appendAudit(repository, context, [
+    ...posted,
+    ...changes.map(({ record, previous }) => ({
+      action: 'update' as const,
+      before: previous,
+      after: record,
+      note: `Re-chained after transfer ${reference}`
+    }))
+  ]);
+
+  return {
+    ok: true,
+    transfer,
+    records: saved.slice(0, 2),
+    rechained: changes.map(({ change }) => change)
+  };
+};
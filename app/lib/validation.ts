@@ -0,0 +1,135 @@
+import { InventoryRecord } from '../types/inventory';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// new_balance and closing_stock are derived on the server, so clients may omit them
+const DERIVED_FIELDS: readonly string[] = ['new_balance', 'closing_stock'];
+
+// Balances go below zero after an accepted shortfall and carry into the next day's opening
+// stock; whether a day may close short is left to the server's shortfall check
+const BALANCE_FIELDS: readonly string[] = ['opening_stock', ...DERIVED_FIELDS];
+
+export const STOCK_FIELDS = [
+  'opening_stock',
+  'new_stock',
+  'new_balance',
+  'issued_production',
+  'damaged',
+  'closing_stock'
+] as const;
+
+// damage_reason names why the day's damaged quantity was written off; it goes onto the
+// damage transaction line rather than the record. shortfall_reason lets the day close below zero.
+type RecordInput = Omit<InventoryRecord, 'id' | 'timestamp' | 'shortfall_reason'> & {
+  damage_reason?: string;
+  shortfall_reason?: string;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidDate = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+};
+
+// The server's current date as YYYY-MM-DD, which future and past dates are checked against
+export const today = () => new Date().toISOString().split('T')[0];
+
+// Days before today are closed to direct writes; changes to them go through a correction
+// request that a supervisor approves. Returns the refusal to send back, or null for today.
+export const refusePastDate = (date: string) => {
+  if (date >= today()) return null;
+  const message = `${date} is a past day and cannot be changed directly; request a correction through /api/inventory/corrections`;
+  return { ok: false as const, status: 403, error: message, errors: [{ field: 'date', message }] };
+};
+
+export const optionalText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+export const isQuantity = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Checks an incoming request body against the InventoryRecord shape.
+// With `partial` set (PATCH) only the fields that are present are checked.
+export const validateInventoryRecord = (input: unknown, { partial = false } = {}) => {
+  const errors: FieldError[] = [];
+  const record: Partial<RecordInput> = {};
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { record, errors: [{ field: 'body', message: 'Request body must be a JSON object' }] };
+  }
+
+  const body = input as Record<string, unknown>;
+
+  if (body.item_name !== undefined || !partial) {
+    if (typeof body.item_name !== 'string' || !body.item_name.trim()) {
+      errors.push({ field: 'item_name', message: 'item_name is required' });
+    } else {
+      record.item_name = body.item_name.trim();
+    }
+  }
+
+  // Optional on create; the service falls back to the default location
+  if (body.location !== undefined) {
+    if (typeof body.location !== 'string' || !body.location.trim()) {
+      errors.push({ field: 'location', message: 'location must be a non-empty string' });
+    } else {
+      record.location = body.location.trim();
+    }
+  }
+
+  if (body.date !== undefined || !partial) {
+    if (!isValidDate(body.date)) {
+      errors.push({ field: 'date', message: 'date must be a valid YYYY-MM-DD date' });
+    } else {
+      record.date = body.date;
+    }
+  }
+
+  STOCK_FIELDS.forEach(field => {
+    const value = body[field];
+    if (value === undefined) {
+      if (!partial && !DERIVED_FIELDS.includes(field)) errors.push({ field, message: `${field} is required` });
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push({ field, message: `${field} must be a number` });
+    } else if (value < 0 && !BALANCE_FIELDS.includes(field)) {
+      errors.push({ field, message: `${field} cannot be negative` });
+    } else {
+      record[field] = value;
+    }
+  });
+
+  // Posted through their own documents; a daily entry may only repeat them, which the service checks
+  (['returns', 'rebagging'] as const).forEach(field => {
+    const value = body[field];
+    if (value === undefined) return;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push({ field, message: `${field} must be a number` });
+    } else {
+      record[field] = value;
+    }
+  });
+
+  if (body.damage_reason !== undefined && body.damage_reason !== null) {
+    if (typeof body.damage_reason !== 'string' || !body.damage_reason.trim()) {
+      errors.push({ field: 'damage_reason', message: 'damage_reason must be a reason code' });
+    } else {
+      record.damage_reason = body.damage_reason.trim();
+    }
+  }
+
+  if (body.shortfall_reason !== undefined && body.shortfall_reason !== null) {
+    if (typeof body.shortfall_reason !== 'string' || !body.shortfall_reason.trim()) {
+      errors.push({ field: 'shortfall_reason', message: 'shortfall_reason must be a non-empty string' });
+    } else {
+      record.shortfall_reason = body.shortfall_reason.trim();
+    }
+  }
+
+  return { record, errors };
+};
@@ -1,6 +1,7 @@
 export interface InventoryRecord {
   id?: number;
   item_name: string;
+  location: string;
   date: string;
   opening_stock: number;
   new_stock: number;
@@ -8,13 +9,19 @@ export interface InventoryRecord {
   issued_production: number;
   returns: number;
   rebagging: number;
+  rebagging_out: number; // Posted by rebagging conversions only, on the product that was rebagged
   damaged: number;
-  closing_stock: number;
+  transfer_in: number; // Posted by transfers only, never entered directly
+  transfer_out: number;
+  adjustment: number; // Signed; posted by stock-takes only
+  closing_stock: number; // Negative when more went out than was available
+  shortfall_reason: string | null; // Why the day was allowed to close below zero
   timestamp: string;
 }
 
 export interface FormData {
   itemName: string;
+  location: string;
   date: string;
   openingStock: number;
   newStock: number;
@@ -23,12 +30,305 @@ export interface FormData {
   returns: number;
   rebagging: number;
   damaged: number;
+  // Posted by transfers, rebagging conversions and stock-takes; shown read-only on the form
+  rebaggingOut: number;
+  transferIn: number;
+  transferOut: number;
+  adjustment: number;
   closingStock: number;
 }
 
 export type StatusMessageType = 'info' | 'success' | 'warning' | 'error';
 
+export type CorrectionStatus = 'pending' | 'approved' | 'rejected';
 
+export type ProposedValues = Pick<
+  InventoryRecord,
+  'opening_stock' | 'new_stock' | 'issued_production' | 'damaged'
+>;
 
+// A change to a past day that waits in the queue until an approver accepts it
+export interface CorrectionRequest {
+  id?: number;
+  record_id: number | null; // null when the day has no record yet
+  item_name: string;
+  location: string;
+  date: string;
+  proposed: ProposedValues;
+  reason: string;
+  damage_reason: string | null; // reason code for the proposed damaged quantity
+  shortfall_reason: string | null; // lets the corrected day, or a later one, close below zero
+  status: CorrectionStatus;
+  requested_by: string;
+  requested_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+}
+
+// Stock moved between two locations; posting it writes both locations' records for the day
+export interface StockTransfer {
+  id?: number;
+  reference: string;
+  item_name: string;
+  from_location: string;
+  to_location: string;
+  quantity: number;
+  date: string;
+  note: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+// Loose or damaged stock of one product rebagged into another at one location; posting it
+// takes the input off the source and puts the output on the target for the day
+export interface RebaggingConversion {
+  id?: number;
+  reference: string;
+  location: string;
+  date: string;
+  source_product: string;
+  target_product: string;
+  input_quantity: number;
+  output_quantity: number;
+  yield_loss: number; // input_quantity - output_quantity, lost in the rebagging
+  note: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export type StockTakeStatus = 'counting' | 'posted' | 'cancelled';
+
+export interface StockTakeLine {
+  item_name: string;
+  counted: number | null; // null until the product has been counted
+  // The computed balance: worked out on every read while counting, frozen when posted
+  system_quantity: number | null;
+  reason_code: string | null;
+  posted: boolean; // Whether the variance went into the ledger as an adjustment
+}
+
+// A physical count of a list of products at one location, reconciled against the ledger
+export interface StockTake {
+  id?: number;
+  reference: string;
+  location: string;
+  date: string;
+  status: StockTakeStatus;
+  lines: StockTakeLine[];
+  note: string | null;
+  created_by: string;
+  created_at: string;
+  posted_by: string | null;
+  posted_at: string | null;
+}
+
+// A configured reason for writing off or adjusting stock
+export interface ReasonCode {
+  code: string;
+  label: string;
+}
+
+export type TransactionType =
+  | 'receipt'
+  | 'issue'
+  | 'return'
+  | 'rebagging'
+  | 'rebagging_out'
+  | 'damage'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'adjustment';
+
+// One stock movement with its own reference. A day's transactions roll up into the
+// movement columns of that day's InventoryRecord; negative quantities reverse earlier lines.
+export interface InventoryTransaction {
+  id?: number;
+  item_name: string;
+  location: string;
+  date: string;
+  type: TransactionType;
+  quantity: number;
+  reference: string | null;
+  reason_code: string | null; // Why stock was damaged or adjusted; see ReasonCode
+  unit_cost: number | null; // What one unit cost; only receipts carry one
+  lots: LotQuantity[] | null; // The lot a receipt brought in, the lots an issue drew from, or those a transfer or rebagging carried
+  note: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export interface LotQuantity {
+  lot_number: string;
+  expiry_date: string | null; // Set by the receipt that brought the lot in
+  quantity: number;
+}
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export type AuditSource = 'ui' | 'api' | 'import';
+
+// One immutable entry per write to inventory_records; rows are only ever appended
+export interface AuditEntry {
+  id?: number;
+  record_id: number;
+  item_name: string;
+  date: string;
+  action: AuditAction;
+  before: InventoryRecord | null; // null for inserts
+  after: InventoryRecord | null; // null for deletes
+  actor: string;
+  source: AuditSource;
+  note: string | null;
+  recorded_at: string;
+}
 
+export type Role = 'viewer' | 'storekeeper' | 'supervisor' | 'admin';
 
+export interface Session {
+  username: string;
+  role: Role;
+  expires_at: string;
+}
+
+// Catalog entry; inventory records refer to a product by its name
+export interface Product {
+  id?: number;
+  code: string;
+  name: string;
+  category: string | null;
+  unit: string;
+  bag_size: number | null; // units per bag, when the product is bagged
+  min_stock: number | null; // Safety stock the product should never fall below
+  reorder_point: number | null; // Stock at or below which more should be ordered
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Someone stock is bought from
+export interface Supplier {
+  id?: number;
+  code: string;
+  name: string;
+  contact: string | null;
+  phone: string | null;
+  email: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Open until every line has been received in full or the rest is cancelled
+export type PurchaseOrderStatus = 'open' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  item_name: string;
+  quantity: number;
+  received: number; // Added to by every receipt posted against the order
+}
+
+// Stock ordered from a supplier for one location; receiving it posts new stock there
+export interface PurchaseOrder {
+  id?: number;
+  reference: string;
+  supplier_id: number;
+  supplier_name: string;
+  location: string;
+  order_date: string;
+  expected_date: string | null;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  note: string | null;
+  created_by: string;
+  created_at: string;
+  closed_at: string | null;
+}
+
+export interface GoodsReceivedLine {
+  item_name: string;
+  quantity: number;
+  unit_cost: number | null; // Posted on the line's receipt
+  lot_number: string | null;
+  expiry_date: string | null;
+}
+
+// A delivery as it came in; posting it writes a receipt per line into the day's records
+export interface GoodsReceivedNote {
+  id?: number;
+  reference: string;
+  supplier_id: number;
+  supplier_name: string;
+  purchase_order_id: number | null; // Set when the goods were received against an order
+  purchase_order_reference: string | null;
+  location: string;
+  date: string;
+  delivery_note: string; // The supplier's delivery note number
+  vehicle: string | null;
+  received_by: string; // Who took the goods in at the door, not necessarily who posted the note
+  lines: GoodsReceivedLine[];
+  note: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+// Materials used to make one finished unit
+export interface BomLine {
+  item_name: string;
+  quantity_per_unit: number;
+}
+
+// What one finished product consumes; orders copy the lines when they are raised, so
+// editing a bill of materials does not change orders already in progress
+export interface BillOfMaterials {
+  id?: number;
+  finished_product: string;
+  lines: BomLine[];
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Open while materials are being issued; completing it records how much was produced
+export type ProductionOrderStatus = 'open' | 'completed' | 'cancelled';
+
+export interface ProductionOrderLine extends BomLine {
+  issued: number; // Added to by every issue posted against the order
+  returned: number; // Added to by every return against the order or one of its issues
+}
+
+// A run of a finished product at one location; materials issued against it are posted
+// as issues to production there
+export interface ProductionOrder {
+  id?: number;
+  reference: string;
+  bom_id: number;
+  finished_product: string;
+  location: string;
+  order_date: string;
+  planned_quantity: number;
+  produced_quantity: number | null; // Set when the order is completed
+  status: ProductionOrderStatus;
+  lines: ProductionOrderLine[];
+  note: string | null;
+  created_by: string;
+  created_at: string;
+  closed_at: string | null;
+}
+
+// Material coming back from production, always against the issue it went out on or the
+// production order it was issued to; it never exceeds what is still out on either
+export interface ProductionReturn {
+  id?: number;
+  reference: string;
+  item_name: string;
+  location: string;
+  date: string;
+  quantity: number;
+  issue_id: number | null; // The issue transaction, when the return names one
+  production_order_id: number | null;
+  production_order_reference: string | null;
+  note: string | null;
+  created_by: string;
+  created_at: string;
+}